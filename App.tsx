@@ -2,6 +2,7 @@ import { StatusBar } from 'expo-status-bar';
 import { ActivityIndicator, View, StyleSheet } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { useAuthStore, useAuthSession } from './src/stores/authStore';
+import { useEventStore } from './src/stores/eventStore';
 import { AuthScreen } from './src/screens/AuthScreen';
 import { HomeScreen } from './src/screens/HomeScreen';
 import { useEffect } from 'react';
@@ -10,6 +11,7 @@ function MainApp() {
   const user = useAuthStore((state) => state.user);
   const loading = useAuthStore((state) => state.loading);
   const initializeAuth = useAuthStore((state) => state.initializeAuth);
+  const initializeEvents = useEventStore((state) => state.initialize);
 
   // Initialize auth and OAuth session
   useAuthSession();
@@ -19,6 +21,11 @@ function MainApp() {
     return cleanup;
   }, [initializeAuth]);
 
+  useEffect(() => {
+    const cleanup = initializeEvents();
+    return cleanup;
+  }, [initializeEvents]);
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
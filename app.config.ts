@@ -20,6 +20,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
   ios: {
     supportsTablet: true,
     bundleIdentifier: "life.intentive.ios",
+    usesAppleSignIn: true,
     infoPlist: {
       ITSAppUsesNonExemptEncryption: false,
       CFBundleURLTypes: [
@@ -45,7 +46,9 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     favicon: "./assets/favicon.png"
   },
   plugins: [
-    "expo-web-browser"
+    "expo-web-browser",
+    "expo-notifications",
+    "expo-apple-authentication"
   ],
   extra: {
     eas: {
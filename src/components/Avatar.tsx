@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { View, Text, Image, StyleSheet } from 'react-native';
+
+interface AvatarProps {
+  uri: string | null;
+  // Initial shown when there is no photo or it fails to load
+  name: string;
+  size: number;
+}
+
+export function Avatar({ uri, name, size }: AvatarProps) {
+  const [failedUri, setFailedUri] = useState<string | null>(null);
+  const circle = { width: size, height: size, borderRadius: size / 2 };
+
+  if (uri && uri !== failedUri) {
+    return <Image source={{ uri }} style={[styles.image, circle]} onError={() => setFailedUri(uri)} />;
+  }
+
+  return (
+    <View style={[styles.fallback, circle]}>
+      <Text style={[styles.initial, { fontSize: size * 0.4 }]}>{name.charAt(0).toUpperCase() || '?'}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#2A2A2A',
+  },
+  fallback: {
+    backgroundColor: '#F97316',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  initial: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { addDays, startOfLocalDay } from '../lib/dates';
+import { useICalendar } from '../hooks/useICalendar';
+import { DateTimeField } from './DateTimeField';
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/** Import and export of .ics files on the profile screen. */
+export function CalendarFileSection() {
+  const { importing, exporting, importFile, exportRange } = useICalendar();
+  const [exportFrom, setExportFrom] = useState(() => startOfLocalDay(new Date()));
+  const [exportTo, setExportTo] = useState(() => addDays(startOfLocalDay(new Date()), 30));
+
+  const handleImport = async () => {
+    try {
+      const summary = await importFile();
+      if (!summary) return;
+
+      const notes = [
+        summary.skipped > 0 &&
+          `${plural(summary.skipped, 'event')} ${summary.skipped === 1 ? 'was' : 'were'} already in your calendar.`,
+        summary.unsupportedRecurrences > 0 &&
+          `${plural(summary.unsupportedRecurrences, 'repeating event')} ${summary.unsupportedRecurrences === 1 ? 'repeats' : 'repeat'} in a way Intentive can't follow yet, so only the first time was added.`,
+      ].filter(Boolean);
+      Alert.alert('Import Complete', [`Added ${plural(summary.imported, 'event')}.`, ...notes].join('\n\n'));
+    } catch (error: any) {
+      console.error('Error importing calendar file:', error);
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const count = await exportRange(exportFrom, exportTo);
+      if (count === 0) {
+        Alert.alert('Nothing to Export', 'There are no events between those dates.');
+      }
+    } catch (error: any) {
+      console.error('Error exporting calendar file:', error);
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Import & Export</Text>
+
+      <Text style={styles.label}>Add events from an .ics file, like a school or clinic calendar.</Text>
+      <TouchableOpacity style={styles.actionButton} onPress={handleImport} disabled={importing}>
+        <Text style={styles.actionButtonText}>{importing ? 'Importing…' : 'Import .ics file'}</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.label}>Export events to share or keep as a backup.</Text>
+      <View style={styles.rangeRow}>
+        <Text style={styles.rangeLabel}>From</Text>
+        <DateTimeField
+          value={exportFrom}
+          mode="date"
+          onChange={(date) => {
+            setExportFrom(startOfLocalDay(date));
+            if (date > exportTo) setExportTo(startOfLocalDay(date));
+          }}
+        />
+      </View>
+      <View style={styles.rangeRow}>
+        <Text style={styles.rangeLabel}>To</Text>
+        <DateTimeField
+          value={exportTo}
+          mode="date"
+          onChange={(date) => {
+            setExportTo(startOfLocalDay(date));
+            if (date < exportFrom) setExportFrom(startOfLocalDay(date));
+          }}
+        />
+      </View>
+      <TouchableOpacity style={styles.actionButton} onPress={handleExport} disabled={exporting}>
+        <Text style={styles.actionButtonText}>{exporting ? 'Exporting…' : 'Export .ics file'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  rangeLabel: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  actionButton: {
+    marginTop: 4,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+});
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal, Switch, ActivityIndicator } from 'react-native';
+import { EVENT_COLORS } from '../lib/eventColors';
+import { useCalendarStore, getWritableCalendars, resolveCalendarId } from '../stores/calendarStore';
+
+interface CalendarListSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * The user's Google calendars: which ones to show, what color their events get and
+ * which one new events go into. Tap a calendar to change its color or make it the default.
+ */
+export function CalendarListSheet({ visible, onClose }: CalendarListSheetProps) {
+  const calendars = useCalendarStore((state) => state.calendars);
+  const hiddenCalendarIds = useCalendarStore((state) => state.hiddenCalendarIds);
+  const calendarColors = useCalendarStore((state) => state.calendarColors);
+  const defaultCalendarId = useCalendarStore((state) => state.defaultCalendarId);
+  const loading = useCalendarStore((state) => state.loading);
+  const fetchCalendars = useCalendarStore((state) => state.fetchCalendars);
+  const setCalendarVisible = useCalendarStore((state) => state.setCalendarVisible);
+  const setCalendarColor = useCalendarStore((state) => state.setCalendarColor);
+  const setDefaultCalendar = useCalendarStore((state) => state.setDefaultCalendar);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) fetchCalendars();
+  }, [visible, fetchCalendars]);
+
+  const writableIds = new Set(getWritableCalendars(calendars).map((calendar) => calendar.id));
+  const defaultId = resolveCalendarId(calendars, defaultCalendarId);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.titleRow}>
+            <Text style={styles.sheetTitle}>Calendars</Text>
+            {loading && <ActivityIndicator color="#F97316" />}
+          </View>
+
+          {calendars.length === 0 && !loading && (
+            <Text style={styles.emptyText}>No calendars yet. Connect Google Calendar to see yours here.</Text>
+          )}
+
+          <ScrollView style={styles.list}>
+            {calendars.map((calendar) => {
+              const color = calendarColors[calendar.id] ?? calendar.color;
+              const expanded = expandedId === calendar.id;
+
+              return (
+                <View key={calendar.id} style={styles.calendar}>
+                  <TouchableOpacity
+                    style={styles.calendarRow}
+                    onPress={() => setExpandedId(expanded ? null : calendar.id)}
+                  >
+                    <View style={[styles.colorDot, { backgroundColor: color }]} />
+                    <View style={styles.calendarInfo}>
+                      <Text style={styles.calendarName} numberOfLines={1}>{calendar.name}</Text>
+                      {(calendar.id === defaultId || !writableIds.has(calendar.id)) && (
+                        <Text style={styles.calendarNote}>
+                          {calendar.id === defaultId ? 'New events go here' : 'Read only'}
+                        </Text>
+                      )}
+                    </View>
+                    <Switch
+                      value={!hiddenCalendarIds.includes(calendar.id)}
+                      onValueChange={(value) => setCalendarVisible(calendar.id, value)}
+                      trackColor={{ false: '#2A2A2A', true: '#F97316' }}
+                    />
+                  </TouchableOpacity>
+
+                  {expanded && (
+                    <View style={styles.options}>
+                      <View style={styles.swatches}>
+                        {EVENT_COLORS.map((option) => (
+                          <TouchableOpacity
+                            key={option}
+                            style={[styles.swatch, { backgroundColor: option }, color === option && styles.swatchSelected]}
+                            onPress={() => setCalendarColor(calendar.id, option)}
+                          />
+                        ))}
+                        {calendarColors[calendar.id] && (
+                          <TouchableOpacity onPress={() => setCalendarColor(calendar.id, null)}>
+                            <Text style={styles.optionLink}>Use Google's color</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                      {writableIds.has(calendar.id) && calendar.id !== defaultId && (
+                        <TouchableOpacity onPress={() => setDefaultCalendar(calendar.primary ? null : calendar.id)}>
+                          <Text style={styles.optionLink}>Put new events here</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '80%',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  calendar: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+  },
+  calendarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  colorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  calendarInfo: {
+    flex: 1,
+  },
+  calendarName: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  calendarNote: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 2,
+  },
+  options: {
+    paddingLeft: 26,
+    paddingBottom: 12,
+    gap: 12,
+  },
+  swatches: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+  },
+  optionLink: {
+    fontSize: 14,
+    color: '#F97316',
+  },
+  doneButton: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { EVENT_COLORS } from '../lib/eventColors';
+import { useCategoryStore } from '../stores/categoryStore';
+import { CategoryManagerSheet } from './CategoryManagerSheet';
+
+interface CategoryColorPickerProps {
+  categoryId: string | null;
+  // null follows the category, then the calendar
+  color: string | null;
+  // What the event looks like with `color` unset, shown on the Auto swatch
+  autoColor: string;
+  onChangeCategory: (categoryId: string | null) => void;
+  onChangeColor: (color: string | null) => void;
+}
+
+/** Category chips and color swatches for the event forms. */
+export function CategoryColorPicker({
+  categoryId,
+  color,
+  autoColor,
+  onChangeCategory,
+  onChangeColor,
+}: CategoryColorPickerProps) {
+  const categories = useCategoryStore((state) => state.categories);
+  const [managerVisible, setManagerVisible] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Category</Text>
+      <View style={styles.chips}>
+        <TouchableOpacity
+          style={[styles.chip, categoryId === null && styles.chipSelected]}
+          onPress={() => onChangeCategory(null)}
+        >
+          <Text style={[styles.chipText, categoryId === null && styles.chipTextSelected]}>None</Text>
+        </TouchableOpacity>
+        {categories.map((category) => (
+          <TouchableOpacity
+            key={category.id}
+            style={[styles.chip, categoryId === category.id && styles.chipSelected]}
+            onPress={() => onChangeCategory(category.id)}
+          >
+            <View style={[styles.chipDot, { backgroundColor: category.color }]} />
+            <Text style={[styles.chipText, categoryId === category.id && styles.chipTextSelected]}>
+              {category.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.chip} onPress={() => setManagerVisible(true)}>
+          <Text style={styles.chipText}>{categories.length > 0 ? 'Edit…' : '+ New'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.label, styles.colorLabel]}>Color</Text>
+      <View style={styles.swatches}>
+        <TouchableOpacity
+          style={[styles.swatch, styles.autoSwatch, { borderColor: autoColor }, color === null && styles.swatchSelected]}
+          onPress={() => onChangeColor(null)}
+        >
+          <Text style={styles.autoText}>Auto</Text>
+        </TouchableOpacity>
+        {EVENT_COLORS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.swatch, { backgroundColor: option }, color === option && styles.swatchSelected]}
+            onPress={() => onChangeColor(option)}
+          />
+        ))}
+      </View>
+
+      <CategoryManagerSheet
+        visible={managerVisible}
+        onClose={() => setManagerVisible(false)}
+        onCreated={(category) => onChangeCategory(category.id)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8B8B8B',
+  },
+  colorLabel: {
+    marginTop: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#0D0D0D',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  chipSelected: {
+    backgroundColor: '#F97316',
+    borderColor: '#F97316',
+  },
+  chipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  swatches: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  autoSwatch: {
+    width: 44,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  autoText: {
+    fontSize: 10,
+    color: '#FFFFFF',
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+  },
+});
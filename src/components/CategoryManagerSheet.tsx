@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal, TextInput, Alert } from 'react-native';
+import { Category } from '../lib/supabase';
+import { EVENT_COLORS } from '../lib/eventColors';
+import { useCategoryStore } from '../stores/categoryStore';
+
+interface CategoryManagerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called with a category made here, e.g. to put the event being edited in it
+  onCreated?: (category: Category) => void;
+}
+
+interface CategoryRowProps {
+  category: Category;
+}
+
+function CategoryRow({ category }: CategoryRowProps) {
+  const updateCategory = useCategoryStore((state) => state.updateCategory);
+  const deleteCategory = useCategoryStore((state) => state.deleteCategory);
+  const [name, setName] = useState(category.name);
+
+  const update = async (updates: Partial<Pick<Category, 'name' | 'color'>>) => {
+    try {
+      await updateCategory(category.id, updates);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const rename = () => {
+    if (!name.trim()) {
+      setName(category.name);
+    } else if (name.trim() !== category.name) {
+      update({ name: name.trim() });
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      'Delete Category',
+      `Delete "${category.name}"? Its events keep their own colors or go back to their calendar's.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteCategory(category.id).catch((error) => Alert.alert('Error', error.message)),
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.category}>
+      <View style={styles.categoryHeader}>
+        <TextInput
+          style={styles.nameInput}
+          value={name}
+          onChangeText={setName}
+          onEndEditing={rename}
+          placeholder="Category name"
+          placeholderTextColor="#6B6B6B"
+        />
+        <TouchableOpacity onPress={confirmDelete}>
+          <Text style={styles.deleteText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.swatches}>
+        {EVENT_COLORS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.swatch, { backgroundColor: option }, category.color === option && styles.swatchSelected]}
+            onPress={() => update({ color: option })}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/** Create, rename, recolor and delete the user's categories. */
+export function CategoryManagerSheet({ visible, onClose, onCreated }: CategoryManagerSheetProps) {
+  const categories = useCategoryStore((state) => state.categories);
+  const createCategory = useCategoryStore((state) => state.createCategory);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(EVENT_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const category = await createCategory(newName, newColor);
+      setNewName('');
+      onCreated?.(category);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.sheetTitle}>Categories</Text>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            {categories.map((category) => (
+              <CategoryRow key={category.id} category={category} />
+            ))}
+
+            {/* New category */}
+            <View style={styles.category}>
+              <View style={styles.categoryHeader}>
+                <TextInput
+                  style={styles.nameInput}
+                  value={newName}
+                  onChangeText={setNewName}
+                  onSubmitEditing={handleCreate}
+                  placeholder="New category"
+                  placeholderTextColor="#6B6B6B"
+                  returnKeyType="done"
+                />
+                <TouchableOpacity onPress={handleCreate} disabled={saving}>
+                  <Text style={[styles.addText, saving && styles.disabled]}>Add</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.swatches}>
+                {EVENT_COLORS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.swatch, { backgroundColor: option }, newColor === option && styles.swatchSelected]}
+                    onPress={() => setNewColor(option)}
+                  />
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  category: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2A2A2A',
+    gap: 10,
+  },
+  categoryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  nameInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+    paddingVertical: 4,
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#EF4444',
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  swatches: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+  },
+  doneButton: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal, Alert } from 'react-native';
+import { CalendarEvent, GoogleEventVersion } from '../lib/supabase';
+import { CONFLICT_POLICY_OPTIONS, ConflictField, ConflictSide, getConflictingFields } from '../lib/conflicts';
+import { describeRecurrence } from '../lib/recurrence';
+import { formatEventWhen } from '../lib/dates';
+import { TimeFormat } from '../lib/preferences';
+import { useSyncSettingsStore } from '../stores/syncSettingsStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: 'Title',
+  description: 'Notes',
+  time: 'When',
+  recurrence_rule: 'Repeat',
+};
+
+interface ConflictSheetProps {
+  // The sheet is open while an event with a conflict is set
+  event: CalendarEvent | null;
+  onClose: () => void;
+  onResolve: (event: CalendarEvent, choose: (field: ConflictField) => ConflictSide) => Promise<void>;
+}
+
+function describeField(version: CalendarEvent | GoogleEventVersion, field: ConflictField, timeFormat: TimeFormat) {
+  switch (field) {
+    case 'title':
+      return version.title || 'No title';
+    case 'description':
+      return version.description || 'No notes';
+    case 'time':
+      return formatEventWhen(version, timeFormat);
+    case 'recurrence_rule':
+      return version.recurrence_rule ? describeRecurrence(version.recurrence_rule) : 'Never';
+  }
+}
+
+/**
+ * Shows an event that was changed both here and in Google Calendar side by side, one
+ * row per field that differs, and lets the user pick which version of each to keep.
+ */
+export function ConflictSheet({ event, onClose, onResolve }: ConflictSheetProps) {
+  const conflictPolicy = useSyncSettingsStore((state) => state.conflictPolicy);
+  const setConflictPolicy = useSyncSettingsStore((state) => state.setConflictPolicy);
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, ConflictSide>>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setChoices({});
+  }, [event]);
+
+  if (!event?.google_version) return null;
+
+  const remote = event.google_version;
+  const fields = getConflictingFields(event, remote);
+  const chosen = (field: ConflictField) => choices[field] ?? 'local';
+
+  const resolve = async (choose: (field: ConflictField) => ConflictSide) => {
+    setSaving(true);
+    try {
+      await onResolve(event, choose);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.sheetTitle}>Changed in two places</Text>
+          <Text style={styles.subtitle}>
+            "{event.title}" was edited here and in Google Calendar. Pick what to keep.
+          </Text>
+
+          <ScrollView style={styles.fields}>
+            {fields.map((field) => (
+              <View key={field} style={styles.field}>
+                <Text style={styles.fieldLabel}>{FIELD_LABELS[field]}</Text>
+                <View style={styles.versions}>
+                  {(['local', 'google'] as const).map((side) => (
+                    <TouchableOpacity
+                      key={side}
+                      style={[styles.version, chosen(field) === side && styles.versionSelected]}
+                      onPress={() => setChoices({ ...choices, [field]: side })}
+                    >
+                      <Text style={styles.versionSource}>{side === 'local' ? 'This app' : 'Google'}</Text>
+                      <Text style={styles.versionValue} numberOfLines={4}>
+                        {describeField(side === 'local' ? event : remote, field, timeFormat)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          {/* Default policy */}
+          <Text style={styles.policyLabel}>Next time both change</Text>
+          <View style={styles.policyOptions}>
+            {CONFLICT_POLICY_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.policy}
+                style={[styles.policyOption, conflictPolicy === option.policy && styles.policyOptionSelected]}
+                onPress={() => setConflictPolicy(option.policy)}
+              >
+                <Text
+                  style={[styles.policyOptionText, conflictPolicy === option.policy && styles.policyOptionTextSelected]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.buttonSecondary, saving && styles.buttonDisabled]}
+              onPress={() => resolve(() => 'google')}
+              disabled={saving}
+            >
+              <Text style={styles.buttonSecondaryText}>Use Google</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.buttonSave, saving && styles.buttonDisabled]}
+              onPress={() => resolve(chosen)}
+              disabled={saving}
+            >
+              <Text style={styles.buttonSaveText}>Keep selected</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelButtonText}>Decide later</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: '90%',
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  fields: {
+    flexGrow: 0,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8B8B8B',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  versions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  version: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#0D0D0D',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  versionSelected: {
+    borderColor: '#F97316',
+    backgroundColor: '#F9731620',
+  },
+  versionSource: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    marginBottom: 4,
+  },
+  versionValue: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  policyLabel: {
+    fontSize: 13,
+    color: '#8B8B8B',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  policyOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  policyOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  policyOptionSelected: {
+    backgroundColor: '#F97316',
+  },
+  policyOptionText: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  policyOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  buttonSecondary: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  buttonSecondaryText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  buttonSave: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#F97316',
+    alignItems: 'center',
+  },
+  buttonSaveText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    marginTop: 12,
+    padding: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: '#8B8B8B',
+  },
+});
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Platform, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import DateTimePicker, { DateTimePickerAndroid } from '@react-native-community/datetimepicker';
+import { TimeFormat } from '../lib/preferences';
+import { formatTime } from '../lib/dates';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+interface DateTimeFieldProps {
+  value: Date;
+  mode: 'date' | 'time';
+  onChange: (date: Date) => void;
+}
+
+function formatValue(value: Date, mode: 'date' | 'time', timeFormat: TimeFormat) {
+  return mode === 'date'
+    ? value.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+    : formatTime(value, undefined, timeFormat);
+}
+
+/**
+ * Date or time input. iOS renders the native compact picker inline; Android has no
+ * inline picker, so it shows the value and opens the system dialog on tap.
+ */
+export function DateTimeField({ value, mode, onChange }: DateTimeFieldProps) {
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+
+  if (Platform.OS === 'ios') {
+    return (
+      <DateTimePicker
+        value={value}
+        mode={mode}
+        display="compact"
+        themeVariant="dark"
+        accentColor="#F97316"
+        onChange={(_event, date) => date && onChange(date)}
+      />
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={styles.field}
+      onPress={() =>
+        DateTimePickerAndroid.open({
+          value,
+          mode,
+          is24Hour: timeFormat === '24h',
+          onChange: (event, date) => {
+            if (event.type === 'set' && date) onChange(date);
+          },
+        })
+      }
+    >
+      <Text style={styles.fieldText}>{formatValue(value, mode, timeFormat)}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#2A2A2A',
+  },
+  fieldText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
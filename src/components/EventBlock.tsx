@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder } from 'react-native';
+import { CalendarEvent } from '../lib/supabase';
+import { EventLayout } from '../lib/eventLayout';
+import { formatTime } from '../lib/dates';
+import { TimeFormat } from '../lib/preferences';
+import { atMinuteOfDay, minutesIntoDay } from '../lib/timezone';
+import { useEventColor } from '../hooks/useEventColor';
+import { EventSyncState, SyncBadge } from './SyncBadge';
+
+const SNAP_MINUTES = 15;
+const LONG_PRESS_MS = 400;
+// Finger travel that counts as a scroll rather than a press
+const TOUCH_SLOP = 8;
+
+type DragMode = 'move' | 'resize';
+
+interface Preview {
+  startMinute: number;
+  endMinute: number;
+}
+
+interface EventBlockProps {
+  layout: EventLayout;
+  dayStart: Date;
+  dayEnd: Date;
+  // Zone the grid's clock is in
+  timeZone: string;
+  timeFormat: TimeFormat;
+  // Points per minute on the grid
+  minuteHeight: number;
+  // Narrow columns (3-day and week views) get tighter padding and smaller text
+  compact?: boolean;
+  pending: boolean;
+  // Where the event stands with Google Calendar
+  syncStatus: EventSyncState;
+  // Already over; drawn dimmed
+  past: boolean;
+  onPress: () => void;
+  // Called when a drag starts or stops, so the grid can stop scrolling meanwhile
+  onDragActiveChange: (active: boolean) => void;
+  // Resolves false if the new times weren't saved, which snaps the block back
+  onReschedule: (event: CalendarEvent, start: Date, end: Date) => Promise<boolean>;
+}
+
+function snap(minutes: number) {
+  return Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+}
+
+/**
+ * An event on the time grid. Tap to open it, long-press and drag to move it, or drag
+ * the bottom handle to change its length. Times snap to 15 minutes while dragging.
+ */
+export function EventBlock({
+  layout,
+  dayStart,
+  dayEnd,
+  timeZone,
+  timeFormat,
+  minuteHeight,
+  compact = false,
+  pending,
+  syncStatus,
+  past,
+  onPress,
+  onDragActiveChange,
+  onReschedule,
+}: EventBlockProps) {
+  const { event } = layout;
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [dragMode, setDragMode] = useState<DragMode | null>(null);
+
+  // PanResponder handlers are created once, so they read current values through refs
+  const dragModeRef = useRef<DragMode | null>(null);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latest = useRef({ layout, dayStart, dayEnd, timeZone, minuteHeight, onPress, onDragActiveChange, onReschedule });
+  latest.current = { layout, dayStart, dayEnd, timeZone, minuteHeight, onPress, onDragActiveChange, onReschedule };
+
+  // Multi-day events clipped to this day can't be dragged as a whole
+  const isDraggable = (current: EventLayout) => !current.continuesBefore && !current.continuesAfter;
+  const draggable = isDraggable(layout);
+
+  // Drop the preview once the saved times come back through props
+  useEffect(() => {
+    setPreview(null);
+  }, [layout.startMinute, layout.endMinute]);
+
+  const computePreview = (mode: DragMode, dy: number): Preview => {
+    const { layout: current, dayStart: start, dayEnd: end, timeZone: zone, minuteHeight: scale } = latest.current;
+    const dayMinutes = minutesIntoDay(end, start, zone);
+    const minutes = dy / scale;
+
+    if (mode === 'move') {
+      const duration = current.endMinute - current.startMinute;
+      const startMinute = Math.min(Math.max(snap(current.startMinute + minutes), 0), dayMinutes - duration);
+      return { startMinute, endMinute: startMinute + duration };
+    }
+
+    const endMinute = Math.min(
+      Math.max(snap(current.endMinute + minutes), current.startMinute + SNAP_MINUTES),
+      dayMinutes
+    );
+    return { startMinute: current.startMinute, endMinute };
+  };
+
+  const setMode = (mode: DragMode | null) => {
+    dragModeRef.current = mode;
+    setDragMode(mode);
+    latest.current.onDragActiveChange(mode !== null);
+  };
+
+  const clearLongPress = () => {
+    if (longPressTimer.current) {
+      clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
+    }
+  };
+
+  const finishDrag = async (dy: number) => {
+    const mode = dragModeRef.current;
+    if (!mode) return;
+    setMode(null);
+
+    const { layout: current, dayStart: start, timeZone: zone, onReschedule: reschedule } = latest.current;
+    const next = computePreview(mode, dy);
+    if (next.startMinute === current.startMinute && next.endMinute === current.endMinute) {
+      setPreview(null);
+      return;
+    }
+
+    setPreview(next);
+    const saved = await reschedule(
+      current.event,
+      atMinuteOfDay(start, next.startMinute, zone),
+      atMinuteOfDay(start, next.endMinute, zone)
+    );
+    if (!saved) {
+      setPreview(null);
+    }
+  };
+
+  const cancelDrag = () => {
+    clearLongPress();
+    if (dragModeRef.current) {
+      setMode(null);
+    }
+    setPreview(null);
+  };
+
+  const movePanResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        if (!isDraggable(latest.current.layout)) return;
+        longPressTimer.current = setTimeout(() => {
+          longPressTimer.current = null;
+          setMode('move');
+        }, LONG_PRESS_MS);
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (dragModeRef.current === 'move') {
+          setPreview(computePreview('move', gesture.dy));
+        } else if (Math.abs(gesture.dy) > TOUCH_SLOP || Math.abs(gesture.dx) > TOUCH_SLOP) {
+          // Moved before the long press fired: this is a scroll, not a drag
+          clearLongPress();
+        }
+      },
+      onPanResponderRelease: (_, gesture) => {
+        clearLongPress();
+
+        if (dragModeRef.current) {
+          finishDrag(gesture.dy);
+        } else if (Math.abs(gesture.dy) <= TOUCH_SLOP && Math.abs(gesture.dx) <= TOUCH_SLOP) {
+          latest.current.onPress();
+        }
+      },
+      // Let the grid scroll unless we're mid-drag
+      onPanResponderTerminationRequest: () => dragModeRef.current === null,
+      onPanResponderTerminate: cancelDrag,
+    })
+  ).current;
+
+  const resizePanResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => setMode('resize'),
+      onPanResponderMove: (_, gesture) => setPreview(computePreview('resize', gesture.dy)),
+      onPanResponderRelease: (_, gesture) => finishDrag(gesture.dy),
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderTerminate: cancelDrag,
+    })
+  ).current;
+
+  useEffect(() => clearLongPress, []);
+
+  const startMinute = preview?.startMinute ?? layout.startMinute;
+  const endMinute = preview?.endMinute ?? layout.endMinute;
+  const startTime = preview ? atMinuteOfDay(dayStart, startMinute, timeZone) : new Date(event.start_time);
+  const endTime = preview ? atMinuteOfDay(dayStart, endMinute, timeZone) : new Date(event.end_time);
+  const color = useEventColor(event)!;
+
+  const startLabel = formatTime(startTime, timeZone, timeFormat);
+  const endLabel = formatTime(endTime, timeZone, timeFormat);
+  let timeLabel = `${startLabel} - ${endLabel}`;
+  if (layout.continuesBefore && layout.continuesAfter) {
+    timeLabel = 'All day';
+  } else if (layout.continuesBefore) {
+    timeLabel = `Until ${endLabel}`;
+  } else if (layout.continuesAfter) {
+    timeLabel = `From ${startLabel}`;
+  }
+
+  return (
+    <View
+      {...movePanResponder.panHandlers}
+      accessibilityRole="button"
+      style={[
+        styles.eventBlock,
+        compact && styles.eventBlockCompact,
+        {
+          top: startMinute * minuteHeight,
+          // At least half an hour tall so short events stay readable
+          height: Math.max(endMinute - startMinute, 30) * minuteHeight,
+          left: `${(layout.column / layout.columns) * 100}%`,
+          width: `${(layout.span / layout.columns) * 100}%`,
+          backgroundColor: color + '20',
+          borderLeftColor: color,
+        },
+        layout.continuesBefore && styles.eventBlockContinuesBefore,
+        layout.continuesAfter && styles.eventBlockContinuesAfter,
+        pending && styles.eventBlockPending,
+        past && !dragMode && styles.eventBlockPast,
+        dragMode && [styles.eventBlockDragging, { borderColor: color }],
+      ]}
+    >
+      <Text style={[styles.eventTitle, compact && styles.eventTitleCompact, { color }]} numberOfLines={1}>
+        {event.title}
+      </Text>
+      <Text
+        style={[styles.eventTime, compact && styles.eventTimeCompact, dragMode && styles.eventTimeDragging]}
+        numberOfLines={1}
+      >
+        {timeLabel}
+        {pending && !dragMode ? ' · Not synced' : ''}
+      </Text>
+      {!dragMode && <SyncBadge status={syncStatus} compact={compact} />}
+      {draggable && (
+        <View {...resizePanResponder.panHandlers} style={styles.resizeHandle}>
+          <View style={[styles.resizeGrip, { backgroundColor: color }]} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  eventBlock: {
+    position: 'absolute',
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    borderWidth: 1,
+    borderColor: '#0D0D0D',
+    padding: 8,
+    overflow: 'hidden',
+  },
+  eventBlockCompact: {
+    padding: 3,
+    borderLeftWidth: 2,
+  },
+  eventBlockContinuesBefore: {
+    borderTopLeftRadius: 0,
+    borderTopRightRadius: 0,
+  },
+  eventBlockContinuesAfter: {
+    borderBottomLeftRadius: 0,
+    borderBottomRightRadius: 0,
+  },
+  eventBlockPending: {
+    opacity: 0.6,
+    borderStyle: 'dashed',
+  },
+  eventBlockPast: {
+    opacity: 0.4,
+  },
+  eventBlockDragging: {
+    zIndex: 10,
+    opacity: 0.9,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  eventTitleCompact: {
+    fontSize: 11,
+  },
+  eventTime: {
+    fontSize: 11,
+    color: '#8B8B8B',
+    marginTop: 2,
+  },
+  eventTimeCompact: {
+    fontSize: 9,
+  },
+  eventTimeDragging: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  resizeHandle: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resizeGrip: {
+    width: 24,
+    height: 3,
+    borderRadius: 2,
+    opacity: 0.6,
+  },
+});
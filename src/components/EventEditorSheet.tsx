@@ -0,0 +1,418 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  Switch,
+} from 'react-native';
+import { CalendarEvent } from '../lib/supabase';
+import { RecurrenceScope, isRecurring } from '../lib/recurrence';
+import { REMINDER_OPTIONS } from '../lib/reminders';
+import { addDays, allDayTimes, getAllDayDates, parseDateKey, startOfLocalDay, toDateKey } from '../lib/dates';
+import { getDeviceTimeZone } from '../lib/timezone';
+import { useEventColor } from '../hooks/useEventColor';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { DateTimeField } from './DateTimeField';
+import { CategoryColorPicker } from './CategoryColorPicker';
+import { RecurrenceScopeSheet } from './RecurrenceScopeSheet';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface EventEditorSheetProps {
+  // The sheet is open while an event is set
+  event: CalendarEvent | null;
+  onClose: () => void;
+  onSave: (updates: Partial<CalendarEvent>, scope: RecurrenceScope) => Promise<void>;
+  onDelete: (event: CalendarEvent) => void;
+}
+
+/** Copies the calendar date of `date` onto the time of day of `time`. */
+function combine(date: Date, time: Date) {
+  const result = new Date(time);
+  result.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+  return result;
+}
+
+export function EventEditorSheet({ event, onClose, onSave, onDelete }: EventEditorSheetProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [allDay, setAllDay] = useState(false);
+  const [start, setStart] = useState(new Date());
+  const [end, setEnd] = useState(new Date());
+  const [color, setColor] = useState<string | null>(null);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  // null follows the default reminder setting, [] turns reminders off for this event
+  const [reminderOffsets, setReminderOffsets] = useState<number[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Changes to a recurring event, waiting on which of its events they apply to
+  const [scopedUpdates, setScopedUpdates] = useState<Partial<CalendarEvent> | null>(null);
+  const defaultDurationMinutes = usePreferencesStore((state) => state.defaultDurationMinutes);
+  // What the event looks like without a color of its own
+  const autoColor = useEventColor(event && { color: null, category_id: categoryId, calendar_id: event.calendar_id });
+
+  useEffect(() => {
+    if (!event) return;
+
+    setTitle(event.title);
+    setDescription(event.description ?? '');
+    setAllDay(event.all_day);
+    setColor(event.color);
+    setCategoryId(event.category_id);
+    setReminderOffsets(event.reminder_offsets);
+
+    if (event.all_day) {
+      // Shown as an inclusive range of local dates
+      const { startDate, endDate } = getAllDayDates(event);
+      setStart(parseDateKey(startDate));
+      setEnd(addDays(parseDateKey(endDate), -1));
+    } else {
+      setStart(new Date(event.start_time));
+      setEnd(new Date(event.end_time));
+    }
+  }, [event]);
+
+  if (!event) return null;
+
+  // Moving the start keeps the duration, like most calendar apps
+  const moveStart = (newStart: Date) => {
+    setEnd(new Date(newStart.getTime() + (end.getTime() - start.getTime())));
+    setStart(newStart);
+  };
+
+  const toggleAllDay = (value: boolean) => {
+    setAllDay(value);
+    if (!value) {
+      const newStart = startOfLocalDay(start);
+      newStart.setHours(9);
+      setStart(newStart);
+      setEnd(new Date(newStart.getTime() + defaultDurationMinutes * 60 * 1000));
+    }
+  };
+
+  const toggleReminder = (minutes: number) => {
+    const current = reminderOffsets ?? [];
+    const next = current.includes(minutes)
+      ? current.filter((offset) => offset !== minutes)
+      : [...current, minutes].sort((a, b) => a - b);
+    setReminderOffsets(next);
+  };
+
+  const buildUpdates = (): Partial<CalendarEvent> | null => {
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter an event title');
+      return null;
+    }
+
+    const fields = {
+      title: title.trim(),
+      description: description.trim() || null,
+      color,
+      category_id: categoryId,
+      reminder_offsets: reminderOffsets,
+    };
+
+    if (allDay) {
+      const days = Math.round((startOfLocalDay(end).getTime() - startOfLocalDay(start).getTime()) / DAY) + 1;
+      if (days < 1) {
+        Alert.alert('Error', 'The event must end on or after the day it starts');
+        return null;
+      }
+      return { ...fields, ...allDayTimes(toDateKey(start), days), all_day: true };
+    }
+
+    if (end.getTime() <= start.getTime()) {
+      Alert.alert('Error', 'The event must end after it starts');
+      return null;
+    }
+    return { ...fields, start_time: start.toISOString(), end_time: end.toISOString(), all_day: false };
+  };
+
+  const save = async (updates: Partial<CalendarEvent>, scope: RecurrenceScope) => {
+    setSaving(true);
+    try {
+      await onSave(updates, scope);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const updates = buildUpdates();
+    if (!updates) return;
+
+    if (isRecurring(event)) {
+      // Saved once the user picks which events it applies to
+      setScopedUpdates(updates);
+      return;
+    }
+
+    save(updates, 'all');
+  };
+
+  return (
+    <Modal visible animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.sheetTitle}>Edit Event</Text>
+
+            <TextInput
+              style={styles.input}
+              placeholder="Event title"
+              placeholderTextColor="#8B8B8B"
+              value={title}
+              onChangeText={setTitle}
+            />
+
+            <TextInput
+              style={[styles.input, styles.inputMultiline]}
+              placeholder="Description"
+              placeholderTextColor="#8B8B8B"
+              value={description}
+              onChangeText={setDescription}
+              multiline
+            />
+
+            <View style={styles.row}>
+              <Text style={styles.label}>All day</Text>
+              <Switch
+                value={allDay}
+                onValueChange={toggleAllDay}
+                trackColor={{ false: '#2A2A2A', true: '#F97316' }}
+              />
+            </View>
+
+            <View style={styles.row}>
+              <Text style={styles.label}>Starts</Text>
+              <View style={styles.fields}>
+                <DateTimeField value={start} mode="date" onChange={(date) => moveStart(combine(date, start))} />
+                {!allDay && <DateTimeField value={start} mode="time" onChange={moveStart} />}
+              </View>
+            </View>
+
+            <View style={styles.row}>
+              <Text style={styles.label}>Ends</Text>
+              <View style={styles.fields}>
+                <DateTimeField value={end} mode="date" onChange={(date) => setEnd(combine(date, end))} />
+                {!allDay && <DateTimeField value={end} mode="time" onChange={setEnd} />}
+              </View>
+            </View>
+
+            {!allDay && event.time_zone && event.time_zone !== getDeviceTimeZone() && (
+              <Text style={styles.zoneNote}>
+                Times are shown in your timezone. This event repeats and syncs in {event.time_zone.replace(/_/g, ' ')}.
+              </Text>
+            )}
+
+            <CategoryColorPicker
+              categoryId={categoryId}
+              color={color}
+              autoColor={autoColor!}
+              onChangeCategory={setCategoryId}
+              onChangeColor={setColor}
+            />
+
+            {!allDay && (
+              <View style={styles.reminderSection}>
+                <Text style={styles.label}>Reminders</Text>
+                <View style={styles.chips}>
+                  <TouchableOpacity
+                    style={[styles.chip, reminderOffsets === null && styles.chipSelected]}
+                    onPress={() => setReminderOffsets(null)}
+                  >
+                    <Text style={[styles.chipText, reminderOffsets === null && styles.chipTextSelected]}>
+                      Default
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.chip, reminderOffsets?.length === 0 && styles.chipSelected]}
+                    onPress={() => setReminderOffsets([])}
+                  >
+                    <Text style={[styles.chipText, reminderOffsets?.length === 0 && styles.chipTextSelected]}>
+                      None
+                    </Text>
+                  </TouchableOpacity>
+                  {REMINDER_OPTIONS.map((minutes) => {
+                    const selected = reminderOffsets?.includes(minutes) ?? false;
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() => toggleReminder(minutes)}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.buttonCancel} onPress={onClose}>
+                <Text style={styles.buttonCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.buttonSave, saving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                <Text style={styles.buttonSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity style={styles.deleteButton} onPress={() => onDelete(event)}>
+              <Text style={styles.deleteButtonText}>Delete Event</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+
+      <RecurrenceScopeSheet
+        prompt={scopedUpdates && { title: 'Save Recurring Event', message: 'Which events do you want to change?' }}
+        onSelect={(scope) => {
+          setScopedUpdates(null);
+          save(scopedUpdates!, scope);
+        }}
+        onCancel={() => setScopedUpdates(null)}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: '#0D0D0D',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+    marginBottom: 16,
+  },
+  inputMultiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8B8B8B',
+  },
+  fields: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  zoneNote: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  reminderSection: {
+    marginBottom: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#0D0D0D',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  chipSelected: {
+    backgroundColor: '#F97316',
+    borderColor: '#F97316',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  buttonCancel: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  buttonCancelText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  buttonSave: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#F97316',
+    alignItems: 'center',
+  },
+  buttonSaveText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    marginTop: 16,
+    padding: 12,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 15,
+    color: '#EF4444',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { useEventDensity } from '../hooks/useEventDensity';
+import { addDays, startOfWeek, toDateKey } from '../lib/dates';
+
+const WEEKS_SHOWN = 6;
+const MAX_DOTS = 3;
+
+interface MonthPickerProps {
+  visible: boolean;
+  selectedDate: Date;
+  onSelect: (date: Date) => void;
+  onClose: () => void;
+  // 0 = Sunday
+  weekStartsOn?: number;
+}
+
+/** Month grid for jumping to any date, with a dot per event (up to three) on each day. */
+export function MonthPicker({ visible, selectedDate, onSelect, onClose, weekStartsOn = 0 }: MonthPickerProps) {
+  const [month, setMonth] = useState(() => new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1));
+
+  useEffect(() => {
+    if (visible) {
+      setMonth(new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1));
+    }
+  }, [visible, selectedDate]);
+
+  const gridStart = useMemo(() => startOfWeek(month, weekStartsOn), [month, weekStartsOn]);
+  const days = useMemo(
+    () => Array.from({ length: WEEKS_SHOWN * 7 }, (_, i) => addDays(gridStart, i)),
+    [gridStart]
+  );
+  const counts = useEventDensity(gridStart, days.length, visible);
+
+  const todayKey = toDateKey(new Date());
+  const selectedKey = toDateKey(selectedDate);
+
+  const select = (date: Date) => {
+    onSelect(date);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.card} activeOpacity={1}>
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.navButton}
+              onPress={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+            >
+              <Text style={styles.navText}>‹</Text>
+            </TouchableOpacity>
+            <Text style={styles.monthTitle}>
+              {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </Text>
+            <TouchableOpacity
+              style={styles.navButton}
+              onPress={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+            >
+              <Text style={styles.navText}>›</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.weekRow}>
+            {days.slice(0, 7).map((day) => (
+              <Text key={day.getDay()} style={styles.weekdayLabel}>
+                {day.toLocaleDateString('en-US', { weekday: 'narrow' })}
+              </Text>
+            ))}
+          </View>
+
+          <View style={styles.grid}>
+            {days.map((day) => {
+              const key = toDateKey(day);
+              const inMonth = day.getMonth() === month.getMonth();
+              const isSelected = key === selectedKey;
+              const isToday = key === todayKey;
+              const dots = Math.min(counts[key] ?? 0, MAX_DOTS);
+
+              return (
+                <TouchableOpacity key={key} style={styles.dayCell} onPress={() => select(day)}>
+                  <View style={[styles.dayCircle, isSelected && styles.dayCircleSelected]}>
+                    <Text
+                      style={[
+                        styles.dayText,
+                        !inMonth && styles.dayTextOutside,
+                        isToday && styles.dayTextToday,
+                        isSelected && styles.dayTextSelected,
+                      ]}
+                    >
+                      {day.getDate()}
+                    </Text>
+                  </View>
+                  <View style={styles.dots}>
+                    {Array.from({ length: dots }, (_, i) => (
+                      <View key={i} style={[styles.dot, !inMonth && styles.dotOutside]} />
+                    ))}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={styles.todayButton} onPress={() => select(new Date())}>
+            <Text style={styles.todayButtonText}>Today</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 24,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  navButton: {
+    padding: 8,
+  },
+  navText: {
+    fontSize: 24,
+    color: '#F97316',
+  },
+  monthTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#6B6B6B',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  dayCircle: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayCircleSelected: {
+    backgroundColor: '#F97316',
+  },
+  dayText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  dayTextOutside: {
+    color: '#4A4A4A',
+  },
+  dayTextToday: {
+    color: '#F97316',
+    fontWeight: '700',
+  },
+  dayTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 2,
+    height: 4,
+    marginTop: 2,
+  },
+  dot: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#F97316',
+  },
+  dotOutside: {
+    opacity: 0.4,
+  },
+  todayButton: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  todayButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,285 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { GridDensity, TimeFormat, formatHour } from '../lib/preferences';
+import { REMINDER_OPTIONS } from '../lib/reminders';
+import { CONFLICT_POLICY_OPTIONS } from '../lib/conflicts';
+import { isGoogleSyncEnabled } from '../lib/googleSync';
+import { formatDuration } from '../lib/dates';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { useSyncSettingsStore } from '../stores/syncSettingsStore';
+
+const TIME_FORMAT_OPTIONS: { value: TimeFormat; label: string }[] = [
+  { value: '12h', label: '3:30 PM' },
+  { value: '24h', label: '15:30' },
+];
+
+const WEEK_START_OPTIONS = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 6, label: 'Saturday' },
+];
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+const DENSITY_OPTIONS: { value: GridDensity; label: string }[] = [
+  { value: 'compact', label: 'Compact' },
+  { value: 'comfortable', label: 'Comfortable' },
+  { value: 'spacious', label: 'Spacious' },
+];
+
+// Minutes before the next event to nudge the user to wrap up; null turns it off
+const TRANSITION_OPTIONS = [null, 2, 5, 10];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface StepperProps {
+  value: string;
+  onDecrease: (() => void) | null;
+  onIncrease: (() => void) | null;
+}
+
+function Stepper({ value, onDecrease, onIncrease }: StepperProps) {
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity style={styles.chip} onPress={onDecrease ?? undefined} disabled={!onDecrease}>
+        <Text style={[styles.chipText, !onDecrease && styles.disabled]}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity style={styles.chip} onPress={onIncrease ?? undefined} disabled={!onIncrease}>
+        <Text style={[styles.chipText, !onIncrease && styles.disabled]}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/** The calendar preferences on the profile screen. Changes save as they are made. */
+export function PreferencesSection() {
+  const preferences = usePreferencesStore();
+  const { setPreferences, reminders } = preferences;
+  const conflictPolicy = useSyncSettingsStore((state) => state.conflictPolicy);
+  const setConflictPolicy = useSyncSettingsStore((state) => state.setConflictPolicy);
+
+  const toggleReminderOffset = (minutes: number) => {
+    const defaultOffsets = reminders.defaultOffsets.includes(minutes)
+      ? reminders.defaultOffsets.filter((offset) => offset !== minutes)
+      : [...reminders.defaultOffsets, minutes].sort((a, b) => a - b);
+    setPreferences({ reminders: { ...reminders, defaultOffsets } });
+  };
+
+  return (
+    <>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Calendar</Text>
+
+        <Text style={styles.label}>Time format</Text>
+        <View style={styles.chips}>
+          {TIME_FORMAT_OPTIONS.map((option) => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              selected={preferences.timeFormat === option.value}
+              onPress={() => setPreferences({ timeFormat: option.value })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Week starts on</Text>
+        <View style={styles.chips}>
+          {WEEK_START_OPTIONS.map((option) => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              selected={preferences.weekStartsOn === option.value}
+              onPress={() => setPreferences({ weekStartsOn: option.value })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>New events last</Text>
+        <View style={styles.chips}>
+          {DURATION_OPTIONS.map((minutes) => (
+            <Chip
+              key={minutes}
+              label={formatDuration(minutes)}
+              selected={preferences.defaultDurationMinutes === minutes}
+              onPress={() => setPreferences({ defaultDurationMinutes: minutes })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Day starts</Text>
+        <Stepper
+          value={formatHour(preferences.dayStartHour, preferences.timeFormat)}
+          onDecrease={
+            preferences.dayStartHour > 0 ? () => setPreferences({ dayStartHour: preferences.dayStartHour - 1 }) : null
+          }
+          onIncrease={
+            preferences.dayStartHour + 1 < preferences.dayEndHour
+              ? () => setPreferences({ dayStartHour: preferences.dayStartHour + 1 })
+              : null
+          }
+        />
+
+        <Text style={styles.label}>Day ends</Text>
+        <Stepper
+          value={formatHour(preferences.dayEndHour, preferences.timeFormat)}
+          onDecrease={
+            preferences.dayEndHour - 1 > preferences.dayStartHour
+              ? () => setPreferences({ dayEndHour: preferences.dayEndHour - 1 })
+              : null
+          }
+          onIncrease={
+            preferences.dayEndHour < 23 ? () => setPreferences({ dayEndHour: preferences.dayEndHour + 1 }) : null
+          }
+        />
+
+        <Text style={styles.label}>Hour height</Text>
+        <View style={styles.chips}>
+          {DENSITY_OPTIONS.map((option) => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              selected={preferences.gridDensity === option.value}
+              onPress={() => setPreferences({ gridDensity: option.value })}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.titleRow}>
+          <Text style={styles.sectionTitle}>Reminders</Text>
+          <Switch
+            value={reminders.enabled}
+            onValueChange={(enabled) => setPreferences({ reminders: { ...reminders, enabled } })}
+            trackColor={{ false: '#2A2A2A', true: '#F97316' }}
+          />
+        </View>
+
+        {reminders.enabled && (
+          <>
+            <Text style={styles.label}>Remind me before events</Text>
+            <View style={styles.chips}>
+              {REMINDER_OPTIONS.map((minutes) => (
+                <Chip
+                  key={minutes}
+                  label={formatDuration(minutes)}
+                  selected={reminders.defaultOffsets.includes(minutes)}
+                  onPress={() => toggleReminderOffset(minutes)}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>Wrap up before back-to-back events</Text>
+            <View style={styles.chips}>
+              {TRANSITION_OPTIONS.map((minutes) => (
+                <Chip
+                  key={minutes ?? 'off'}
+                  label={minutes === null ? 'Off' : formatDuration(minutes)}
+                  selected={reminders.transitionMinutes === minutes}
+                  onPress={() => setPreferences({ reminders: { ...reminders, transitionMinutes: minutes } })}
+                />
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+
+      {isGoogleSyncEnabled && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Google Calendar</Text>
+
+          <Text style={styles.label}>When an event changes here and in Google</Text>
+          <View style={styles.chips}>
+            {CONFLICT_POLICY_OPTIONS.map((option) => (
+              <Chip
+                key={option.policy}
+                label={option.label}
+                selected={conflictPolicy === option.policy}
+                onPress={() => setConflictPolicy(option.policy)}
+              />
+            ))}
+          </View>
+        </View>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#0D0D0D',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  chipSelected: {
+    backgroundColor: '#F97316',
+    borderColor: '#F97316',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.3,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+});
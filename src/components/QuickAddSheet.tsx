@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput, Alert } from 'react-native';
+import { CalendarEvent } from '../lib/supabase';
+import { parseQuickAdd } from '../lib/quickAdd';
+import { describeRecurrence } from '../lib/recurrence';
+import { formatEventWhen } from '../lib/dates';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+interface QuickAddSheetProps {
+  visible: boolean;
+  // Day the event goes on when the text doesn't name one
+  defaultDate: Date;
+  onClose: () => void;
+  onCreate: (event: Partial<CalendarEvent>) => Promise<unknown>;
+  // Switch to the full form, keeping what was typed as the title
+  onMoreOptions: (title: string) => void;
+}
+
+/**
+ * One-line event entry: type "dentist tomorrow 3:30pm for 45 min" and check the
+ * preview before adding it.
+ */
+export function QuickAddSheet({ visible, defaultDate, onClose, onCreate, onMoreOptions }: QuickAddSheetProps) {
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const defaultDurationMinutes = usePreferencesStore((state) => state.defaultDurationMinutes);
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+
+  useEffect(() => {
+    if (visible) setText('');
+  }, [visible]);
+
+  const parsed = useMemo(
+    () => (text.trim() ? parseQuickAdd(text, { defaultDate, defaultDurationMinutes }) : null),
+    [text, defaultDate, defaultDurationMinutes]
+  );
+
+  const handleAdd = async () => {
+    if (!parsed?.title) {
+      Alert.alert('Error', 'Please enter an event title');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onCreate(parsed);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.sheetTitle}>Quick Add</Text>
+
+          <TextInput
+            style={styles.input}
+            placeholder='e.g. "dentist tomorrow 3:30pm for 45 min"'
+            placeholderTextColor="#8B8B8B"
+            value={text}
+            onChangeText={setText}
+            onSubmitEditing={handleAdd}
+            returnKeyType="done"
+            autoFocus
+          />
+
+          {/* Preview */}
+          {parsed && (
+            <View style={styles.preview}>
+              <Text style={[styles.previewTitle, !parsed.title && styles.previewTitleMissing]} numberOfLines={2}>
+                {parsed.title || 'Add a title'}
+              </Text>
+              <Text style={styles.previewLine}>{formatEventWhen(parsed as CalendarEvent, timeFormat)}</Text>
+              {parsed.recurrence_rule && (
+                <Text style={styles.previewLine}>{describeRecurrence(parsed.recurrence_rule)}</Text>
+              )}
+            </View>
+          )}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.buttonSecondary} onPress={() => onMoreOptions(parsed?.title ?? '')}>
+              <Text style={styles.buttonSecondaryText}>More options</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.buttonAdd, (saving || !parsed?.title) && styles.buttonDisabled]}
+              onPress={handleAdd}
+              disabled={saving || !parsed?.title}
+            >
+              <Text style={styles.buttonAddText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: '#0D0D0D',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+    marginBottom: 16,
+  },
+  preview: {
+    borderRadius: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#F97316',
+    backgroundColor: '#F9731620',
+    padding: 12,
+    marginBottom: 16,
+  },
+  previewTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  previewTitleMissing: {
+    color: '#8B8B8B',
+    fontStyle: 'italic',
+  },
+  previewLine: {
+    fontSize: 13,
+    color: '#8B8B8B',
+    marginTop: 4,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  buttonSecondary: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  buttonSecondaryText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  buttonAdd: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#F97316',
+    alignItems: 'center',
+  },
+  buttonAddText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    marginTop: 12,
+    padding: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: '#8B8B8B',
+  },
+});
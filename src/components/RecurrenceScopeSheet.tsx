@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { RecurrenceScope } from '../lib/recurrence';
+
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: 'this', label: 'This event' },
+  { scope: 'following', label: 'This and following' },
+  { scope: 'all', label: 'All events' },
+];
+
+export interface ScopePrompt {
+  title: string;
+  message: string;
+  // Shows the options in red, e.g. when deleting
+  destructive?: boolean;
+}
+
+interface RecurrenceScopeSheetProps {
+  // The sheet is open while a prompt is set
+  prompt: ScopePrompt | null;
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks which occurrences of a recurring event a change applies to. A sheet rather than
+ * an alert, since Android alerts only show three buttons.
+ */
+export function RecurrenceScopeSheet({ prompt, onSelect, onCancel }: RecurrenceScopeSheetProps) {
+  if (!prompt) return null;
+
+  return (
+    <Modal visible animationType="slide" transparent onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onCancel} />
+        <View style={styles.sheet}>
+          <Text style={styles.sheetTitle}>{prompt.title}</Text>
+          <Text style={styles.subtitle}>{prompt.message}</Text>
+
+          {SCOPE_OPTIONS.map((option) => (
+            <TouchableOpacity key={option.scope} style={styles.option} onPress={() => onSelect(option.scope)}>
+              <Text style={[styles.optionText, prompt.destructive && styles.optionTextDestructive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: '#1A1A1A',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 6,
+    marginBottom: 16,
+  },
+  option: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  optionTextDestructive: {
+    color: '#EF4444',
+  },
+  cancelButton: {
+    marginTop: 4,
+    padding: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: '#8B8B8B',
+  },
+});
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { SyncStatus } from '../lib/supabase';
+import { isGoogleSyncEnabled } from '../lib/googleSync';
+import { useAuthStore } from '../stores/authStore';
+
+// A SyncStatus, or `rejected` for a local change the server refused to save
+export type EventSyncState = SyncStatus | 'rejected';
+
+const BADGES: Record<Exclude<EventSyncState, 'synced'>, { symbol: string; color: string; label: string }> = {
+  pending: { symbol: '↻', color: '#8B8B8B', label: 'Waiting to sync with Google Calendar' },
+  failed: { symbol: '!', color: '#EF4444', label: 'Google Calendar sync failed' },
+  conflict: { symbol: '⚠', color: '#F59E0B', label: 'Changed in Google Calendar too' },
+  rejected: { symbol: '!', color: '#EF4444', label: "Changes couldn't be saved" },
+};
+
+interface SyncBadgeProps {
+  status: EventSyncState;
+  compact?: boolean;
+}
+
+/**
+ * Corner marker for an event that isn't in step with Google Calendar. Nothing once
+ * synced, or while no Google Calendar is connected to sync with. Refused changes are
+ * marked either way; they haven't been saved anywhere.
+ */
+export function SyncBadge({ status, compact = false }: SyncBadgeProps) {
+  const notConnected = useAuthStore((state) => state.googleAccess === 'not_connected');
+  if (status === 'synced') return null;
+  if (status !== 'rejected' && (!isGoogleSyncEnabled || notConnected)) return null;
+
+  const badge = BADGES[status];
+  return (
+    <Text
+      style={[styles.badge, compact && styles.badgeCompact, { color: badge.color }]}
+      accessibilityLabel={badge.label}
+    >
+      {badge.symbol}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    position: 'absolute',
+    top: 4,
+    right: 6,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  badgeCompact: {
+    top: 1,
+    right: 2,
+    fontSize: 9,
+  },
+});
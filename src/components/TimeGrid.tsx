@@ -0,0 +1,468 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
+import { CalendarEvent } from '../lib/supabase';
+import { layoutDayEvents } from '../lib/eventLayout';
+import { addDays, getEventDayIndex, isAllDayLaneEvent, toDateKey } from '../lib/dates';
+import { getDeviceTimeZone, getZonedParts, minutesIntoDay, startOfDayInZone } from '../lib/timezone';
+import { DEFAULT_PREFERENCES, HOUR_HEIGHTS, TimeFormat, formatHour } from '../lib/preferences';
+import { useNow } from '../hooks/useNow';
+import { useEventColor } from '../hooks/useEventColor';
+import { EventBlock } from './EventBlock';
+import { EventSyncState, SyncBadge } from './SyncBadge';
+
+const MINUTE = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const MAX_VISIBLE_ALL_DAY = 3;
+// Leave an hour of context above the time we scroll to
+const SCROLL_LEAD_MINUTES = 60;
+
+interface AllDayBannerProps {
+  event: CalendarEvent;
+  date: Date;
+  pending: boolean;
+  syncStatus: EventSyncState;
+  past: boolean;
+  compact: boolean;
+  onPress: () => void;
+}
+
+function AllDayBanner({ event, date, pending, syncStatus, past, compact, onPress }: AllDayBannerProps) {
+  const color = useEventColor(event)!;
+  const dayIndex = getEventDayIndex(event, date);
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.allDayBanner,
+        compact && styles.allDayBannerCompact,
+        { backgroundColor: color + '20', borderLeftColor: color },
+        pending && styles.allDayBannerPending,
+        past && styles.allDayBannerPast,
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[styles.allDayBannerTitle, compact && styles.compactText, { color }]}
+        numberOfLines={1}
+      >
+        {event.title}
+      </Text>
+      {!compact && dayIndex && dayIndex.of > 1 && (
+        <Text style={styles.allDayBannerDays}>
+          Day {dayIndex.day} of {dayIndex.of}
+        </Text>
+      )}
+      <SyncBadge status={syncStatus} compact={compact} />
+    </TouchableOpacity>
+  );
+}
+
+interface TimeGridProps {
+  // Local midnights of the days to show, one column each
+  days: Date[];
+  events: CalendarEvent[];
+  loading: boolean;
+  onRefresh: () => void;
+  isPending: (event: CalendarEvent) => boolean;
+  // Whether the event has local changes the server refused
+  isRejected?: (event: CalendarEvent) => boolean;
+  onEventPress: (event: CalendarEvent) => void;
+  onReschedule: (event: CalendarEvent, start: Date, end: Date) => Promise<boolean>;
+  // Zone the hours are shown in; defaults to the device's
+  timeZone?: string;
+  timeFormat?: TimeFormat;
+  // Height of one hour, in points
+  hourHeight?: number;
+  // The hours shown, [start, end); widened to fit events outside them
+  dayStartHour?: number;
+  dayEndHour?: number;
+}
+
+/** `YYYY-MM-DD` of an instant's calendar date in `timeZone`. */
+function dateKeyInZone(date: Date, timeZone: string) {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return toDateKey(new Date(year, month, day));
+}
+
+/**
+ * The hour grid shared by the day, 3-day and week views: an all-day lane on top and
+ * one scrolling column per day below, with events laid out per day.
+ */
+export function TimeGrid({
+  days,
+  events,
+  loading,
+  onRefresh,
+  isPending,
+  isRejected = () => false,
+  onEventPress,
+  onReschedule,
+  timeZone = getDeviceTimeZone(),
+  timeFormat = DEFAULT_PREFERENCES.timeFormat,
+  hourHeight = HOUR_HEIGHTS.comfortable,
+  dayStartHour = DEFAULT_PREFERENCES.dayStartHour,
+  dayEndHour = DEFAULT_PREFERENCES.dayEndHour,
+}: TimeGridProps) {
+  const [dragging, setDragging] = useState(false);
+  const [allDayExpanded, setAllDayExpanded] = useState(false);
+  const [showAllHours, setShowAllHours] = useState(false);
+  const scrollRef = useRef<ScrollView>(null);
+  // The range we last auto-scrolled for, so we don't fight the user's own scrolling
+  const scrolledFor = useRef<string | null>(null);
+  const now = useNow(MINUTE);
+  const compact = days.length > 1;
+  const minuteHeight = hourHeight / 60;
+  const todayKey = dateKeyInZone(now, timeZone);
+  const todayStart = startOfDayInZone(todayKey, timeZone);
+  const nowMinute = minutesIntoDay(now, todayStart, timeZone);
+  // Local edits not yet in Supabase haven't started on their way to Google either
+  const syncStatusOf = (event: CalendarEvent): EventSyncState =>
+    isRejected(event) ? 'rejected' : isPending(event) ? 'pending' : event.sync_status;
+
+  const columns = useMemo(() => {
+    // All-day and 24h+ events go in the strip above the grid instead of filling it
+    const laneEvents = events.filter(isAllDayLaneEvent);
+    const timedEvents = events.filter((event) => !isAllDayLaneEvent(event));
+
+    return days.map((day) => {
+      // `days` are calendar dates; their midnights depend on the zone shown
+      const dayStart = startOfDayInZone(toDateKey(day), timeZone);
+      const dayEnd = startOfDayInZone(toDateKey(addDays(day, 1)), timeZone);
+      return {
+        date: day,
+        dateKey: toDateKey(day),
+        dayStart,
+        dayEnd,
+        allDayEvents: laneEvents.filter((event) => getEventDayIndex(event, day)),
+        layouts: layoutDayEvents(timedEvents, dayStart, dayEnd, { timeZone }),
+      };
+    });
+  }, [days, events, timeZone]);
+
+  // Hours outside the user's day stay hidden unless an event falls in them
+  const { firstHour, lastHour } = useMemo(() => {
+    if (showAllHours) return { firstHour: 0, lastHour: 24 };
+
+    const layouts = columns.flatMap((column) => column.layouts);
+    return {
+      firstHour: Math.min(dayStartHour, ...layouts.map((layout) => Math.floor(layout.startMinute / 60))),
+      lastHour: Math.min(24, Math.max(dayEndHour, ...layouts.map((layout) => Math.ceil(layout.endMinute / 60)))),
+    };
+  }, [columns, showAllHours, dayStartHour, dayEndHour]);
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+  const gridTopMinute = firstHour * 60;
+
+  const maxAllDay = Math.max(0, ...columns.map((column) => column.allDayEvents.length));
+  const rangeKey = `${toDateKey(days[0])}:${days.length}`;
+
+  // Open at the current time when today is visible, otherwise at the first event.
+  // Other days wait for their events to load so we know where that is.
+  useEffect(() => {
+    if (scrolledFor.current === rangeKey) return;
+
+    const showsToday = days.some((day) => toDateKey(day) === todayKey);
+    const firstEventMinute = Math.min(
+      ...columns.flatMap((column) => column.layouts.map((layout) => layout.startMinute))
+    );
+    if (!showsToday && loading && !Number.isFinite(firstEventMinute)) return;
+
+    let target = gridTopMinute;
+    if (showsToday) {
+      target = nowMinute - SCROLL_LEAD_MINUTES;
+    } else if (Number.isFinite(firstEventMinute)) {
+      target = firstEventMinute - SCROLL_LEAD_MINUTES;
+    }
+
+    scrolledFor.current = rangeKey;
+    scrollRef.current?.scrollTo({ y: Math.max(target - gridTopMinute, 0) * minuteHeight, animated: false });
+  }, [rangeKey, columns, loading]);
+
+  return (
+    <>
+      {/* Day Headers */}
+      {compact && (
+        <View style={styles.dayHeaders}>
+          <View style={styles.timeColumn} />
+          {days.map((day) => {
+            const isToday = toDateKey(day) === todayKey;
+            return (
+              <View key={day.toISOString()} style={styles.dayHeader}>
+                <Text style={[styles.dayHeaderWeekday, isToday && styles.dayHeaderToday]}>
+                  {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                </Text>
+                <Text style={[styles.dayHeaderDate, isToday && styles.dayHeaderToday]}>
+                  {day.getDate()}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {/* All-day Lane */}
+      {maxAllDay > 0 && (
+        <View style={styles.allDayLane}>
+          <Text style={styles.allDayLabel}>all-day</Text>
+          {columns.map((column) => (
+            <View key={column.dateKey} style={styles.allDayEvents}>
+              {(allDayExpanded ? column.allDayEvents : column.allDayEvents.slice(0, MAX_VISIBLE_ALL_DAY)).map((event) => (
+                <AllDayBanner
+                  key={event.id}
+                  event={event}
+                  date={column.date}
+                  pending={isPending(event)}
+                  syncStatus={syncStatusOf(event)}
+                  past={column.dayEnd.getTime() <= todayStart.getTime()}
+                  compact={compact}
+                  onPress={() => onEventPress(event)}
+                />
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+      {maxAllDay > MAX_VISIBLE_ALL_DAY && (
+        <TouchableOpacity style={styles.allDayMoreButton} onPress={() => setAllDayExpanded(!allDayExpanded)}>
+          <Text style={styles.allDayMore}>
+            {allDayExpanded ? 'Show less' : `+${maxAllDay - MAX_VISIBLE_ALL_DAY} more`}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Calendar Grid */}
+      <ScrollView
+        ref={scrollRef}
+        style={styles.calendarContainer}
+        contentContainerStyle={styles.calendarContent}
+        scrollEnabled={!dragging}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={onRefresh} tintColor="#F97316" />
+        }
+      >
+        {firstHour > 0 && (
+          <TouchableOpacity style={styles.moreHoursButton} onPress={() => setShowAllHours(true)}>
+            <Text style={styles.moreHoursText}>Show earlier hours</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.calendar}>
+          {/* Time column */}
+          <View style={styles.timeColumn}>
+            {hours.map((hour) => (
+              <View key={hour} style={[styles.timeSlot, { height: hourHeight }]}>
+                <Text style={styles.timeText}>{formatHour(hour, timeFormat)}</Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Events columns */}
+          {columns.map((column) => (
+            <View key={column.dateKey} style={styles.eventsColumn}>
+              {hours.map((hour) => (
+                <View key={hour} style={[styles.hourLine, { height: hourHeight }]} />
+              ))}
+              {/* Laid out from midnight, shifted up past the hidden hours */}
+              <View
+                style={[
+                  styles.eventsLayer,
+                  compact && styles.eventsLayerCompact,
+                  { top: -gridTopMinute * minuteHeight, height: DAY_MINUTES * minuteHeight },
+                ]}
+                pointerEvents="box-none"
+              >
+                {column.layouts.map((layout) => (
+                  <EventBlock
+                    key={layout.event.id}
+                    layout={layout}
+                    dayStart={column.dayStart}
+                    dayEnd={column.dayEnd}
+                    timeZone={timeZone}
+                    timeFormat={timeFormat}
+                    minuteHeight={minuteHeight}
+                    compact={compact}
+                    pending={isPending(layout.event)}
+                    syncStatus={syncStatusOf(layout.event)}
+                    past={Date.parse(layout.event.end_time) <= now.getTime()}
+                    onPress={() => onEventPress(layout.event)}
+                    onDragActiveChange={setDragging}
+                    onReschedule={onReschedule}
+                  />
+                ))}
+              </View>
+              {column.dateKey === todayKey && nowMinute >= gridTopMinute && nowMinute <= lastHour * 60 && (
+                <View style={[styles.nowLine, { top: (nowMinute - gridTopMinute) * minuteHeight }]} pointerEvents="none">
+                  <View style={styles.nowDot} />
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+
+        {lastHour < 24 && (
+          <TouchableOpacity style={styles.moreHoursButton} onPress={() => setShowAllHours(true)}>
+            <Text style={styles.moreHoursText}>Show later hours</Text>
+          </TouchableOpacity>
+        )}
+        {showAllHours && (dayStartHour > 0 || dayEndHour < 24) && (
+          <TouchableOpacity style={styles.moreHoursButton} onPress={() => setShowAllHours(false)}>
+            <Text style={styles.moreHoursText}>Show only your day</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  dayHeaders: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayHeaderWeekday: {
+    fontSize: 11,
+    color: '#8B8B8B',
+  },
+  dayHeaderDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  dayHeaderToday: {
+    color: '#F97316',
+  },
+  allDayLane: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A1A',
+  },
+  allDayLabel: {
+    width: 56,
+    fontSize: 11,
+    color: '#6B6B6B',
+    textAlign: 'right',
+    paddingRight: 8,
+    paddingTop: 6,
+  },
+  allDayEvents: {
+    flex: 1,
+    gap: 4,
+    paddingHorizontal: 1,
+  },
+  allDayBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderRadius: 6,
+    borderLeftWidth: 3,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  allDayBannerCompact: {
+    paddingHorizontal: 4,
+    borderLeftWidth: 2,
+  },
+  allDayBannerPending: {
+    opacity: 0.6,
+    borderStyle: 'dashed',
+  },
+  allDayBannerPast: {
+    opacity: 0.4,
+  },
+  allDayBannerTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  compactText: {
+    fontSize: 10,
+  },
+  allDayBannerDays: {
+    fontSize: 11,
+    color: '#8B8B8B',
+    marginLeft: 8,
+  },
+  allDayMoreButton: {
+    paddingLeft: 72,
+    paddingBottom: 4,
+  },
+  allDayMore: {
+    fontSize: 12,
+    color: '#F97316',
+    paddingVertical: 2,
+  },
+  calendarContainer: {
+    flex: 1,
+  },
+  calendarContent: {
+    paddingBottom: 100,
+  },
+  calendar: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+  },
+  timeColumn: {
+    width: 56,
+  },
+  timeSlot: {
+    justifyContent: 'flex-start',
+    paddingTop: 0,
+  },
+  timeText: {
+    fontSize: 11,
+    color: '#6B6B6B',
+    textAlign: 'right',
+    paddingRight: 8,
+  },
+  eventsColumn: {
+    flex: 1,
+    position: 'relative',
+    borderLeftWidth: 1,
+    borderLeftColor: '#2A2A2A',
+  },
+  hourLine: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A1A',
+  },
+  eventsLayer: {
+    position: 'absolute',
+    left: 4,
+    right: 4,
+  },
+  eventsLayerCompact: {
+    left: 1,
+    right: 1,
+  },
+  moreHoursButton: {
+    paddingLeft: 72,
+    paddingVertical: 8,
+  },
+  moreHoursText: {
+    fontSize: 12,
+    color: '#F97316',
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    marginTop: -1,
+    backgroundColor: '#EF4444',
+    zIndex: 20,
+  },
+  nowDot: {
+    position: 'absolute',
+    left: -5,
+    top: -4,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#EF4444',
+  },
+});
@@ -0,0 +1,295 @@
+import { CalendarEvent, RecurrenceRule } from '../../lib/supabase';
+import { expandEvents, getOccurrenceId } from '../../lib/recurrence';
+import { applyMutations, useEventStore } from '../../stores/eventStore';
+import { queueEventDelete, queueEventUpdate } from '../useEvents';
+
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+jest.mock('../../stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: null, googleAccess: 'not_connected' }), subscribe: jest.fn() },
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+let mockId = 0;
+jest.mock('expo-crypto', () => ({ randomUUID: () => `id-${++mockId}` }));
+
+const HOUR = 60 * 60 * 1000;
+
+function event(id: string, fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    user_id: 'user-1',
+    google_event_id: null,
+    calendar_id: null,
+    title: id,
+    description: null,
+    start_time: '2026-10-19T09:00:00.000Z',
+    end_time: '2026-10-19T09:15:00.000Z',
+    all_day: false,
+    time_zone: 'UTC',
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'synced',
+    sync_error: null,
+    google_version: null,
+    synced_at: null,
+    created_at: '2026-10-01T08:00:00.000Z',
+    updated_at: '2026-10-01T08:00:00.000Z',
+    ...fields,
+  };
+}
+
+function nineAm(date: string) {
+  return `${date}T09:00:00.000Z`;
+}
+
+// Mondays at 9:00 from 19 October; the 26th moved to 11:00 and 9 November skipped
+const RULE: RecurrenceRule = {
+  frequency: 'weekly',
+  interval: 1,
+  by_weekday: null,
+  until: null,
+  count: null,
+  exceptions: [nineAm('2026-11-09')],
+};
+const SERIES = event('standup', { title: 'Standup', recurrence_rule: RULE });
+const MOVED = event('standup-26', {
+  title: 'Standup (late)',
+  start_time: '2026-10-26T11:00:00.000Z',
+  end_time: '2026-10-26T11:15:00.000Z',
+  recurring_event_id: 'standup',
+  original_start_time: nineAm('2026-10-26'),
+});
+const DENTIST = event('dentist', { start_time: '2026-10-21T14:00:00.000Z', end_time: '2026-10-21T15:00:00.000Z' });
+
+function occurrence(date: string) {
+  return getOccurrenceId('standup', nineAm(date));
+}
+
+function shift(timestamp: string, ms: number) {
+  return new Date(Date.parse(timestamp) + ms).toISOString();
+}
+
+/** The calendar as the user sees it from 19 October to 23 November. */
+function visible() {
+  const { serverEvents, mutations } = useEventStore.getState();
+  return expandEvents(
+    applyMutations(serverEvents, mutations),
+    new Date('2026-10-19T00:00:00.000Z'),
+    new Date('2026-11-23T23:59:59.999Z')
+  )
+    .map((shown) => `${shown.start_time} ${shown.title}`)
+    .sort();
+}
+
+function queued() {
+  return useEventStore.getState().mutations.map((mutation) => ({
+    type: mutation.type,
+    eventId: mutation.eventId,
+    ...(mutation.type === 'update' && { updates: mutation.updates }),
+  }));
+}
+
+beforeEach(() => {
+  useEventStore.setState({
+    userId: 'user-1',
+    serverEvents: Object.fromEntries([SERIES, MOVED, DENTIST].map((stored) => [stored.id, stored])),
+    mutations: [],
+  });
+});
+
+it('shows the series with its moved and skipped occurrences', () => {
+  expect(visible()).toEqual([
+    '2026-10-19T09:00:00.000Z Standup',
+    '2026-10-21T14:00:00.000Z dentist',
+    '2026-10-26T11:00:00.000Z Standup (late)',
+    '2026-11-02T09:00:00.000Z Standup',
+    '2026-11-16T09:00:00.000Z Standup',
+    '2026-11-23T09:00:00.000Z Standup',
+  ]);
+});
+
+describe('queueEventUpdate', () => {
+  it('updates events outside a series directly', () => {
+    queueEventUpdate('user-1', 'dentist', { title: 'Dentist' });
+
+    expect(queued()).toEqual([{ type: 'update', eventId: 'dentist', updates: { title: 'Dentist' } }]);
+  });
+
+  describe('for this occurrence', () => {
+    it('stores the change as an override of the occurrence', () => {
+      queueEventUpdate('user-1', occurrence('2026-11-02'), { title: 'Demo day' }, 'this');
+
+      const [mutation] = useEventStore.getState().mutations;
+      expect(mutation.type).toBe('create');
+      expect(mutation.type === 'create' && mutation.event).toMatchObject({
+        title: 'Demo day',
+        start_time: '2026-11-02T09:00:00.000Z',
+        end_time: '2026-11-02T09:15:00.000Z',
+        time_zone: 'UTC',
+        recurring_event_id: 'standup',
+        original_start_time: '2026-11-02T09:00:00.000Z',
+        recurrence_rule: null,
+      });
+      expect(visible()).toContain('2026-11-02T09:00:00.000Z Demo day');
+      expect(visible()).not.toContain('2026-11-02T09:00:00.000Z Standup');
+    });
+
+    it('changes an existing override in place', () => {
+      queueEventUpdate('user-1', 'standup-26', { title: 'Standup (later)' }, 'this');
+
+      expect(queued()).toEqual([{ type: 'update', eventId: 'standup-26', updates: { title: 'Standup (later)' } }]);
+    });
+  });
+
+  describe('for this and following occurrences', () => {
+    it('ends the series before the occurrence and starts a new one from it', () => {
+      queueEventUpdate('user-1', occurrence('2026-11-02'), { title: 'Sync' }, 'following');
+
+      const mutations = useEventStore.getState().mutations;
+      expect(mutations[0]).toMatchObject({
+        type: 'update',
+        eventId: 'standup',
+        updates: { recurrence_rule: { ...RULE, until: '2026-11-02T08:59:59.999Z', exceptions: [] } },
+      });
+      expect(mutations[1]).toMatchObject({
+        type: 'create',
+        event: {
+          title: 'Sync',
+          start_time: '2026-11-02T09:00:00.000Z',
+          recurrence_rule: { ...RULE, exceptions: [nineAm('2026-11-09')] },
+        },
+      });
+      expect(visible()).toEqual([
+        '2026-10-19T09:00:00.000Z Standup',
+        '2026-10-21T14:00:00.000Z dentist',
+        '2026-10-26T11:00:00.000Z Standup (late)',
+        '2026-11-02T09:00:00.000Z Sync',
+        '2026-11-16T09:00:00.000Z Sync',
+        '2026-11-23T09:00:00.000Z Sync',
+      ]);
+    });
+
+    it('drops overrides of occurrences the old series no longer has', () => {
+      queueEventUpdate('user-1', occurrence('2026-10-26'), { title: 'Sync' }, 'following');
+
+      expect(queued()).toContainEqual({ type: 'delete', eventId: 'standup-26' });
+    });
+
+    it('changes the whole series from its first occurrence', () => {
+      queueEventUpdate('user-1', occurrence('2026-10-19'), { title: 'Sync' }, 'following');
+
+      expect(queued()).toEqual([{ type: 'update', eventId: 'standup', updates: { title: 'Sync' } }]);
+    });
+  });
+
+  describe('for every occurrence', () => {
+    it('changes the series', () => {
+      queueEventUpdate('user-1', occurrence('2026-11-02'), { title: 'Sync' }, 'all');
+
+      expect(queued()).toEqual([{ type: 'update', eventId: 'standup', updates: { title: 'Sync' } }]);
+    });
+
+    it('moves every occurrence by as much as the edited one moved', () => {
+      queueEventUpdate(
+        'user-1',
+        occurrence('2026-11-02'),
+        { start_time: '2026-11-02T10:00:00.000Z', end_time: '2026-11-02T10:30:00.000Z' },
+        'all'
+      );
+
+      expect(queued()[0]).toEqual({
+        type: 'update',
+        eventId: 'standup',
+        updates: {
+          start_time: '2026-10-19T10:00:00.000Z',
+          end_time: '2026-10-19T10:30:00.000Z',
+          recurrence_rule: { ...RULE, exceptions: [shift(nineAm('2026-11-09'), HOUR)] },
+        },
+      });
+    });
+
+    it('keeps overrides on the occurrences they replace when the series moves', () => {
+      queueEventUpdate('user-1', occurrence('2026-11-02'), { start_time: '2026-11-02T10:00:00.000Z' }, 'all');
+
+      expect(queued()).toContainEqual({
+        type: 'update',
+        eventId: 'standup-26',
+        updates: { original_start_time: '2026-10-26T10:00:00.000Z' },
+      });
+      // The moved occurrence shows once, at its own time, and the skipped one stays skipped
+      expect(visible()).toEqual([
+        '2026-10-19T10:00:00.000Z Standup',
+        '2026-10-21T14:00:00.000Z dentist',
+        '2026-10-26T11:00:00.000Z Standup (late)',
+        '2026-11-02T10:00:00.000Z Standup',
+        '2026-11-16T10:00:00.000Z Standup',
+        '2026-11-23T10:00:00.000Z Standup',
+      ]);
+    });
+
+    it("leaves overrides alone when the times don't change", () => {
+      queueEventUpdate('user-1', occurrence('2026-11-02'), { start_time: nineAm('2026-11-02'), title: 'Sync' }, 'all');
+
+      expect(queued().map((mutation) => mutation.eventId)).toEqual(['standup']);
+    });
+  });
+});
+
+describe('queueEventDelete', () => {
+  it('deletes events outside a series directly', () => {
+    queueEventDelete('dentist');
+
+    expect(queued()).toEqual([{ type: 'delete', eventId: 'dentist' }]);
+  });
+
+  it('skips just this occurrence', () => {
+    queueEventDelete(occurrence('2026-11-02'), 'this');
+
+    expect(queued()).toEqual([
+      {
+        type: 'update',
+        eventId: 'standup',
+        updates: { recurrence_rule: { ...RULE, exceptions: [...RULE.exceptions, nineAm('2026-11-02')] } },
+      },
+    ]);
+    expect(visible()).not.toContain('2026-11-02T09:00:00.000Z Standup');
+  });
+
+  it('removes an override along with its occurrence', () => {
+    queueEventDelete('standup-26', 'this');
+
+    expect(queued().map((mutation) => `${mutation.type} ${mutation.eventId}`)).toEqual([
+      'delete standup-26',
+      'update standup',
+    ]);
+    expect(visible().filter((shown) => shown.startsWith('2026-10-26'))).toEqual([]);
+  });
+
+  it('ends the series before this and following occurrences', () => {
+    queueEventDelete(occurrence('2026-10-26'), 'following');
+
+    expect(queued().map((mutation) => `${mutation.type} ${mutation.eventId}`)).toEqual([
+      'delete standup-26',
+      'update standup',
+    ]);
+    expect(visible()).toEqual(['2026-10-19T09:00:00.000Z Standup', '2026-10-21T14:00:00.000Z dentist']);
+  });
+
+  it('deletes the series with its overrides', () => {
+    queueEventDelete(occurrence('2026-11-02'), 'all');
+
+    expect(queued()).toEqual([
+      { type: 'delete', eventId: 'standup-26' },
+      { type: 'delete', eventId: 'standup' },
+    ]);
+    expect(visible()).toEqual(['2026-10-21T14:00:00.000Z dentist']);
+  });
+});
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, AdminSyncError, AdminUserSummary } from '../lib/supabase';
+
+// Enough recent errors to see a pattern without paging
+const SYNC_ERROR_LIMIT = 20;
+
+/**
+ * Every user and their sync health, for the admin console. The database functions
+ * check the caller's role themselves, so this only works for admins.
+ */
+export function useAdminUsers(enabled: boolean) {
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('admin_list_users');
+      if (rpcError) throw rpcError;
+      setUsers(data || []);
+      setError(null);
+    } catch (fetchError: any) {
+      console.error('Error fetching users:', fetchError);
+      setError(fetchError.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) fetchUsers();
+  }, [enabled, fetchUsers]);
+
+  const fetchSyncErrors = async (userId: string): Promise<AdminSyncError[]> => {
+    const { data, error: rpcError } = await supabase.rpc('admin_user_sync_errors', {
+      target_user_id: userId,
+      max_rows: SYNC_ERROR_LIMIT,
+    });
+    if (rpcError) throw rpcError;
+    return data || [];
+  };
+
+  const requestResync = async (userId: string) => {
+    const { data, error: rpcError } = await supabase.rpc('admin_request_resync', { target_user_id: userId });
+    if (rpcError) throw rpcError;
+    setUsers((current) =>
+      current.map((user) => (user.id === userId ? { ...user, resync_requested_at: data } : user))
+    );
+  };
+
+  return {
+    users,
+    loading,
+    error,
+    refresh: fetchUsers,
+    fetchSyncErrors,
+    requestResync,
+  };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import * as Crypto from 'expo-crypto';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { useCategoryStore } from '../stores/categoryStore';
+
+/** The user's categories, kept current through a realtime subscription. */
+export function useCategories() {
+  const user = useAuthStore((state) => state.user);
+  const categories = useCategoryStore((state) => state.categories);
+  const fetchCategories = useCategoryStore((state) => state.fetchCategories);
+  const [channelName] = useState(() => `categories-changes-${Crypto.randomUUID()}`);
+
+  useEffect(() => {
+    // Guard: only set up subscription when user exists
+    if (!user?.id) return;
+
+    fetchCategories();
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'categories', filter: `user_id=eq.${user.id}` },
+        () => {
+          fetchCategories();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchCategories, user?.id, channelName]);
+
+  return categories;
+}
@@ -0,0 +1,18 @@
+import { CalendarEvent } from '../lib/supabase';
+import { getEventColor } from '../lib/eventColors';
+import { useCalendarStore, getCalendarColor } from '../stores/calendarStore';
+import { useCategoryStore, getCategoryColor } from '../stores/categoryStore';
+
+/**
+ * The color an event is drawn in: its own, else its category's, else its calendar's.
+ * Null without an event.
+ */
+export function useEventColor(
+  event: Pick<CalendarEvent, 'color' | 'category_id' | 'calendar_id'> | null
+): string | null {
+  const categoryColor = useCategoryStore((state) =>
+    event ? getCategoryColor(state.categories, event.category_id) : null
+  );
+  const calendarColor = useCalendarStore((state) => (event ? getCalendarColor(state, event.calendar_id) : null));
+  return event ? getEventColor(event, { categoryColor, calendarColor }) : null;
+}
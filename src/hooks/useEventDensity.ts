@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase, CalendarEvent } from '../lib/supabase';
+import { expandEvents } from '../lib/recurrence';
+import { addDays, getEventDayIndex, isAllDayLaneEvent, toDateKey } from '../lib/dates';
+import { useAuthStore } from '../stores/authStore';
+import { useEventStore, applyMutations } from '../stores/eventStore';
+import { useCalendarStore, isCalendarVisible } from '../stores/calendarStore';
+
+// Only what's needed to place events on days and hide those of hidden calendars;
+// keeps the month query light
+const DENSITY_COLUMNS =
+  'id, calendar_id, start_time, end_time, all_day, time_zone, recurrence_rule, recurring_event_id, original_start_time';
+
+/** Number of events on each local day in the range, keyed by `YYYY-MM-DD`. */
+export function countEventsByDay(events: CalendarEvent[], rangeStart: Date, dayCount: number) {
+  const counts: Record<string, number> = {};
+
+  for (let i = 0; i < dayCount; i++) {
+    const dayStart = addDays(rangeStart, i);
+    const dayEnd = addDays(dayStart, 1);
+    const key = toDateKey(dayStart);
+
+    for (const event of events) {
+      const onDay = isAllDayLaneEvent(event)
+        ? !!getEventDayIndex(event, dayStart)
+        : new Date(event.start_time).getTime() < dayEnd.getTime() &&
+          new Date(event.end_time).getTime() > dayStart.getTime();
+
+      if (onDay) {
+        counts[key] = (counts[key] ?? 0) + 1;
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Per-day event counts for a run of days, e.g. the weeks shown in a month grid.
+ * Falls back to the offline cache when the query can't be made.
+ */
+export function useEventDensity(rangeStart: Date, dayCount: number, enabled: boolean = true) {
+  const user = useAuthStore((state) => state.user);
+  const calendars = useCalendarStore((state) => state.calendars);
+  const hiddenCalendarIds = useCalendarStore((state) => state.hiddenCalendarIds);
+  // Occurrences in the range, before hidden calendars are left out
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    let cancelled = false;
+    const rangeEnd = addDays(rangeStart, dayCount);
+    const from = `"${rangeStart.toISOString()}"`;
+    const to = `"${rangeEnd.toISOString()}"`;
+
+    const load = async () => {
+      let events: CalendarEvent[];
+
+      try {
+        const { data, error } = await supabase
+          .from('events')
+          .select(DENSITY_COLUMNS)
+          .eq('user_id', user.id)
+          .or(
+            `and(start_time.lt.${to},end_time.gt.${from}),` +
+            `and(recurrence_rule.not.is.null,start_time.lt.${to}),` +
+            `and(recurring_event_id.not.is.null,original_start_time.gte.${from},original_start_time.lt.${to})`
+          );
+
+        if (error) throw error;
+        events = (data || []) as CalendarEvent[];
+      } catch (error) {
+        console.error('Error fetching event density:', error);
+        const { serverEvents, mutations } = useEventStore.getState();
+        events = applyMutations(serverEvents, mutations);
+      }
+
+      if (!cancelled) {
+        setEvents(expandEvents(events, rangeStart, rangeEnd));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, rangeStart, dayCount, enabled]);
+
+  return useMemo(
+    () => countEventsByDay(
+      events.filter((event) => isCalendarVisible({ calendars, hiddenCalendarIds }, event.calendar_id)),
+      rangeStart,
+      dayCount
+    ),
+    [events, calendars, hiddenCalendarIds, rangeStart, dayCount]
+  );
+}
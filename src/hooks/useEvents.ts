@@ -1,66 +1,334 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import * as Crypto from 'expo-crypto';
 import { supabase, CalendarEvent } from '../lib/supabase';
+import {
+  RecurrenceScope,
+  addException,
+  expandEvents,
+  parseOccurrenceId,
+  splitRecurrence,
+} from '../lib/recurrence';
+import { ConflictField, ConflictSide, resolveConflict } from '../lib/conflicts';
+import { getDeviceTimeZone, getRangeBounds } from '../lib/timezone';
+import { toDateKey } from '../lib/dates';
 import { useAuthStore } from '../stores/authStore';
+import { useEventStore, applyMutations, eventsInRange } from '../stores/eventStore';
+import { useCalendarStore, isCalendarVisible } from '../stores/calendarStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+
+const MINUTE = 60 * 1000;
+
+/** A complete new event row, with the user's defaults for anything `event` leaves out. */
+export function buildEvent(userId: string, event: Partial<CalendarEvent>): CalendarEvent {
+  const now = new Date().toISOString();
+  // Without an end, the event lasts the user's default length
+  const start = event.start_time ?? now;
+  const { defaultDurationMinutes } = usePreferencesStore.getState();
+  return {
+    id: Crypto.randomUUID(),
+    user_id: userId,
+    google_event_id: null,
+    calendar_id: useCalendarStore.getState().defaultCalendarId,
+    title: '',
+    description: null,
+    start_time: start,
+    end_time: new Date(Date.parse(start) + defaultDurationMinutes * MINUTE).toISOString(),
+    all_day: false,
+    time_zone: getDeviceTimeZone(),
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'pending',
+    sync_error: null,
+    google_version: null,
+    synced_at: null,
+    created_at: now,
+    updated_at: now,
+    ...event,
+  };
+}
+
+// Fields a new event inherits when it is split off from a series
+function seriesFields(master: CalendarEvent): Partial<CalendarEvent> {
+  return {
+    calendar_id: master.calendar_id,
+    title: master.title,
+    description: master.description,
+    all_day: master.all_day,
+    time_zone: master.time_zone,
+    color: master.color,
+    category_id: master.category_id,
+    reminder_offsets: master.reminder_offsets,
+  };
+}
 
-const BACKEND_URL = process.env.EXPO_PUBLIC_BACKEND_URL;
+function shiftTimestamp(timestamp: string, ms: number) {
+  return new Date(new Date(timestamp).getTime() + ms).toISOString();
+}
+
+/** Everything the user currently sees, before range filtering and recurrence expansion. */
+function currentEvents() {
+  const { serverEvents, mutations } = useEventStore.getState();
+  return applyMutations(serverEvents, mutations);
+}
+
+/**
+ * Finds the recurring series behind an event id: either an expanded occurrence
+ * (`<master id>_<original start>`) or an override row. Null for standalone events.
+ */
+function resolveOccurrence(id: string) {
+  const events = currentEvents();
+  const findEvent = (eventId: string) => events.find((event) => event.id === eventId);
+
+  const parsed = parseOccurrenceId(id);
+  let override: CalendarEvent | null = null;
+  let masterId = parsed?.masterId;
+  let originalStart = parsed?.originalStart;
+
+  if (!parsed) {
+    const event = findEvent(id);
+    if (!event?.recurring_event_id || !event.original_start_time) return null;
+    override = event;
+    masterId = event.recurring_event_id;
+    originalStart = new Date(event.original_start_time).toISOString();
+  }
+
+  const master = findEvent(masterId!);
+  if (!master?.recurrence_rule) return null;
+
+  const duration = new Date(master.end_time).getTime() - new Date(master.start_time).getTime();
+  return {
+    master,
+    override,
+    originalStart: originalStart!,
+    originalEnd: shiftTimestamp(originalStart!, duration),
+    // "This and following" from the first occurrence is the whole series
+    isFirst: Date.parse(originalStart!) <= Date.parse(master.start_time),
+    overrides: events.filter((event) => event.recurring_event_id === master.id),
+  };
+}
 
 /**
- * Builds UTC start/end timestamps for a given date.
- * Uses UTC methods to avoid local-timezone day-boundary mismatches.
+ * Queues a change to an event. For occurrences of a recurring event, `scope` picks what
+ * it applies to: just this occurrence (stored as an override), this and following (the
+ * series is split in two), or the whole series.
  */
-function getUTCDayBounds(date: Date) {
-  // Create a new Date set to midnight UTC on the selected date
-  const startOfDay = new Date(Date.UTC(
-    date.getFullYear(),
-    date.getMonth(),
-    date.getDate(),
-    0, 0, 0, 0
-  ));
-
-  // End of day is 23:59:59.999 UTC
-  const endOfDay = new Date(Date.UTC(
-    date.getFullYear(),
-    date.getMonth(),
-    date.getDate(),
-    23, 59, 59, 999
-  ));
-
-  return { startOfDay, endOfDay };
+export function queueEventUpdate(
+  userId: string,
+  id: string,
+  updates: Partial<CalendarEvent>,
+  scope: RecurrenceScope = 'all'
+) {
+  const { enqueue } = useEventStore.getState();
+  const series = resolveOccurrence(id);
+
+  if (!series) {
+    enqueue({ type: 'update', eventId: id, updates });
+  } else if (scope === 'this') {
+    if (series.override) {
+      enqueue({ type: 'update', eventId: series.override.id, updates });
+    } else {
+      const override = buildEvent(userId, {
+        ...seriesFields(series.master),
+        start_time: series.originalStart,
+        end_time: series.originalEnd,
+        recurring_event_id: series.master.id,
+        original_start_time: series.originalStart,
+        ...updates,
+      });
+      enqueue({ type: 'create', eventId: override.id, event: override });
+    }
+  } else if (scope === 'following' && !series.isFirst) {
+    const { before, after } = splitRecurrence(series.master, series.originalStart);
+    enqueue({ type: 'update', eventId: series.master.id, updates: { recurrence_rule: before } });
+
+    // Overrides past the split belong to occurrences the old series no longer has
+    for (const override of series.overrides) {
+      if (Date.parse(override.original_start_time!) >= Date.parse(series.originalStart)) {
+        enqueue({ type: 'delete', eventId: override.id });
+      }
+    }
+
+    const following = buildEvent(userId, {
+      ...seriesFields(series.master),
+      start_time: series.originalStart,
+      end_time: series.originalEnd,
+      recurrence_rule: after,
+      ...updates,
+    });
+    enqueue({ type: 'create', eventId: following.id, event: following });
+  } else {
+    // Time changes made on one occurrence move every occurrence by the same amount
+    const masterUpdates = { ...updates };
+    const rule = series.master.recurrence_rule!;
+    let startShift = 0;
+
+    if (updates.start_time) {
+      startShift = Date.parse(updates.start_time) - Date.parse(series.originalStart);
+      masterUpdates.start_time = shiftTimestamp(series.master.start_time, startShift);
+      if (startShift !== 0 && !updates.recurrence_rule) {
+        masterUpdates.recurrence_rule = {
+          ...rule,
+          exceptions: rule.exceptions.map((exception) => shiftTimestamp(exception, startShift)),
+        };
+      }
+    }
+    if (updates.end_time) {
+      const shift = Date.parse(updates.end_time) - Date.parse(series.originalEnd);
+      masterUpdates.end_time = shiftTimestamp(series.master.end_time, shift);
+    }
+
+    enqueue({ type: 'update', eventId: series.master.id, updates: masterUpdates });
+
+    // Overrides keep their own times but follow the occurrences they replace, which
+    // expansion matches them by; otherwise each would show beside its moved original
+    if (startShift !== 0) {
+      for (const override of series.overrides) {
+        enqueue({
+          type: 'update',
+          eventId: override.id,
+          updates: { original_start_time: shiftTimestamp(override.original_start_time!, startShift) },
+        });
+      }
+    }
+  }
+}
+
+/** Queues deleting an event, or for occurrences the part of the series `scope` picks. */
+export function queueEventDelete(id: string, scope: RecurrenceScope = 'all') {
+  const { enqueue } = useEventStore.getState();
+  const series = resolveOccurrence(id);
+
+  if (!series) {
+    enqueue({ type: 'delete', eventId: id });
+  } else if (scope === 'this') {
+    if (series.override) {
+      enqueue({ type: 'delete', eventId: series.override.id });
+    }
+    enqueue({
+      type: 'update',
+      eventId: series.master.id,
+      updates: { recurrence_rule: addException(series.master.recurrence_rule!, series.originalStart) },
+    });
+  } else if (scope === 'following' && !series.isFirst) {
+    const { before } = splitRecurrence(series.master, series.originalStart);
+    for (const override of series.overrides) {
+      if (Date.parse(override.original_start_time!) >= Date.parse(series.originalStart)) {
+        enqueue({ type: 'delete', eventId: override.id });
+      }
+    }
+    enqueue({ type: 'update', eventId: series.master.id, updates: { recurrence_rule: before } });
+  } else {
+    for (const override of series.overrides) {
+      enqueue({ type: 'delete', eventId: override.id });
+    }
+    enqueue({ type: 'delete', eventId: series.master.id });
+  }
 }
 
-export function useEvents(selectedDate: Date) {
+/**
+ * Events for `dayCount` days starting at the calendar date of `startDate`, fetched with
+ * one query and kept current through one realtime subscription. Days run midnight to
+ * midnight in `timeZone`.
+ */
+export function useEvents(startDate: Date, dayCount: number = 1, timeZone: string = getDeviceTimeZone()) {
   const user = useAuthStore((state) => state.user);
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const serverEvents = useEventStore((state) => state.serverEvents);
+  const mutations = useEventStore((state) => state.mutations);
+  const hydrated = useEventStore((state) => state.hydrated);
+  const isOnline = useEventStore((state) => state.isOnline);
+  const isSyncing = useEventStore((state) => state.isFlushing);
+  const retrySync = useEventStore((state) => state.flush);
+  const syncJobs = useEventStore((state) => state.syncJobs);
+  const retryAllSyncs = useEventStore((state) => state.retryAllSyncs);
+  const retryRejected = useEventStore((state) => state.retryRejected);
+  const discardRejected = useEventStore((state) => state.discardRejected);
+  const calendars = useCalendarStore((state) => state.calendars);
+  const hiddenCalendarIds = useCalendarStore((state) => state.hiddenCalendarIds);
   const [loading, setLoading] = useState(true);
+  // Each hook instance needs its own channel; several can be mounted at once
+  const [channelName] = useState(() => `events-changes-${Crypto.randomUUID()}`);
+
+  const { rangeStart, rangeEnd } = useMemo(
+    () => getRangeBounds(toDateKey(startDate), dayCount, timeZone),
+    [startDate, dayCount, timeZone]
+  );
+
+  // Cached events render immediately; the network fetch below only refreshes them
+  const allEvents = useMemo(
+    () => eventsInRange(
+      expandEvents(applyMutations(serverEvents, mutations), rangeStart, rangeEnd),
+      rangeStart,
+      rangeEnd
+    ),
+    [serverEvents, mutations, rangeStart, rangeEnd]
+  );
+  const events = useMemo(
+    () => allEvents.filter((event) => isCalendarVisible({ calendars, hiddenCalendarIds }, event.calendar_id)),
+    [allEvents, calendars, hiddenCalendarIds]
+  );
+
+  const pendingEventIds = useMemo(
+    () => new Set(mutations.filter((mutation) => !mutation.rejected).map((mutation) => mutation.eventId)),
+    [mutations]
+  );
+  // Changes the server refused, kept until the user retries or discards them
+  const rejectedMutations = useMemo(() => mutations.filter((mutation) => mutation.rejected), [mutations]);
+  const rejectedEventIds = useMemo(
+    () => new Set(rejectedMutations.map((mutation) => mutation.eventId)),
+    [rejectedMutations]
+  );
 
   const fetchEvents = useCallback(async () => {
-    if (!user) return;
+    if (!user || !hydrated) return;
+
+    const { setUser, flush, mergeRange } = useEventStore.getState();
+    setUser(user.id);
+
+    if (!useEventStore.getState().isOnline) {
+      setLoading(false);
+      return;
+    }
 
     setLoading(true);
     try {
-      // Get UTC start and end of day to ensure consistent timezone handling
-      const { startOfDay, endOfDay } = getUTCDayBounds(selectedDate);
-
-      // Query events that are active during the selected day:
-      // - start_time is before or during the day AND
-      // - end_time is during or after the day
-      // This catches: single-day events, multi-day events, and events spanning into this day
+      // Push local changes first so the fetched snapshot already includes them
+      await flush();
+
+      const from = `"${rangeStart.toISOString()}"`;
+      const to = `"${rangeEnd.toISOString()}"`;
+
+      // Query events that are active during the range:
+      // - start_time is before or during the range AND
+      // - end_time is during or after the range
+      // This catches: single-day events, multi-day events, and events spanning into the range.
+      // Recurring events are fetched whenever they started before the range ends and are
+      // expanded into occurrences locally. Overrides are also fetched when the occurrence
+      // they replace falls in the range, so a moved occurrence hides its original time.
       const { data, error } = await supabase
         .from('events')
         .select('*')
         .eq('user_id', user.id)
-        .lte('start_time', endOfDay.toISOString())   // Event starts before day ends
-        .gte('end_time', startOfDay.toISOString())   // Event ends after day starts
+        .or(
+          `and(start_time.lte.${to},end_time.gte.${from}),` +
+          `and(recurrence_rule.not.is.null,start_time.lte.${to}),` +
+          `and(recurring_event_id.not.is.null,original_start_time.gte.${from},original_start_time.lte.${to})`
+        )
         .order('start_time', { ascending: true });
 
       if (error) throw error;
-      setEvents(data || []);
+      mergeRange(rangeStart, rangeEnd, data || []);
     } catch (error) {
       console.error('Error fetching events:', error);
     } finally {
       setLoading(false);
     }
-  }, [user, selectedDate]);
+  }, [user, hydrated, rangeStart, rangeEnd]);
 
   useEffect(() => {
     // Guard: only set up subscription when user exists
@@ -70,7 +338,7 @@ export function useEvents(selectedDate: Date) {
 
     // Subscribe to realtime updates
     const channel = supabase
-      .channel('events-changes')
+      .channel(channelName)
       .on(
         'postgres_changes',
         {
@@ -88,125 +356,80 @@ export function useEvents(selectedDate: Date) {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [fetchEvents, user?.id]);
+  }, [fetchEvents, user?.id, channelName]);
 
+  // Changes are applied locally right away and queued; the queue replays them
+  // against Supabase now if we're online, or once connectivity returns.
   const createEvent = async (event: Partial<CalendarEvent>) => {
     if (!user) return;
 
-    // First insert into Supabase to get the event ID
-    const { data: insertedEvent, error } = await supabase
-      .from('events')
-      .insert({
-        ...event,
-        user_id: user.id,
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    // Then push to Google Calendar via backend API
-    try {
-      const session = await supabase.auth.getSession();
-      const accessToken = session.data.session?.access_token;
-
-      if (accessToken && BACKEND_URL && insertedEvent) {
-        const response = await fetch(`${BACKEND_URL}/api/sync/events`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify(insertedEvent),
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          // Update the event with the Google Event ID
-          if (result.googleEventId) {
-            await supabase
-              .from('events')
-              .update({ google_event_id: result.googleEventId })
-              .eq('id', insertedEvent.id);
-          }
-        } else {
-          console.error('Failed to push event to Google Calendar');
-        }
-      }
-    } catch (syncError) {
-      console.error('Error syncing event to Google:', syncError);
-      // Don't throw - the event is saved in Supabase, just not synced to Google
-    }
-
-    await fetchEvents();
+    const newEvent = buildEvent(user.id, event);
+    const { enqueue, flush } = useEventStore.getState();
+    enqueue({ type: 'create', eventId: newEvent.id, event: newEvent });
+    flush();
+    return newEvent;
   };
 
-  const updateEvent = async (id: string, updates: Partial<CalendarEvent>) => {
+  /**
+   * For occurrences of a recurring event, `scope` picks what the change applies to;
+   * see queueEventUpdate.
+   */
+  const updateEvent = async (
+    id: string,
+    updates: Partial<CalendarEvent>,
+    scope: RecurrenceScope = 'all'
+  ) => {
     if (!user) return;
 
-    // Security: Only update events owned by the current user
-    const { error } = await supabase
-      .from('events')
-      .update(updates)
-      .eq('id', id)
-      .eq('user_id', user.id);
-
-    if (error) throw error;
-    await fetchEvents();
+    queueEventUpdate(user.id, id, updates, scope);
+    useEventStore.getState().flush();
   };
 
-  const deleteEvent = async (id: string) => {
+  const deleteEvent = async (id: string, scope: RecurrenceScope = 'all') => {
     if (!user) return;
 
-    // First get the event to check for google_event_id
-    const { data: eventToDelete } = await supabase
-      .from('events')
-      .select('google_event_id')
-      .eq('id', id)
-      .eq('user_id', user.id)
-      .single();
-
-    // Delete from Google Calendar via backend API if it has a google_event_id
-    if (eventToDelete?.google_event_id && BACKEND_URL) {
-      try {
-        const session = await supabase.auth.getSession();
-        const accessToken = session.data.session?.access_token;
-
-        if (accessToken) {
-          await fetch(`${BACKEND_URL}/api/sync/events/${id}`, {
-            method: 'DELETE',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${accessToken}`,
-            },
-            body: JSON.stringify({ googleEventId: eventToDelete.google_event_id }),
-          });
-        }
-      } catch (syncError) {
-        console.error('Error deleting event from Google:', syncError);
-        // Continue with local delete even if Google sync fails
-      }
-    }
+    queueEventDelete(id, scope);
+    useEventStore.getState().flush();
+  };
 
-    // Security: Only delete events owned by the current user
-    const { error } = await supabase
-      .from('events')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
+  /**
+   * Settles a Google Calendar conflict on `event`, keeping each field from the side
+   * `choose` picks. Occurrences resolve their whole series, which is what conflicted.
+   */
+  const resolveEventConflict = async (event: CalendarEvent, choose: (field: ConflictField) => ConflictSide) => {
+    if (!user || !event.google_version) return;
 
-    if (error) throw error;
-    await fetchEvents();
+    const { enqueue, flush } = useEventStore.getState();
+    const eventId = parseOccurrenceId(event.id)?.masterId ?? event.id;
+    const row = currentEvents().find((candidate) => candidate.id === eventId);
+    if (!row?.google_version) return;
+
+    enqueue({ type: 'update', eventId, updates: resolveConflict(row, row.google_version, choose) });
+    flush();
   };
 
   return {
     events,
+    // Hidden calendars' events too; the user is still busy during them
+    allEvents,
     loading,
     refresh: fetchEvents,
     createEvent,
     updateEvent,
     deleteEvent,
+    resolveConflict: resolveEventConflict,
+    pendingEventIds,
+    pendingCount: mutations.length - rejectedMutations.length,
+    rejectedEventIds,
+    rejectedCount: rejectedMutations.length,
+    rejectedError: rejectedMutations[0]?.lastError ?? null,
+    retryRejected,
+    discardRejected,
+    isOnline,
+    isSyncing,
+    retrySync,
+    // Google Calendar pushes that have failed at least once and are still queued
+    failedSyncCount: syncJobs.filter((job) => job.attempts > 0).length,
+    retryAllSyncs,
   };
 }
-
-
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { signsInWithGoogle, useAuthStore } from '../stores/authStore';
+import { useEventStore } from '../stores/eventStore';
+import { useCalendarStore } from '../stores/calendarStore';
+
+/**
+ * Whether calendar sync can still reach Google, checked with the backend on launch and
+ * whenever the app comes back to the foreground. Once access is restored, Google
+ * pushes that failed in the meantime are retried. Accounts that don't sign in with
+ * Google are only asked to reconnect once they have connected a calendar.
+ */
+export function useGoogleAccess() {
+  const user = useAuthStore((state) => state.user);
+  const googleAccess = useAuthStore((state) => state.googleAccess);
+  const googleAccessError = useAuthStore((state) => state.googleAccessError);
+  const reconnecting = useAuthStore((state) => state.authLoading);
+  const checkGoogleAccess = useAuthStore((state) => state.checkGoogleAccess);
+  const reconnect = useAuthStore((state) => state.reconnectGoogle);
+  const previousAccess = useRef(googleAccess);
+
+  useEffect(() => {
+    if (!user) return;
+
+    checkGoogleAccess();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        checkGoogleAccess();
+      }
+    });
+    return () => subscription.remove();
+  }, [user, checkGoogleAccess]);
+
+  useEffect(() => {
+    // Unknown counts too: sync jobs and calendars wait for the first check
+    const wasBroken =
+      previousAccess.current === null ||
+      previousAccess.current === 'reauth_required' ||
+      previousAccess.current === 'not_connected';
+    previousAccess.current = googleAccess;
+    if (wasBroken && googleAccess === 'ok') {
+      useEventStore.getState().retryAllSyncs();
+      useCalendarStore.getState().fetchCalendars();
+    }
+  }, [googleAccess]);
+
+  return {
+    needsReconnect:
+      googleAccess === 'reauth_required' || (googleAccess === 'not_connected' && !!user && signsInWithGoogle(user)),
+    googleAccessError,
+    reconnecting,
+    reconnect,
+  };
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { supabase, CalendarEvent } from '../lib/supabase';
+import { ICalEvent, parseICalendar, serializeICalendar } from '../lib/ical';
+import { expandRecurringEvent } from '../lib/recurrence';
+import { getDeviceTimeZone, getRangeBounds } from '../lib/timezone';
+import { toDateKey } from '../lib/dates';
+import { useAuthStore } from '../stores/authStore';
+import { useEventStore, applyMutations, eventsInRange } from '../stores/eventStore';
+import { buildEvent } from './useEvents';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Values per `in` filter, keeping the request URL a sane length
+const LOOKUP_CHUNK_SIZE = 100;
+
+export interface ImportSummary {
+  imported: number;
+  // Already in the calendar from an earlier import, or with the same title and times
+  skipped: number;
+  // Series whose rule couldn't be kept, imported as their first occurrence
+  unsupportedRecurrences: number;
+}
+
+function duplicateKey(event: Pick<CalendarEvent, 'title' | 'start_time' | 'end_time'>) {
+  return `${event.title}|${Date.parse(event.start_time)}|${Date.parse(event.end_time)}`;
+}
+
+// Events imported with a UID are known by it, plus the occurrence they replace if any
+function uidKey(uid: string, originalStart: string | null) {
+  return `${uid}|${originalStart ? Date.parse(originalStart) : ''}`;
+}
+
+function chunk<T>(items: T[]) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += LOOKUP_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + LOOKUP_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * Keys of the user's events that `events` may repeat: by UID for events that have one,
+ * by title and times for the rest. Looked up on the server, since the cache only holds
+ * ranges that were viewed, plus local changes that haven't reached it.
+ */
+async function fetchExistingKeys(userId: string, events: ICalEvent[]) {
+  const { serverEvents, mutations, isOnline } = useEventStore.getState();
+  const keys = new Set<string>();
+  const addKeys = (rows: Pick<CalendarEvent, 'title' | 'start_time' | 'end_time' | 'original_start_time' | 'ical_uid'>[]) => {
+    for (const row of rows) {
+      keys.add(row.ical_uid ? uidKey(row.ical_uid, row.original_start_time) : duplicateKey(row));
+    }
+  };
+  addKeys(applyMutations(serverEvents, mutations));
+  if (!isOnline) return keys;
+
+  const uids = [...new Set(events.flatMap((event) => (event.uid ? [event.uid] : [])))];
+  const starts = [...new Set(events.filter((event) => !event.uid).map((event) => event.start_time))];
+
+  // Security: Only fetch events owned by the current user
+  for (const values of chunk(uids)) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('title, start_time, end_time, original_start_time, ical_uid')
+      .eq('user_id', userId)
+      .in('ical_uid', values);
+    if (error) throw error;
+    addKeys(data || []);
+  }
+  for (const values of chunk(starts)) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('title, start_time, end_time, original_start_time, ical_uid')
+      .eq('user_id', userId)
+      .in('start_time', values);
+    if (error) throw error;
+    addKeys(data || []);
+  }
+  return keys;
+}
+
+/**
+ * Moving events in and out as iCalendar (.ics) files: importing one shared by a school
+ * or clinic, and exporting a date range to share or keep as a backup. Imported events
+ * are new events of the user's, queued and synced like any other.
+ */
+export function useICalendar() {
+  const user = useAuthStore((state) => state.user);
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  /** Asks for a file and adds its events. Null if the user didn't pick one. */
+  const importFile = async (): Promise<ImportSummary | null> => {
+    if (!user) return null;
+
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/calendar', 'application/ics', 'text/x-vcalendar'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return null;
+
+    setImporting(true);
+    try {
+      const text = await new File(result.assets[0].uri).text();
+      if (!/BEGIN:VCALENDAR/i.test(text)) {
+        throw new Error("That file isn't an iCalendar (.ics) file.");
+      }
+
+      const { events, unsupportedRecurrences } = parseICalendar(text);
+      if (events.length === 0) {
+        throw new Error("That file doesn't have any events in it.");
+      }
+
+      const { enqueue, flush } = useEventStore.getState();
+      const existing = await fetchExistingKeys(user.id, events);
+      // New ids of imported series, so their changed occurrences can point at them
+      const seriesIds = new Map<string, string>();
+      const skippedUids = new Set<string>();
+      let imported = 0;
+      let skipped = 0;
+
+      const importEvent = (fields: Partial<CalendarEvent>) => {
+        const event = buildEvent(user.id, fields);
+        enqueue({ type: 'create', eventId: event.id, event });
+        imported++;
+        return event;
+      };
+
+      for (const event of events.filter((candidate) => !candidate.recurrence_id)) {
+        const { uid, recurrence_id, ...fields } = event;
+        if (existing.has(uid ? uidKey(uid, null) : duplicateKey(event))) {
+          skipped++;
+          if (uid) skippedUids.add(uid);
+          continue;
+        }
+        const created = importEvent({ ...fields, ical_uid: uid });
+        if (uid && fields.recurrence_rule) seriesIds.set(uid, created.id);
+      }
+
+      for (const event of events.filter((candidate) => candidate.recurrence_id)) {
+        const { uid, recurrence_id, ...fields } = event;
+        // Without its series (missing, or with a rule we couldn't keep) it stands alone
+        const seriesId = uid ? seriesIds.get(uid) : undefined;
+        const key = uid ? uidKey(uid, seriesId ? recurrence_id : null) : duplicateKey(event);
+        if ((uid && skippedUids.has(uid)) || existing.has(key)) {
+          skipped++;
+          continue;
+        }
+        importEvent({
+          ...fields,
+          ical_uid: uid,
+          recurring_event_id: seriesId ?? null,
+          original_start_time: seriesId ? recurrence_id : null,
+        });
+      }
+
+      flush();
+      return { imported, skipped, unsupportedRecurrences };
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * Shares an .ics file of the events from the start of `from` to the end of `to`
+   * (local days). Returns how many events it holds; nothing is shared when that's 0.
+   */
+  const exportRange = async (from: Date, to: Date): Promise<number> => {
+    if (!user) return 0;
+
+    setExporting(true);
+    try {
+      const timeZone = getDeviceTimeZone();
+      const dayCount = Math.max(1, Math.round((to.getTime() - from.getTime()) / DAY) + 1);
+      const { rangeStart, rangeEnd } = getRangeBounds(toDateKey(from), dayCount, timeZone);
+
+      // The cache only holds ranges that were viewed; fetch the rest when we can
+      const { setUser, flush, mergeRange } = useEventStore.getState();
+      setUser(user.id);
+      if (useEventStore.getState().isOnline) {
+        await flush();
+
+        const fromValue = `"${rangeStart.toISOString()}"`;
+        const toValue = `"${rangeEnd.toISOString()}"`;
+
+        // Security: Only fetch events owned by the current user
+        const { data, error } = await supabase
+          .from('events')
+          .select('*')
+          .eq('user_id', user.id)
+          .or(
+            `and(start_time.lte.${toValue},end_time.gte.${fromValue}),` +
+            `and(recurrence_rule.not.is.null,start_time.lte.${toValue}),` +
+            `and(recurring_event_id.not.is.null,original_start_time.gte.${fromValue},original_start_time.lte.${toValue})`
+          )
+          .order('start_time', { ascending: true });
+
+        if (error) throw error;
+        mergeRange(rangeStart, rangeEnd, data || []);
+      }
+
+      const { serverEvents, mutations } = useEventStore.getState();
+      const events = applyMutations(serverEvents, mutations);
+
+      // Whole series go out when any of their occurrences falls in the range
+      const series = events.filter(
+        (event) => event.recurrence_rule && expandRecurringEvent(event, rangeStart, rangeEnd).length > 0
+      );
+      const seriesIds = new Set(series.map((event) => event.id));
+      const inRange = new Set(eventsInRange(events, rangeStart, rangeEnd));
+      // Overrides moved out of the range still go with their series, or readers would
+      // see the occurrence they replace at its original time
+      const replacesInRange = (event: CalendarEvent) =>
+        !!event.recurring_event_id &&
+        seriesIds.has(event.recurring_event_id) &&
+        Date.parse(event.original_start_time!) >= rangeStart.getTime() &&
+        Date.parse(event.original_start_time!) <= rangeEnd.getTime();
+      const others = events.filter(
+        (event) => !event.recurrence_rule && (inRange.has(event) || replacesInRange(event))
+      ).map((event) =>
+        // An override whose series isn't in the file is just an event to the reader
+        event.recurring_event_id && !seriesIds.has(event.recurring_event_id)
+          ? { ...event, recurring_event_id: null, original_start_time: null }
+          : event
+      );
+
+      const exported = [...series, ...others];
+      if (exported.length === 0) return 0;
+
+      const fromKey = toDateKey(from);
+      const toKey = toDateKey(to);
+      const file = new File(Paths.cache, `intentive-${fromKey}${fromKey === toKey ? '' : `-to-${toKey}`}.ics`);
+      file.create({ overwrite: true });
+      file.write(serializeICalendar(exported, { calendarName: 'Intentive' }));
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing isn't available on this device.");
+      }
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'text/calendar',
+        UTI: 'public.calendar-event',
+        dialogTitle: 'Export events',
+      });
+      return exported.length;
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return {
+    importing,
+    exporting,
+    importFile,
+    exportRange,
+  };
+}
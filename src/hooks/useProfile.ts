@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import * as Crypto from 'expo-crypto';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { useProfileStore } from '../stores/profileStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { useEventStore } from '../stores/eventStore';
+
+/**
+ * The signed-in user's profile, kept current through a realtime subscription. Each
+ * fetch also syncs preferences with other devices and carries out any resync an
+ * admin has asked for.
+ */
+export function useProfile() {
+  const user = useAuthStore((state) => state.user);
+  // The cached profile may still be a previous account's until it is fetched again
+  const profile = useProfileStore((state) => (state.profile?.id === user?.id ? state.profile : null));
+  const [channelName] = useState(() => `profile-changes-${Crypto.randomUUID()}`);
+
+  useEffect(() => {
+    // Guard: only set up subscription when user exists
+    if (!user?.id) return;
+
+    const refresh = async () => {
+      await useProfileStore.getState().fetchProfile();
+      await usePreferencesStore.getState().syncWithProfile();
+
+      const requestedAt = useProfileStore.getState().profile?.resync_requested_at;
+      if (requestedAt) {
+        useEventStore.getState().resync(requestedAt);
+      }
+    };
+
+    refresh();
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${user.id}` },
+        () => {
+          refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, channelName]);
+
+  return profile;
+}
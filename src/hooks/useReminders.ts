@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AppState } from 'react-native';
+import { planReminders, syncReminders } from '../lib/reminders';
+import { ensureNotificationPermission, expoNotifier } from '../lib/expoNotifier';
+import { startOfLocalDay, toDateKey } from '../lib/dates';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { useEvents } from './useEvents';
+
+// Today and tomorrow; reopening the app rolls the window forward
+const REMINDER_HORIZON_DAYS = 2;
+
+/**
+ * Keeps local notifications in step with upcoming events. Runs whenever the events
+ * change (including realtime updates from other devices) or the settings do.
+ */
+export function useReminders() {
+  const enabled = usePreferencesStore((state) => state.reminders.enabled);
+  const defaultOffsets = usePreferencesStore((state) => state.reminders.defaultOffsets);
+  const transitionMinutes = usePreferencesStore((state) => state.reminders.transitionMinutes);
+  const [todayKey, setTodayKey] = useState(() => toDateKey(new Date()));
+  const [permitted, setPermitted] = useState(false);
+
+  const today = useMemo(() => startOfLocalDay(new Date()), [todayKey]);
+  const { events } = useEvents(today, REMINDER_HORIZON_DAYS);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        setTodayKey(toDateKey(new Date()));
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    ensureNotificationPermission()
+      .then(setPermitted)
+      .catch((error) => console.error('Error requesting notification permission:', error));
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!permitted && enabled) return;
+
+    const planned = planReminders(events, new Date(), { enabled, defaultOffsets, transitionMinutes });
+    syncReminders(expoNotifier, planned).catch((error) => {
+      console.error('Error scheduling reminders:', error);
+    });
+  }, [events, permitted, enabled, defaultOffsets, transitionMinutes]);
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import * as Crypto from 'expo-crypto';
+import { supabase, CalendarEvent, Task } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { applyMutations, useEventStore } from '../stores/eventStore';
+
+export function useTasks() {
+  const user = useAuthStore((state) => state.user);
+  const serverEvents = useEventStore((state) => state.serverEvents);
+  const mutations = useEventStore((state) => state.mutations);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [fetchedBlocks, setFetchedBlocks] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [channelName] = useState(() => `tasks-changes-${Crypto.randomUUID()}`);
+
+  const fetchTasks = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [tasksResult, blocksResult] = await Promise.all([
+        supabase
+          .from('tasks')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('done', { ascending: true })
+          .order('due_date', { ascending: true, nullsFirst: false })
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('events')
+          .select('*')
+          .eq('user_id', user.id)
+          .not('task_id', 'is', null),
+      ]);
+
+      if (tasksResult.error) throw tasksResult.error;
+      if (blocksResult.error) throw blocksResult.error;
+      setTasks(tasksResult.data || []);
+      setFetchedBlocks(blocksResult.data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    // Guard: only set up subscription when user exists
+    if (!user?.id) return;
+
+    fetchTasks();
+
+    // Blocks change through the events table, so listen to both
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: `user_id=eq.${user.id}` },
+        () => {
+          fetchTasks();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'events', filter: `user_id=eq.${user.id}` },
+        () => {
+          fetchTasks();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchTasks, user?.id, channelName]);
+
+  // Blocks scheduled on this device show up before they reach the server
+  const blocks = useMemo(() => {
+    const known: Record<string, CalendarEvent> = {};
+    for (const event of [...fetchedBlocks, ...Object.values(serverEvents)]) {
+      known[event.id] = event;
+    }
+    return applyMutations(known, mutations).filter((event) => event.task_id);
+  }, [fetchedBlocks, serverEvents, mutations]);
+
+  const createTask = async (task: Pick<Task, 'title' | 'estimated_minutes' | 'due_date'>) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('tasks')
+      .insert({ ...task, user_id: user.id });
+
+    if (error) throw error;
+    await fetchTasks();
+  };
+
+  const updateTask = async (id: string, updates: Partial<Task>) => {
+    if (!user) return;
+
+    // Optimistic so checking a task off feels instant
+    setTasks((current) => current.map((task) => (task.id === id ? { ...task, ...updates } : task)));
+
+    // Security: Only update tasks owned by the current user
+    const { error } = await supabase
+      .from('tasks')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      await fetchTasks();
+      throw error;
+    }
+  };
+
+  const deleteTask = async (id: string) => {
+    if (!user) return;
+
+    // Security: Only delete tasks owned by the current user
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    await fetchTasks();
+  };
+
+  return {
+    tasks,
+    blocks,
+    loading,
+    refresh: fetchTasks,
+    createTask,
+    updateTask,
+    deleteTask,
+  };
+}
@@ -0,0 +1,145 @@
+import { CalendarEvent, GoogleEventVersion, RecurrenceRule } from '../supabase';
+import { ConflictField, getConflictingFields, hasLocalChanges, isConflict, resolveConflict } from '../conflicts';
+
+const SYNCED_AT = '2026-10-19T08:00:00.000Z';
+const BEFORE_SYNC = '2026-10-19T07:00:00.000Z';
+const AFTER_SYNC = '2026-10-19T09:00:00.000Z';
+const DAILY: RecurrenceRule = {
+  frequency: 'daily',
+  interval: 1,
+  by_weekday: null,
+  until: null,
+  count: null,
+  exceptions: [],
+};
+
+function event(fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'standup',
+    user_id: 'user-1',
+    google_event_id: 'google-standup',
+    calendar_id: null,
+    title: 'Standup',
+    description: null,
+    start_time: '2026-10-20T09:00:00.000Z',
+    end_time: '2026-10-20T09:15:00.000Z',
+    all_day: false,
+    time_zone: 'UTC',
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'synced',
+    sync_error: null,
+    google_version: null,
+    synced_at: SYNCED_AT,
+    created_at: '2026-10-01T08:00:00.000Z',
+    updated_at: AFTER_SYNC,
+    ...fields,
+  };
+}
+
+/** Google's copy of `event()`, as Google formats it. */
+function remote(fields: Partial<GoogleEventVersion> = {}): GoogleEventVersion {
+  return {
+    title: 'Standup',
+    description: null,
+    start_time: '2026-10-20T09:00:00Z',
+    end_time: '2026-10-20T09:15:00Z',
+    all_day: false,
+    recurrence_rule: null,
+    updated_at: AFTER_SYNC,
+    ...fields,
+  };
+}
+
+describe('hasLocalChanges', () => {
+  it.each([
+    ['edited after the last sync', AFTER_SYNC, SYNCED_AT, true],
+    ['edited before the last sync', BEFORE_SYNC, SYNCED_AT, false],
+    ['edited as it synced', SYNCED_AT, SYNCED_AT, false],
+    ['never synced', BEFORE_SYNC, null, true],
+  ])('tells an event %s', (_, updated_at, synced_at, expected) => {
+    expect(hasLocalChanges(event({ updated_at, synced_at }))).toBe(expected);
+  });
+});
+
+describe('getConflictingFields', () => {
+  it.each<[string, Partial<CalendarEvent>, Partial<GoogleEventVersion>, ConflictField[]]>([
+    ['the same event', {}, {}, []],
+    ['a different title', { title: 'Daily standup' }, {}, ['title']],
+    ['a description Google dropped for being empty', { description: '' }, { description: null }, []],
+    ['a different description', { description: 'Room 4' }, {}, ['description']],
+    ['a different end', {}, { end_time: '2026-10-20T09:30:00Z' }, ['time']],
+    ['a switch to all-day', { all_day: true }, {}, ['time']],
+    ['a different repeat', { recurrence_rule: DAILY }, {}, ['recurrence_rule']],
+    ['several differences, in order', { title: 'Sync' }, { start_time: '2026-10-20T10:00:00Z' }, ['title', 'time']],
+  ])('compares %s', (_, local, google, expected) => {
+    expect(getConflictingFields(event(local), remote(google))).toEqual(expected);
+  });
+});
+
+describe('isConflict', () => {
+  it.each<[string, Partial<CalendarEvent>, Partial<GoogleEventVersion>, boolean]>([
+    ['both sides changed differently', { title: 'Daily standup' }, { title: 'Team standup' }, true],
+    ['only the app changed', { title: 'Daily standup' }, { updated_at: BEFORE_SYNC }, false],
+    ['only Google changed', { updated_at: BEFORE_SYNC }, { title: 'Team standup' }, false],
+    ['both sides made the same change', { title: 'Team standup' }, { title: 'Team standup' }, false],
+    ['the event never synced', { title: 'Daily standup', synced_at: null }, { title: 'Team standup' }, true],
+  ])('decides when %s', (_, local, google, expected) => {
+    expect(isConflict(event(local), remote(google))).toBe(expected);
+  });
+});
+
+describe('resolveConflict', () => {
+  const local = event({ title: 'Daily standup', description: 'Room 4', google_version: remote() });
+  const google = remote({
+    title: 'Team standup',
+    start_time: '2026-10-20T10:00:00Z',
+    end_time: '2026-10-20T10:30:00Z',
+  });
+  const marksSynced = {
+    sync_status: 'pending',
+    sync_error: null,
+    google_version: null,
+    synced_at: AFTER_SYNC,
+  };
+
+  it("takes every conflicting field from Google's copy", () => {
+    expect(resolveConflict(local, google, () => 'google')).toEqual({
+      title: 'Team standup',
+      description: null,
+      start_time: '2026-10-20T10:00:00Z',
+      end_time: '2026-10-20T10:30:00Z',
+      all_day: false,
+      ...marksSynced,
+    });
+  });
+
+  it("keeps the app's copy and only marks it synced with Google's", () => {
+    expect(resolveConflict(local, google, () => 'local')).toEqual(marksSynced);
+  });
+
+  it('mixes sides field by field, moving the times together', () => {
+    const choose = jest.fn((field: ConflictField) => (field === 'time' ? 'google' : 'local'));
+
+    expect(resolveConflict(local, google, choose)).toEqual({
+      start_time: '2026-10-20T10:00:00Z',
+      end_time: '2026-10-20T10:30:00Z',
+      all_day: false,
+      ...marksSynced,
+    });
+    expect(choose.mock.calls.map(([field]) => field)).toEqual(['title', 'description', 'time']);
+  });
+
+  it('settles an event that no longer disagrees', () => {
+    const choose = jest.fn(() => 'google' as const);
+
+    expect(resolveConflict(event(), remote(), choose)).toEqual(marksSynced);
+    expect(choose).not.toHaveBeenCalled();
+  });
+});
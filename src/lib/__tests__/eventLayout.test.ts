@@ -0,0 +1,153 @@
+import { CalendarEvent } from '../supabase';
+import { isAllDayLaneEvent } from '../dates';
+import { layoutDayEvents } from '../eventLayout';
+
+const DAY_START = new Date('2026-10-19T00:00:00.000Z');
+const DAY_END = new Date('2026-10-20T00:00:00.000Z');
+
+function event(id: string, start_time: string, end_time: string, fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    user_id: 'user-1',
+    google_event_id: null,
+    calendar_id: null,
+    title: id,
+    description: null,
+    start_time,
+    end_time,
+    all_day: false,
+    time_zone: 'UTC',
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'synced',
+    sync_error: null,
+    google_version: null,
+    synced_at: null,
+    created_at: '2026-10-01T08:00:00.000Z',
+    updated_at: '2026-10-01T08:00:00.000Z',
+    ...fields,
+  };
+}
+
+/** A time on 19 October, or on another day given as `18 22:00`. */
+function at(time: string) {
+  const [day, clock] = time.includes(' ') ? time.split(' ') : ['19', time];
+  return `2026-10-${day}T${clock}:00.000Z`;
+}
+
+function layout(events: [string, string, string][]) {
+  return layoutDayEvents(
+    events.map(([id, start, end]) => event(id, at(start), at(end))),
+    DAY_START,
+    DAY_END,
+    { timeZone: 'UTC' }
+  );
+}
+
+describe('layoutDayEvents', () => {
+  // Each event as `id column/span/columns`, in the order they are laid out
+  it.each<[string, [string, string, string][], string[]]>([
+    [
+      'events that only touch in one column',
+      [['a', '09:00', '10:00'], ['b', '10:00', '11:00']],
+      ['a 0/1/1', 'b 0/1/1'],
+    ],
+    ['two overlapping events side by side', [['a', '09:00', '10:00'], ['b', '09:30', '10:30']], ['a 0/1/2', 'b 1/1/2']],
+    [
+      'the longer of two events starting together on the left',
+      [['a', '09:00', '09:30'], ['b', '09:00', '11:00']],
+      ['b 0/1/2', 'a 1/1/2'],
+    ],
+    [
+      'a chain of overlaps as one cluster',
+      [['a', '09:00', '10:00'], ['b', '09:30', '10:30'], ['c', '10:00', '11:00']],
+      ['a 0/1/2', 'b 1/1/2', 'c 0/1/2'],
+    ],
+    [
+      'an event widening into columns that stay free',
+      [['a', '09:00', '10:00'], ['b', '09:00', '10:00'], ['c', '09:00', '11:00'], ['d', '10:00', '11:00']],
+      ['c 0/1/3', 'a 1/1/3', 'b 2/1/3', 'd 1/2/3'],
+    ],
+    [
+      'separate clusters with their own columns',
+      [['a', '09:00', '10:00'], ['b', '09:00', '10:00'], ['c', '14:00', '15:00']],
+      ['a 0/1/2', 'b 1/1/2', 'c 0/1/1'],
+    ],
+    [
+      'short events as if they took half an hour',
+      [['a', '09:00', '09:10'], ['b', '09:15', '09:25']],
+      ['a 0/1/2', 'b 1/1/2'],
+    ],
+  ])('places %s', (_, events, expected) => {
+    const placed = layout(events).map(({ event, column, span, columns }) => `${event.id} ${column}/${span}/${columns}`);
+
+    expect(placed).toEqual(expected);
+  });
+
+  describe('zero-length events', () => {
+    it.each<[string, string, [number, number] | null]>([
+      ['during the day', '09:00', [540, 540]],
+      ['at the start of the day', '00:00', [0, 0]],
+      // The next midnight belongs to the next day
+      ['at the end of the day', '20 00:00', null],
+    ])('lays out one %s', (_, time, expected) => {
+      const placed = layout([['a', time, time]]).map(({ startMinute, endMinute }) => [startMinute, endMinute]);
+
+      expect(placed).toEqual(expected ? [expected] : []);
+    });
+
+    it('gives them room next to the events they share a time with', () => {
+      const placed = layout([['reminder', '09:00', '09:00'], ['meeting', '09:00', '10:00']]);
+
+      expect(placed.map(({ event, column }) => `${event.id} ${column}`)).toEqual(['meeting 0', 'reminder 1']);
+    });
+  });
+
+  describe('events that cross midnight', () => {
+    // Minutes on the grid, then whether it runs on before and after the day
+    it.each<[string, string, string, [number, number, boolean, boolean] | null]>([
+      ['runs into the next day', '22:00', '20 02:00', [1320, 1440, false, true]],
+      ['comes from the day before', '18 22:00', '02:00', [0, 120, true, false]],
+      ['spans the whole day', '18 22:00', '20 02:00', [0, 1440, true, true]],
+      ['ends at midnight', '18 23:00', '00:00', null],
+      ['starts at the next midnight', '20 00:00', '20 01:00', null],
+    ])('clips an event that %s', (_, start, end, expected) => {
+      const placed = layout([['late', start, end]]).map((placement) => [
+        placement.startMinute,
+        placement.endMinute,
+        placement.continuesBefore,
+        placement.continuesAfter,
+      ]);
+
+      expect(placed).toEqual(expected ? [expected] : []);
+    });
+
+    it('only shares columns with what happens after midnight', () => {
+      const placed = layout([['late', '18 23:00', '01:00'], ['early', '00:30', '01:30'], ['later', '02:00', '03:00']]);
+
+      expect(placed.map(({ event, column, columns }) => `${event.id} ${column}/${columns}`)).toEqual([
+        'late 0/2',
+        'early 1/2',
+        'later 0/1',
+      ]);
+    });
+  });
+});
+
+describe('isAllDayLaneEvent', () => {
+  it.each<[string, Partial<CalendarEvent>, boolean]>([
+    ['an all-day event', { all_day: true, start_time: at('00:00'), end_time: at('20 00:00') }, true],
+    ['a timed event lasting a whole day', { start_time: at('09:00'), end_time: at('20 09:00') }, true],
+    ['a timed event over several days', { start_time: at('18 22:00'), end_time: at('21 08:00') }, true],
+    ['a timed event just short of a day', { start_time: at('09:00'), end_time: at('20 08:59') }, false],
+    ['an overnight event', { start_time: at('22:00'), end_time: at('20 06:00') }, false],
+  ])('tells whether %s goes above the grid', (_, fields, expected) => {
+    expect(isAllDayLaneEvent(event('a', at('09:00'), at('10:00'), fields))).toBe(expected);
+  });
+});
@@ -0,0 +1,454 @@
+import { CalendarEvent } from '../supabase';
+import { parseICalendar, serializeICalendar } from '../ical';
+
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+const NEW_YORK = 'America/New_York';
+
+function event(id: string, fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    user_id: 'user-1',
+    google_event_id: null,
+    calendar_id: null,
+    title: id,
+    description: null,
+    start_time: '2026-10-20T14:00:00.000Z',
+    end_time: '2026-10-20T15:00:00.000Z',
+    all_day: false,
+    time_zone: NEW_YORK,
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'synced',
+    sync_error: null,
+    google_version: null,
+    synced_at: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...fields,
+  };
+}
+
+/** A calendar of one VEVENT per array of property lines. */
+function calendar(...events: string[][]) {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function parseOne(lines: string[], fallbackZone = 'UTC') {
+  const { events } = parseICalendar(calendar(lines), fallbackZone);
+  expect(events).toHaveLength(1);
+  return events[0];
+}
+
+function serialize(events: CalendarEvent[]) {
+  return serializeICalendar(events, { calendarName: 'Personal', now: NOW });
+}
+
+function linesOf(text: string) {
+  return text.split('\r\n');
+}
+
+describe('parseICalendar', () => {
+  describe('unfolding', () => {
+    it('joins lines continued with a space or a tab', () => {
+      const parsed = parseOne([
+        'DTSTART:20261020T140000Z',
+        'SUMMARY:Quarterly plan',
+        ' ning with the',
+        '\t whole team',
+      ]);
+
+      expect(parsed.title).toBe('Quarterly planning with the whole team');
+    });
+
+    it('reads files with bare line feeds', () => {
+      const text = calendar(['DTSTART:20261020T140000Z', 'SUMMARY:Stand', ' up']).replace(/\r\n/g, '\n');
+
+      expect(parseICalendar(text, 'UTC').events.map((parsed) => parsed.title)).toEqual(['Standup']);
+    });
+
+    it('skips properties of components nested in an event', () => {
+      const parsed = parseOne([
+        'DTSTART:20261020T140000Z',
+        'SUMMARY:Dentist',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+      ]);
+
+      expect(parsed).toMatchObject({ title: 'Dentist', description: null });
+    });
+  });
+
+  describe('text', () => {
+    it.each([
+      ['commas and semicolons', 'Lunch\\, then coffee\\; maybe', 'Lunch, then coffee; maybe'],
+      ['backslashes', 'C:\\\\Users\\\\me', 'C:\\Users\\me'],
+      ['line breaks', 'First line\\nSecond line\\NThird line', 'First line\nSecond line\nThird line'],
+      ['an escaped backslash before an n', 'a\\\\nb', 'a\\nb'],
+    ])('unescapes %s', (_, value, expected) => {
+      expect(parseOne(['DTSTART:20261020T140000Z', `SUMMARY:${value}`]).title).toBe(expected);
+    });
+
+    it('keeps the location with the description', () => {
+      const parsed = parseOne([
+        'DTSTART:20261020T140000Z',
+        'SUMMARY:Dentist',
+        'DESCRIPTION:Bring the insurance card',
+        'LOCATION:12 Main St\\, Springfield',
+      ]);
+
+      expect(parsed.description).toBe('Bring the insurance card\n\nLocation: 12 Main St, Springfield');
+    });
+  });
+
+  describe('dates and times', () => {
+    it.each([
+      ['a UTC time', ['DTSTART:20261020T140000Z', 'DTEND:20261020T153000Z'], '2026-10-20T14:00:00.000Z', '2026-10-20T15:30:00.000Z'],
+      ['a duration', ['DTSTART:20261020T140000Z', 'DURATION:PT1H30M'], '2026-10-20T14:00:00.000Z', '2026-10-20T15:30:00.000Z'],
+      ['a time without an end', ['DTSTART:20261020T140000Z'], '2026-10-20T14:00:00.000Z', '2026-10-20T14:00:00.000Z'],
+      ['an end before the start', ['DTSTART:20261020T140000Z', 'DTEND:20261020T130000Z'], '2026-10-20T14:00:00.000Z', '2026-10-20T14:00:00.000Z'],
+    ])('reads %s', (_, lines, start, end) => {
+      expect(parseOne(lines)).toMatchObject({ start_time: start, end_time: end, all_day: false });
+    });
+
+    it.each([
+      ['with an end', ['DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261023'], '2026-10-23T00:00:00.000Z'],
+      ['without an end as one day', ['DTSTART;VALUE=DATE:20261020'], '2026-10-21T00:00:00.000Z'],
+      ['ending the day it starts as one day', ['DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261020'], '2026-10-21T00:00:00.000Z'],
+      ['with a duration', ['DTSTART;VALUE=DATE:20261020', 'DURATION:P2D'], '2026-10-22T00:00:00.000Z'],
+    ])('reads a date %s as all-day', (_, lines, end) => {
+      expect(parseOne(lines, NEW_YORK)).toMatchObject({
+        start_time: '2026-10-20T00:00:00.000Z',
+        end_time: end,
+        all_day: true,
+        time_zone: NEW_YORK,
+      });
+    });
+
+    it.each([
+      ['in its TZID', 'DTSTART;TZID=America/New_York:20261020T090000', '2026-10-20T13:00:00.000Z', NEW_YORK],
+      ['in a quoted TZID', 'DTSTART;TZID="America/New_York":20261020T090000', '2026-10-20T13:00:00.000Z', NEW_YORK],
+      ['in its TZID after the clocks change', 'DTSTART;TZID=America/New_York:20261102T090000', '2026-11-02T14:00:00.000Z', NEW_YORK],
+      [
+        'in a TZID with a path prefix',
+        'DTSTART;TZID=/mozilla.org/20050126_1/America/New_York:20261020T090000',
+        '2026-10-20T13:00:00.000Z',
+        NEW_YORK,
+      ],
+      ['in the fallback zone for an unknown TZID', 'DTSTART;TZID=Pacific Standard Time:20261020T090000', '2026-10-20T03:30:00.000Z', 'Asia/Kolkata'],
+      ['in the fallback zone when floating', 'DTSTART:20261020T090000', '2026-10-20T03:30:00.000Z', 'Asia/Kolkata'],
+    ])('reads a local time %s', (_, line, start, timeZone) => {
+      expect(parseOne([line], 'Asia/Kolkata')).toMatchObject({ start_time: start, time_zone: timeZone });
+    });
+
+    it("reads floating times in the calendar's zone", () => {
+      const text = calendar(['DTSTART:20261020T090000']).replace('VERSION:2.0', 'VERSION:2.0\r\nX-WR-TIMEZONE:Europe/London');
+
+      expect(parseICalendar(text, 'Asia/Kolkata').events[0]).toMatchObject({
+        start_time: '2026-10-20T08:00:00.000Z',
+        time_zone: 'Europe/London',
+      });
+    });
+
+    it('skips events without a readable start', () => {
+      const text = calendar(['SUMMARY:No start'], ['DTSTART:October 20', 'SUMMARY:Bad start'], ['DTSTART:20261020T140000Z']);
+
+      expect(parseICalendar(text, 'UTC').events).toHaveLength(1);
+    });
+  });
+
+  describe('repeats', () => {
+    const series = [
+      'UID:standup-series',
+      'DTSTART;TZID=America/New_York:20261019T090000',
+      'DTEND;TZID=America/New_York:20261019T091500',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20261130',
+      'SUMMARY:Standup',
+    ];
+
+    it('reads a rule in the zone of its start', () => {
+      expect(parseOne(series).recurrence_rule).toEqual({
+        frequency: 'weekly',
+        interval: 1,
+        by_weekday: ['MO'],
+        // A date-only end includes that whole day
+        until: '2026-12-01T04:59:59.000Z',
+        count: null,
+        exceptions: [],
+      });
+    });
+
+    it('reads every EXDATE as an exception', () => {
+      const parsed = parseOne([
+        ...series,
+        'EXDATE;TZID=America/New_York:20261026T090000,20261109T090000',
+        'EXDATE:20261116T140000Z',
+      ]);
+
+      expect(parsed.recurrence_rule?.exceptions).toEqual([
+        '2026-10-26T13:00:00.000Z',
+        '2026-11-09T14:00:00.000Z',
+        '2026-11-16T14:00:00.000Z',
+      ]);
+    });
+
+    it('reads date EXDATEs of an all-day series', () => {
+      const parsed = parseOne([
+        'DTSTART;VALUE=DATE:20261019',
+        'RRULE:FREQ=DAILY;COUNT=5',
+        'EXDATE;VALUE=DATE:20261021',
+      ]);
+
+      expect(parsed.recurrence_rule).toMatchObject({ frequency: 'daily', count: 5, exceptions: ['2026-10-21T00:00:00.000Z'] });
+    });
+
+    it('turns cancelled occurrences into exceptions of their series', () => {
+      const { events } = parseICalendar(
+        calendar(series, [
+          'UID:standup-series',
+          'RECURRENCE-ID;TZID=America/New_York:20261102T090000',
+          'DTSTART;TZID=America/New_York:20261102T090000',
+          'STATUS:CANCELLED',
+        ]),
+        'UTC'
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].recurrence_rule?.exceptions).toEqual(['2026-11-02T14:00:00.000Z']);
+    });
+
+    it('keeps changed occurrences with the occurrence they replace', () => {
+      const { events } = parseICalendar(
+        calendar(series, [
+          'UID:standup-series',
+          'RECURRENCE-ID;TZID=America/New_York:20261102T090000',
+          'DTSTART;TZID=America/New_York:20261102T100000',
+          'DTEND;TZID=America/New_York:20261102T101500',
+          'SUMMARY:Standup (late)',
+        ]),
+        'UTC'
+      );
+
+      expect(events[1]).toMatchObject({
+        uid: 'standup-series',
+        recurrence_id: '2026-11-02T14:00:00.000Z',
+        start_time: '2026-11-02T15:00:00.000Z',
+        recurrence_rule: null,
+      });
+    });
+
+    it.each([
+      ['yearly repeats', 'FREQ=YEARLY'],
+      ['nth-weekday repeats', 'FREQ=MONTHLY;BYDAY=2TU'],
+      ['hourly repeats', 'FREQ=HOURLY'],
+      ['set positions', 'FREQ=MONTHLY;BYSETPOS=-1;BYDAY=FR'],
+    ])('keeps the first occurrence of %s', (_, rule) => {
+      const result = parseICalendar(calendar(['DTSTART:20261020T140000Z', `RRULE:${rule}`]), 'UTC');
+
+      expect(result.events[0].recurrence_rule).toBeNull();
+      expect(result.unsupportedRecurrences).toBe(1);
+    });
+  });
+});
+
+describe('serializeICalendar', () => {
+  it('writes a calendar with CRLF line endings', () => {
+    const text = serialize([event('dentist', { title: 'Dentist' })]);
+
+    expect(linesOf(text)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Intentive//Intentive//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Personal',
+      'BEGIN:VEVENT',
+      'UID:dentist@intentive.life',
+      'DTSTAMP:20261019T080000Z',
+      'CREATED:20261019T080000Z',
+      'LAST-MODIFIED:20261019T080000Z',
+      'DTSTART:20261020T140000Z',
+      'DTEND:20261020T150000Z',
+      'SUMMARY:Dentist',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('escapes text', () => {
+    const text = serialize([
+      event('lunch', { title: 'Lunch, then coffee; maybe', description: 'C:\\Users\\me\nSecond line' }),
+    ]);
+
+    expect(linesOf(text)).toContain('SUMMARY:Lunch\\, then coffee\\; maybe');
+    expect(linesOf(text)).toContain('DESCRIPTION:C:\\\\Users\\\\me\\nSecond line');
+  });
+
+  it('writes all-day events as dates', () => {
+    const text = serialize([
+      event('offsite', { all_day: true, start_time: '2026-10-20T00:00:00.000Z', end_time: '2026-10-22T00:00:00.000Z' }),
+    ]);
+
+    expect(linesOf(text)).toEqual(expect.arrayContaining(['DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261022']));
+  });
+
+  it('writes series in their own zone with their exceptions', () => {
+    const text = serialize([
+      event('standup', {
+        start_time: '2026-10-19T13:00:00.000Z',
+        end_time: '2026-10-19T13:15:00.000Z',
+        recurrence_rule: {
+          frequency: 'weekly',
+          interval: 1,
+          by_weekday: ['MO'],
+          until: null,
+          count: 10,
+          exceptions: ['2026-10-26T13:00:00.000Z', '2026-11-09T14:00:00.000Z'],
+        },
+      }),
+    ]);
+
+    expect(linesOf(text)).toEqual(
+      expect.arrayContaining([
+        'DTSTART;TZID=America/New_York:20261019T090000',
+        'DTEND;TZID=America/New_York:20261019T091500',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10',
+        'EXDATE:20261026T130000Z,20261109T140000Z',
+      ])
+    );
+  });
+
+  describe('folding', () => {
+    it.each([
+      ['plain text', 'Quarterly planning '.repeat(10)],
+      ['two-byte characters', 'Überprüfung der Änderungen '.repeat(6)],
+      ['emoji', '🎉'.repeat(40)],
+    ])('keeps lines of %s within 75 octets', (_, title) => {
+      const text = serialize([event('long', { title })]);
+
+      for (const line of linesOf(text)) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+        expect(line).not.toContain('\uFFFD');
+      }
+      expect(linesOf(text).filter((line) => line.startsWith(' ')).length).toBeGreaterThan(0);
+      expect(parseICalendar(text, 'UTC').events[0].title).toBe(title.trim());
+    });
+
+    it("doesn't fold lines that fit", () => {
+      const text = serialize([event('exact', { title: 'x'.repeat(75 - 'SUMMARY:'.length) })]);
+
+      expect(linesOf(text).some((line) => line.startsWith(' '))).toBe(false);
+    });
+  });
+
+  describe('round trip', () => {
+    const series = event('standup', {
+      title: 'Standup; daily, mostly',
+      description: 'Dial-in:\nhttps://meet.example.com/standup',
+      start_time: '2026-10-19T13:00:00.000Z',
+      end_time: '2026-10-19T13:15:00.000Z',
+      recurrence_rule: {
+        frequency: 'weekly',
+        interval: 2,
+        by_weekday: ['MO', 'TH'],
+        until: '2026-12-31T14:00:00.000Z',
+        count: null,
+        exceptions: ['2026-10-29T13:00:00.000Z'],
+      },
+    });
+    const moved = event('standup-moved', {
+      title: 'Standup (late)',
+      start_time: '2026-11-02T15:00:00.000Z',
+      end_time: '2026-11-02T15:15:00.000Z',
+      recurring_event_id: 'standup',
+      original_start_time: '2026-11-02T14:00:00.000Z',
+    });
+    const offsite = event('offsite', {
+      title: 'Offsite',
+      all_day: true,
+      start_time: '2026-10-20T00:00:00.000Z',
+      end_time: '2026-10-22T00:00:00.000Z',
+    });
+    const dentist = event('dentist', { title: 'Dentist', description: 'Bring the insurance card' });
+
+    const parsed = () => parseICalendar(serialize([series, moved, offsite, dentist]), 'UTC');
+
+    it('reads back every event', () => {
+      const { events, unsupportedRecurrences } = parsed();
+
+      expect(unsupportedRecurrences).toBe(0);
+      expect(events).toEqual([
+        {
+          uid: 'standup@intentive.life',
+          recurrence_id: null,
+          title: series.title,
+          description: series.description,
+          start_time: series.start_time,
+          end_time: series.end_time,
+          all_day: false,
+          time_zone: NEW_YORK,
+          recurrence_rule: series.recurrence_rule,
+        },
+        {
+          uid: 'standup@intentive.life',
+          recurrence_id: moved.original_start_time,
+          title: moved.title,
+          description: null,
+          start_time: moved.start_time,
+          end_time: moved.end_time,
+          all_day: false,
+          time_zone: 'UTC',
+          recurrence_rule: null,
+        },
+        {
+          uid: 'offsite@intentive.life',
+          recurrence_id: null,
+          title: offsite.title,
+          description: null,
+          start_time: offsite.start_time,
+          end_time: offsite.end_time,
+          all_day: true,
+          time_zone: 'UTC',
+          recurrence_rule: null,
+        },
+        {
+          uid: 'dentist@intentive.life',
+          recurrence_id: null,
+          title: dentist.title,
+          description: dentist.description,
+          start_time: dentist.start_time,
+          end_time: dentist.end_time,
+          all_day: false,
+          time_zone: 'UTC',
+          recurrence_rule: null,
+        },
+      ]);
+    });
+
+    it('writes the same file again from what it read', () => {
+      const written = [series, moved, offsite, dentist];
+      const events = parsed().events.map(({ uid, recurrence_id, ...read }, index) =>
+        event(written[index].id, {
+          ...read,
+          recurring_event_id: recurrence_id ? uid!.replace('@intentive.life', '') : null,
+          original_start_time: recurrence_id,
+        })
+      );
+
+      expect(serialize(events)).toBe(serialize(written));
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { DEFAULT_PREFERENCES, parseStoredPreferences } from '../preferences';
+
+describe('parseStoredPreferences', () => {
+  it('reads every valid field', () => {
+    const stored = { ...DEFAULT_PREFERENCES, timeFormat: '24h', updatedAt: '2026-10-19T08:00:00.000Z' };
+
+    expect(parseStoredPreferences(stored)).toEqual({
+      preferences: { ...DEFAULT_PREFERENCES, timeFormat: '24h' },
+      updatedAt: '2026-10-19T08:00:00.000Z',
+    });
+  });
+
+  it.each([null, undefined, 'compact', 42, []])('reads nothing from %p', (raw) => {
+    expect(parseStoredPreferences(raw)).toEqual({ preferences: {}, updatedAt: null });
+  });
+
+  it.each([
+    ['an unknown time format', { timeFormat: '36h' }],
+    ['a week starting on day 7', { weekStartsOn: 7 }],
+    ['a week start given as text', { weekStartsOn: '1' }],
+    ['a zero default duration', { defaultDurationMinutes: 0 }],
+    ['a fractional default duration', { defaultDurationMinutes: 12.5 }],
+    ['hours that end before they start', { dayStartHour: 18, dayEndHour: 9 }],
+    ['an hour past 23', { dayStartHour: 6, dayEndHour: 24 }],
+    ['only one of the hours', { dayStartHour: 6 }],
+    ['an unknown density', { gridDensity: 'huge' }],
+    ["a density named after an object's own property", { gridDensity: 'toString' }],
+    ['reminders without a switch', { reminders: { defaultOffsets: [10], transitionMinutes: null } }],
+    ['negative reminder offsets', { reminders: { enabled: true, defaultOffsets: [-5], transitionMinutes: null } }],
+    ['reminder offsets given as text', { reminders: { enabled: true, defaultOffsets: ['10'], transitionMinutes: 5 } }],
+    ['a missing transition nudge', { reminders: { enabled: true, defaultOffsets: [10] } }],
+    ['reminders that are not an object', { reminders: 'on' }],
+    ['a timestamp that is not text', { updatedAt: 1760860800000 }],
+  ])('leaves out %s', (_, stored) => {
+    expect(parseStoredPreferences(stored)).toEqual({ preferences: {}, updatedAt: null });
+  });
+
+  it('keeps the valid fields next to invalid ones', () => {
+    expect(parseStoredPreferences({ timeFormat: '24h', weekStartsOn: -1, gridDensity: 'compact' }).preferences).toEqual({
+      timeFormat: '24h',
+      gridDensity: 'compact',
+    });
+  });
+
+  it('reads reminders with the transition nudge turned off', () => {
+    const reminders = { enabled: false, defaultOffsets: [], transitionMinutes: null };
+
+    expect(parseStoredPreferences({ reminders }).preferences).toEqual({ reminders });
+  });
+});
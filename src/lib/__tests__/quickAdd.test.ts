@@ -0,0 +1,177 @@
+import { QuickAddOptions, parseQuickAdd } from '../quickAdd';
+import { allDayTimes } from '../dates';
+
+// Monday 19 October 2026, mid-morning
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+function at(month: number, day: number, hours: number, minutes = 0, year = 2026) {
+  return new Date(year, month, day, hours, minutes).toISOString();
+}
+
+function parse(text: string, options: QuickAddOptions = {}) {
+  return parseQuickAdd(text, { now: NOW, ...options });
+}
+
+describe('parseQuickAdd', () => {
+  describe('times', () => {
+    it.each([
+      ['dentist at 3', 'dentist', at(9, 19, 15), at(9, 19, 16)],
+      ['call 9am', 'call', at(9, 19, 9), at(9, 19, 10)],
+      ['standup 9:30', 'standup', at(9, 19, 9, 30), at(9, 19, 10, 30)],
+      ['review 14:00', 'review', at(9, 19, 14), at(9, 19, 15)],
+      ['lunch at noon', 'lunch', at(9, 19, 12), at(9, 19, 13)],
+      ['coffee @ 8', 'coffee', at(9, 19, 8), at(9, 19, 9)],
+      ['dinner 7.30 p.m.', 'dinner', at(9, 19, 19, 30), at(9, 19, 20, 30)],
+      ['meeting 3-4pm', 'meeting', at(9, 19, 15), at(9, 19, 16)],
+      ['brunch 11-1pm', 'brunch', at(9, 19, 11), at(9, 19, 13)],
+      ['workshop from 9 to 11:30', 'workshop', at(9, 19, 9), at(9, 19, 11, 30)],
+      ['party 11pm-1am', 'party', at(9, 19, 23), at(9, 20, 1)],
+    ])('%s', (text, title, start, end) => {
+      expect(parse(text)).toMatchObject({ title, start_time: start, end_time: end, all_day: false });
+    });
+  });
+
+  describe('dates', () => {
+    it.each([
+      ['dentist tomorrow 3:30pm', 'dentist', at(9, 20, 15, 30)],
+      ['pickup tonight at 6', 'pickup', at(9, 19, 18)],
+      ['flight 2026-11-03 at 8', 'flight', at(10, 3, 8)],
+      ['party on 12/25 at 7pm', 'party', at(11, 25, 19)],
+      ['renewal 1/15/27 9am', 'renewal', at(0, 15, 9, 0, 2027)],
+      ['concert Nov 14th at 8pm', 'concert', at(10, 14, 20)],
+      ['recital the 3rd of December at 5pm', 'recital', at(11, 3, 17)],
+      // Already past this year, so next year's
+      ['taxes march 1 at 9', 'taxes', at(2, 1, 9, 0, 2027)],
+      ['demo friday 2pm', 'demo', at(9, 23, 14)],
+      ['retro next monday 4pm', 'retro', at(9, 26, 16)],
+      ['sync monday 4pm', 'sync', at(9, 19, 16)],
+      ['checkup in 2 weeks at 10', 'checkup', at(10, 2, 10)],
+      ['follow up in a day at 9', 'follow up', at(9, 20, 9)],
+    ])('%s', (text, title, start) => {
+      expect(parse(text)).toMatchObject({ title, start_time: start, all_day: false });
+    });
+
+    it('uses the default date when the text names none', () => {
+      expect(parse('haircut at 4', { defaultDate: new Date(2026, 9, 22) })).toMatchObject({
+        start_time: at(9, 22, 16),
+      });
+    });
+
+    it('makes events without a time all-day', () => {
+      expect(parse('holiday tomorrow')).toEqual({
+        title: 'holiday',
+        recurrence_rule: null,
+        ...allDayTimes('2026-10-20', 1),
+        all_day: true,
+      });
+    });
+  });
+
+  describe('durations', () => {
+    it.each([
+      ['gym 7am for 45 min', 'gym', at(9, 19, 7), at(9, 19, 7, 45)],
+      ['focus at 9 for 1h30m', 'focus', at(9, 19, 9), at(9, 19, 10, 30)],
+      ['nap at 2 for half an hour', 'nap', at(9, 19, 14), at(9, 19, 14, 30)],
+      ['call at 11 for an hour', 'call', at(9, 19, 11), at(9, 19, 12)],
+      ['hike at 8 for 2.5 hours', 'hike', at(9, 19, 8), at(9, 19, 10, 30)],
+    ])('%s', (text, title, start, end) => {
+      expect(parse(text)).toMatchObject({ title, start_time: start, end_time: end });
+    });
+
+    it('falls back to the default duration', () => {
+      expect(parse('chat at 10', { defaultDurationMinutes: 30 })).toMatchObject({
+        start_time: at(9, 19, 10),
+        end_time: at(9, 19, 10, 30),
+      });
+    });
+
+    it('spans whole days for all-day events', () => {
+      expect(parse('conference tomorrow for 3 days')).toMatchObject({
+        title: 'conference',
+        ...allDayTimes('2026-10-20', 3),
+        all_day: true,
+      });
+    });
+
+    it('leaves a time range alone when a duration is given too', () => {
+      expect(parse('class 6-7pm for 30 min')).toMatchObject({
+        start_time: at(9, 19, 18),
+        end_time: at(9, 19, 19),
+      });
+    });
+  });
+
+  describe('repeats', () => {
+    const rule = (frequency: string, interval = 1, by_weekday: string[] | null = null) => ({
+      frequency,
+      interval,
+      by_weekday,
+      until: null,
+      count: null,
+      exceptions: [],
+    });
+
+    it.each([
+      ['standup daily at 9:15', 'standup', rule('daily')],
+      ['review weekly at 3', 'review', rule('weekly')],
+      ['rent monthly', 'rent', rule('monthly')],
+      ['water plants every 3 days', 'water plants', rule('daily', 3)],
+      ['1:1 every other week at 11', '1:1', rule('weekly', 2)],
+      ['payroll every month', 'payroll', rule('monthly')],
+      ['standup every weekday at 9', 'standup', rule('weekly', 1, ['MO', 'TU', 'WE', 'TH', 'FR'])],
+      ['long run every weekend at 7am', 'long run', rule('weekly', 1, ['SA', 'SU'])],
+      ['gym every Mon Wed 7am', 'gym', rule('weekly', 1, ['MO', 'WE'])],
+      ['piano every thursdays and tuesdays at 5', 'piano', rule('weekly', 1, ['TU', 'TH'])],
+    ])('%s', (text, title, recurrence) => {
+      expect(parse(text)).toMatchObject({ title, recurrence_rule: recurrence });
+    });
+
+    it('starts a weekday series on its first day', () => {
+      expect(parse('swim every wed fri 6pm')).toMatchObject({ start_time: at(9, 21, 18) });
+    });
+
+    it("doesn't take a repeated weekday as a single date", () => {
+      expect(parse('gym every monday at 6').start_time).toBe(at(9, 19, 18));
+    });
+  });
+
+  describe('ambiguous input', () => {
+    it.each([
+      // A bare range without "from", a colon or am/pm is a count, not a time
+      ['table for 3-4 people', 'table for 3-4 people'],
+      ['call mom', 'call mom'],
+      ['read chapter 12', 'read chapter 12'],
+      ['', ''],
+    ])('keeps "%s" as an all-day title', (text, title) => {
+      expect(parse(text)).toMatchObject({ title, all_day: true, ...allDayTimes('2026-10-19', 1) });
+    });
+
+    it.each([
+      // Small bare hours mean the afternoon
+      ['at 3', 15],
+      ['at 7', 19],
+      ['at 8', 8],
+      ['at 12', 12],
+      ['at 0', 0],
+      ['at 23', 23],
+    ])('reads "%s" as %i:00', (text, hours) => {
+      expect(parse(`sync ${text}`).start_time).toBe(at(9, 19, hours));
+    });
+
+    it('ignores impossible dates', () => {
+      expect(parse('party 2/30 at 8pm')).toMatchObject({ title: 'party', start_time: at(9, 19, 20) });
+    });
+
+    it('ignores impossible times', () => {
+      expect(parse('sync at 9:75')).toMatchObject({ all_day: true });
+    });
+
+    it('prefers all-day over a time', () => {
+      expect(parse('offsite friday all day at 9')).toMatchObject({
+        title: 'offsite at 9',
+        all_day: true,
+        ...allDayTimes('2026-10-23', 1),
+      });
+    });
+  });
+});
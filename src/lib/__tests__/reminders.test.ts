@@ -0,0 +1,269 @@
+import { CalendarEvent } from '../supabase';
+import {
+  MAX_SCHEDULED_REMINDERS,
+  Notifier,
+  PlannedNotification,
+  ReminderSettings,
+  ScheduledNotification,
+  planReminders,
+  syncReminders,
+} from '../reminders';
+
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+const SETTINGS: ReminderSettings = {
+  enabled: true,
+  defaultOffsets: [10],
+  transitionMinutes: null,
+};
+
+function at(time: string) {
+  return `2026-10-19T${time}:00.000Z`;
+}
+
+function event(id: string, start: string, end: string, fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    user_id: 'user-1',
+    google_event_id: null,
+    calendar_id: null,
+    title: id,
+    description: null,
+    start_time: at(start),
+    end_time: at(end),
+    all_day: false,
+    time_zone: 'UTC',
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'synced',
+    sync_error: null,
+    google_version: null,
+    synced_at: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...fields,
+  };
+}
+
+/** Keeps scheduled notifications in memory and records every call. */
+class FakeNotifier implements Notifier {
+  scheduled = new Map<string, ScheduledNotification>();
+  calls: string[] = [];
+
+  async getScheduled() {
+    return [...this.scheduled.values()];
+  }
+
+  async schedule(notification: PlannedNotification) {
+    this.calls.push(`schedule ${notification.id}`);
+    this.scheduled.set(notification.id, { id: notification.id, title: notification.title, body: notification.body });
+  }
+
+  async cancel(id: string) {
+    this.calls.push(`cancel ${id}`);
+    this.scheduled.delete(id);
+  }
+}
+
+describe('planReminders', () => {
+  it('reminds before each event by the default offsets', () => {
+    const planned = planReminders([event('standup', '09:00', '09:15')], NOW, SETTINGS);
+
+    expect(planned).toEqual([
+      {
+        id: `reminder:standup:${at('08:50')}`,
+        eventId: 'standup',
+        kind: 'reminder',
+        fireAt: new Date(at('08:50')),
+        title: 'standup',
+        body: 'Starts in 10 minutes',
+      },
+    ]);
+  });
+
+  it.each([
+    // The hour-before reminder would fire right now, so only the 5-minute one is left
+    ['its own offsets over the defaults', [5, 60], ['08:55']],
+    ['each offset once', [5, 5, 15], ['08:45', '08:55']],
+    ['no reminders when turned off for the event', [], []],
+  ])('uses %s', (_, offsets, fireTimes) => {
+    const planned = planReminders([event('review', '09:00', '10:00', { reminder_offsets: offsets })], NOW, SETTINGS);
+
+    expect(planned.map((notification) => notification.fireAt.toISOString())).toEqual(fireTimes.map(at));
+  });
+
+  it('skips reminders that would already have fired', () => {
+    const planned = planReminders(
+      [event('soon', '08:05', '08:30', { reminder_offsets: [1, 5, 10] })],
+      NOW,
+      SETTINGS
+    );
+
+    expect(planned.map((notification) => notification.body)).toEqual(['Starts in 1 minute']);
+  });
+
+  it.each([
+    ['all-day events', event('holiday', '00:00', '00:00', { all_day: true, end_time: '2026-10-20T00:00:00.000Z' })],
+    ['events of a day or more', event('trip', '09:00', '09:00', { end_time: '2026-10-20T09:00:00.000Z' })],
+  ])('leaves out %s', (_, lane) => {
+    expect(planReminders([lane], NOW, SETTINGS)).toEqual([]);
+  });
+
+  it('plans nothing when reminders are off', () => {
+    expect(planReminders([event('standup', '09:00', '09:15')], NOW, { ...SETTINGS, enabled: false })).toEqual([]);
+  });
+
+  it('describes lead times in hours when they are whole hours', () => {
+    const planned = planReminders(
+      [event('flight', '12:00', '14:00', { reminder_offsets: [60, 120] })],
+      NOW,
+      SETTINGS
+    );
+
+    expect(planned.map((notification) => notification.body)).toEqual(['Starts in 2 hours', 'Starts in 1 hour']);
+  });
+
+  describe('transition nudges', () => {
+    const settings = { ...SETTINGS, defaultOffsets: [], transitionMinutes: 5 };
+
+    it('nudges to wrap up when the next event starts during the current one', () => {
+      const planned = planReminders(
+        [event('design review', '09:00', '10:00'), event('1:1', '10:00', '10:30')],
+        NOW,
+        settings
+      );
+
+      expect(planned).toEqual([
+        {
+          id: `transition:1:1:${at('09:55')}`,
+          eventId: '1:1',
+          kind: 'transition',
+          fireAt: new Date(at('09:55')),
+          title: 'Start wrapping up design review',
+          body: '1:1 starts in 5 minutes',
+        },
+      ]);
+    });
+
+    it("doesn't nudge when there's a gap before the next event", () => {
+      expect(
+        planReminders([event('design review', '09:00', '09:30'), event('1:1', '10:00', '10:30')], NOW, settings)
+      ).toEqual([]);
+    });
+
+    it('names the latest-starting event when several are running', () => {
+      const planned = planReminders(
+        [event('offsite', '09:00', '12:00'), event('workshop', '10:00', '11:00'), event('lunch', '11:00', '12:00')],
+        NOW,
+        settings
+      );
+
+      expect(planned.map((notification) => notification.title)).toEqual([
+        'Start wrapping up offsite',
+        'Start wrapping up workshop',
+      ]);
+    });
+
+    it('orders reminders and nudges by when they fire', () => {
+      const planned = planReminders(
+        [event('design review', '09:00', '10:00'), event('1:1', '10:00', '10:30')],
+        NOW,
+        { ...settings, defaultOffsets: [10] }
+      );
+
+      expect(planned.map((notification) => `${notification.kind} ${notification.fireAt.toISOString()}`)).toEqual([
+        `reminder ${at('08:50')}`,
+        `reminder ${at('09:50')}`,
+        `transition ${at('09:55')}`,
+      ]);
+    });
+  });
+
+  it(`keeps only the first ${MAX_SCHEDULED_REMINDERS} to fire`, () => {
+    const events = Array.from({ length: MAX_SCHEDULED_REMINDERS + 10 }, (_, i) =>
+      event(`event-${i}`, '09:00', '09:30', {
+        start_time: new Date(Date.parse(at('09:00')) + i * 60 * 60 * 1000).toISOString(),
+        end_time: new Date(Date.parse(at('09:30')) + i * 60 * 60 * 1000).toISOString(),
+      })
+    );
+    const planned = planReminders(events.reverse(), NOW, SETTINGS);
+
+    expect(planned).toHaveLength(MAX_SCHEDULED_REMINDERS);
+    expect(planned[0].eventId).toBe('event-0');
+    expect(planned[planned.length - 1].eventId).toBe(`event-${MAX_SCHEDULED_REMINDERS - 1}`);
+  });
+});
+
+describe('syncReminders', () => {
+  const events = [event('standup', '09:00', '09:15'), event('review', '11:00', '12:00')];
+
+  it('schedules everything planned on an empty notifier', async () => {
+    const notifier = new FakeNotifier();
+    const planned = planReminders(events, NOW, SETTINGS);
+
+    await syncReminders(notifier, planned);
+
+    expect(notifier.calls).toEqual(planned.map((notification) => `schedule ${notification.id}`));
+    expect([...notifier.scheduled.keys()]).toEqual(planned.map((notification) => notification.id));
+  });
+
+  it('leaves unchanged reminders alone', async () => {
+    const notifier = new FakeNotifier();
+    const planned = planReminders(events, NOW, SETTINGS);
+    await syncReminders(notifier, planned);
+    notifier.calls = [];
+
+    await syncReminders(notifier, planReminders(events, NOW, SETTINGS));
+
+    expect(notifier.calls).toEqual([]);
+  });
+
+  it('moves the reminder of a rescheduled event', async () => {
+    const notifier = new FakeNotifier();
+    await syncReminders(notifier, planReminders(events, NOW, SETTINGS));
+    notifier.calls = [];
+
+    const moved = [events[0], { ...events[1], start_time: at('13:00'), end_time: at('14:00') }];
+    await syncReminders(notifier, planReminders(moved, NOW, SETTINGS));
+
+    expect(notifier.calls).toEqual([`cancel reminder:review:${at('10:50')}`, `schedule reminder:review:${at('12:50')}`]);
+  });
+
+  it('reschedules a reminder whose text changed', async () => {
+    const notifier = new FakeNotifier();
+    await syncReminders(notifier, planReminders(events, NOW, SETTINGS));
+    notifier.calls = [];
+
+    const renamed = [{ ...events[0], title: 'daily standup' }, events[1]];
+    await syncReminders(notifier, planReminders(renamed, NOW, SETTINGS));
+
+    expect(notifier.calls).toEqual([`cancel reminder:standup:${at('08:50')}`, `schedule reminder:standup:${at('08:50')}`]);
+    expect(notifier.scheduled.get(`reminder:standup:${at('08:50')}`)?.title).toBe('daily standup');
+  });
+
+  it('cancels reminders of deleted events', async () => {
+    const notifier = new FakeNotifier();
+    await syncReminders(notifier, planReminders(events, NOW, SETTINGS));
+    notifier.calls = [];
+
+    await syncReminders(notifier, planReminders([events[1]], NOW, SETTINGS));
+
+    expect(notifier.calls).toEqual([`cancel reminder:standup:${at('08:50')}`]);
+    expect([...notifier.scheduled.keys()]).toEqual([`reminder:review:${at('10:50')}`]);
+  });
+
+  it('cancels everything when reminders are turned off', async () => {
+    const notifier = new FakeNotifier();
+    await syncReminders(notifier, planReminders(events, NOW, SETTINGS));
+
+    await syncReminders(notifier, planReminders(events, NOW, { ...SETTINGS, enabled: false }));
+
+    expect(notifier.scheduled.size).toBe(0);
+  });
+});
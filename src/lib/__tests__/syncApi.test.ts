@@ -0,0 +1,234 @@
+import { CalendarEvent } from '../supabase';
+import {
+  SyncApiAuthError,
+  SyncApiConflictError,
+  SyncApiError,
+  SyncApiNotConfiguredError,
+  SyncApiTimeoutError,
+  createSyncApi,
+} from '../syncApi';
+import { createSyncApiStub } from '../syncApiStub';
+import { toSyncPayload } from '../googleSync';
+
+// The real client is only built to hand out sessions, which these tests supply themselves
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+const BASE_URL = 'https://sync.example.com';
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+function event(fields: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'event-1',
+    user_id: 'user-1',
+    google_event_id: null,
+    calendar_id: null,
+    title: 'Dentist',
+    description: null,
+    start_time: '2026-10-20T14:00:00.000Z',
+    end_time: '2026-10-20T15:00:00.000Z',
+    all_day: false,
+    time_zone: 'America/New_York',
+    color: null,
+    category_id: null,
+    recurrence_rule: null,
+    recurring_event_id: null,
+    original_start_time: null,
+    reminder_offsets: null,
+    task_id: null,
+    ical_uid: null,
+    sync_status: 'pending',
+    sync_error: null,
+    google_version: null,
+    synced_at: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...fields,
+  };
+}
+
+function setup({ token = 'token-1' as string | null, refreshed = 'token-2' as string | null, timeoutMs = 1000 } = {}) {
+  const stub = createSyncApiStub();
+  const getAccessToken = jest.fn(async () => token);
+  const refreshAccessToken = jest.fn(async () => refreshed);
+  const fetch = jest.fn(stub.fetch);
+  const api = createSyncApi({ baseUrl: BASE_URL, getAccessToken, refreshAccessToken, timeoutMs, fetch });
+  return { stub, api, getAccessToken, refreshAccessToken, fetch };
+}
+
+async function connect(api: ReturnType<typeof createSyncApi>) {
+  await api.storeTokens({
+    userId: 'user-1',
+    accessToken: 'google-access',
+    refreshToken: 'google-refresh',
+    expiresAt: '2026-10-19T09:00:00.000Z',
+  });
+}
+
+describe('createSyncApi', () => {
+  it('refuses every call without a backend URL', async () => {
+    const api = createSyncApi({
+      baseUrl: undefined,
+      getAccessToken: async () => 'token-1',
+      refreshAccessToken: async () => 'token-2',
+    });
+
+    expect(api.isConfigured).toBe(false);
+    await expect(api.getHealth()).rejects.toBeInstanceOf(SyncApiNotConfiguredError);
+  });
+
+  it('sends the session token with each request', async () => {
+    const { api, fetch } = setup();
+
+    await expect(api.getHealth()).resolves.toMatchObject({ googleAccess: 'not_connected' });
+    expect(new Headers(fetch.mock.calls[0][1]?.headers).get('Authorization')).toBe('Bearer token-1');
+  });
+
+  it('fails without calling the backend when signed out', async () => {
+    const { api, fetch } = setup({ token: null });
+
+    await expect(api.getHealth()).rejects.toEqual(new SyncApiAuthError('Not signed in'));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  describe('when the backend answers 401', () => {
+    it('refreshes the session once and retries with the new token', async () => {
+      const { stub, api, refreshAccessToken, fetch } = setup();
+      stub.rejectToken('token-1');
+
+      await expect(api.getHealth()).resolves.toMatchObject({ googleAccess: 'not_connected' });
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(new Headers(fetch.mock.calls[1][1]?.headers).get('Authorization')).toBe('Bearer token-2');
+    });
+
+    it('gives up when the refreshed token is refused too', async () => {
+      const { stub, api, refreshAccessToken } = setup();
+      stub.rejectToken('token-1');
+      stub.rejectToken('token-2');
+
+      const error = await api.getHealth().catch((caught) => caught);
+      expect(error).toBeInstanceOf(SyncApiAuthError);
+      expect(error).toMatchObject({ status: 401, message: 'Invalid or expired session' });
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it("gives up when the session can't be refreshed", async () => {
+      const { stub, api, fetch } = setup({ refreshed: null });
+      stub.rejectToken('token-1');
+
+      await expect(api.getHealth()).rejects.toBeInstanceOf(SyncApiAuthError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't refresh for other errors", async () => {
+      const { stub, api, refreshAccessToken } = setup();
+      stub.failNext(500, 1, { error: 'Backend is down' });
+
+      const error = await api.getHealth().catch((caught) => caught);
+      expect(error).toBeInstanceOf(SyncApiError);
+      expect(error).toMatchObject({ status: 500, message: 'Backend is down' });
+      expect(refreshAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeouts', () => {
+    it("gives up on a backend that doesn't answer in time", async () => {
+      const { stub, api } = setup({ timeoutMs: 20 });
+      stub.setLatency(200);
+
+      const error = await api.getHealth().catch((caught) => caught);
+      expect(error).toBeInstanceOf(SyncApiTimeoutError);
+      expect(error).toMatchObject({ status: null, timeoutMs: 20 });
+    });
+
+    it('waits for a slow backend within the timeout', async () => {
+      const { stub, api } = setup({ timeoutMs: 200 });
+      stub.setLatency(20);
+
+      await expect(api.getHealth()).resolves.toMatchObject({ googleAccess: 'not_connected' });
+    });
+  });
+
+  describe('conflicts', () => {
+    // Only the clock is faked; the client's timeout still needs real timers
+    beforeEach(() => {
+      jest.useFakeTimers({
+        now: NOW,
+        doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'nextTick', 'queueMicrotask'],
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const minutesLater = (minutes: number) => new Date(NOW.getTime() + minutes * 60 * 1000).toISOString();
+
+    it('creates and updates events while Google agrees', async () => {
+      const { stub, api } = setup();
+      await connect(api);
+
+      const { googleEventId } = await api.createEvent(toSyncPayload(event()));
+      jest.setSystemTime(new Date(minutesLater(5)));
+      await api.updateEvent('event-1', {
+        ...toSyncPayload(event({ title: 'Dentist (moved)' })),
+        googleEventId,
+        syncedAt: minutesLater(1),
+      });
+
+      expect(stub.events.get('event-1')?.version.title).toBe('Dentist (moved)');
+    });
+
+    it("answers 409 with Google's copy when the event changed there since it last synced", async () => {
+      const { stub, api } = setup();
+      await connect(api);
+      const { googleEventId } = await api.createEvent(toSyncPayload(event()));
+      jest.setSystemTime(new Date(minutesLater(5)));
+      stub.editInGoogle('event-1', { title: 'Dentist with Dr. Lee' });
+
+      const error = await api
+        .updateEvent('event-1', {
+          ...toSyncPayload(event({ title: 'Dentist (moved)' })),
+          googleEventId,
+          syncedAt: minutesLater(1),
+        })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(SyncApiConflictError);
+      expect(error).toMatchObject({ status: 409, message: 'Changed in Google Calendar too' });
+      expect(error.remote).toMatchObject({ title: 'Dentist with Dr. Lee', start_time: '2026-10-20T14:00:00.000Z' });
+      expect(stub.events.get('event-1')?.version.title).toBe('Dentist with Dr. Lee');
+    });
+
+    it('treats an event that never synced as a conflict', async () => {
+      const { api } = setup();
+      await connect(api);
+      const { googleEventId } = await api.createEvent(toSyncPayload(event()));
+
+      await expect(
+        api.updateEvent('event-1', { ...toSyncPayload(event()), googleEventId, syncedAt: null })
+      ).rejects.toBeInstanceOf(SyncApiConflictError);
+    });
+
+    it('reads a 409 without a copy of the event', async () => {
+      const { stub, api } = setup();
+      await connect(api);
+      stub.failNext(409, 1, { error: 'Changed in Google Calendar too' });
+
+      const error = await api.createEvent(toSyncPayload(event())).catch((caught) => caught);
+      expect(error).toBeInstanceOf(SyncApiConflictError);
+      expect(error.remote).toBeNull();
+    });
+  });
+
+  it('reports a malformed request body as a 400', async () => {
+    const { api } = setup();
+    await connect(api);
+    const { googleEventId } = await api.createEvent(toSyncPayload(event()));
+
+    const error = await api
+      .updateEvent('event-1', { googleEventId } as Parameters<typeof api.updateEvent>[1])
+      .catch((caught) => caught);
+    expect(error).toMatchObject({ status: 400, message: 'Malformed body for PATCH /api/sync/events/event-1' });
+  });
+});
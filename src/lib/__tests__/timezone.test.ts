@@ -0,0 +1,137 @@
+import { getRangeBounds, minutesIntoDay, startOfDayInZone, zonedDateTime } from '../timezone';
+
+const NEW_YORK = 'America/New_York';
+const KOLKATA = 'Asia/Kolkata';
+const SYDNEY = 'Australia/Sydney';
+
+// 2026 transitions:
+// New York springs forward 8 March at 2:00 and falls back 1 November at 2:00.
+// Sydney falls back 5 April at 3:00 and springs forward 4 October at 2:00.
+// Kolkata keeps +5:30 all year.
+
+describe('zonedDateTime', () => {
+  const read = (zone: string, [year, month, day, hours, minutes]: readonly number[]) =>
+    zonedDateTime(zone, year, month, day, hours, minutes).toISOString();
+
+  it.each([
+    ['New York in winter', NEW_YORK, [2026, 0, 15, 9, 0], '2026-01-15T14:00:00.000Z'],
+    ['New York in summer', NEW_YORK, [2026, 6, 15, 9, 0], '2026-07-15T13:00:00.000Z'],
+    ['Kolkata', KOLKATA, [2026, 9, 19, 9, 0], '2026-10-19T03:30:00.000Z'],
+    ['Kolkata at midnight', KOLKATA, [2026, 2, 8, 0, 0], '2026-03-07T18:30:00.000Z'],
+    ['Sydney in summer', SYDNEY, [2026, 0, 15, 9, 0], '2026-01-14T22:00:00.000Z'],
+    ['Sydney in winter', SYDNEY, [2026, 6, 15, 9, 0], '2026-07-14T23:00:00.000Z'],
+  ] as const)('reads a wall-clock time in %s', (_, zone, fields, expected) => {
+    expect(read(zone, fields)).toBe(expected);
+  });
+
+  describe('on the spring-forward day', () => {
+    it.each([
+      ['New York, before the jump', NEW_YORK, [2026, 2, 8, 1, 30], '2026-03-08T06:30:00.000Z'],
+      ['New York, after the jump', NEW_YORK, [2026, 2, 8, 3, 0], '2026-03-08T07:00:00.000Z'],
+      ['Sydney, before the jump', SYDNEY, [2026, 9, 4, 1, 30], '2026-10-03T15:30:00.000Z'],
+      ['Sydney, after the jump', SYDNEY, [2026, 9, 4, 3, 0], '2026-10-03T16:00:00.000Z'],
+    ] as const)('reads %s', (_, zone, fields, expected) => {
+      expect(read(zone, fields)).toBe(expected);
+    });
+
+    it.each([
+      // 2:30 never happens; it moves forward by the hour to 3:30
+      ['New York', NEW_YORK, [2026, 2, 8, 2, 30], '2026-03-08T07:30:00.000Z'],
+      ['Sydney', SYDNEY, [2026, 9, 4, 2, 30], '2026-10-03T16:30:00.000Z'],
+    ] as const)('moves a time in the gap past the jump in %s', (_, zone, fields, expected) => {
+      expect(read(zone, fields)).toBe(expected);
+    });
+  });
+
+  describe('on the fall-back day', () => {
+    it.each([
+      // 1:30 happens twice in New York and 2:30 twice in Sydney; the first is taken
+      ['New York', NEW_YORK, [2026, 10, 1, 1, 30], '2026-11-01T05:30:00.000Z'],
+      ['Sydney', SYDNEY, [2026, 3, 5, 2, 30], '2026-04-04T15:30:00.000Z'],
+    ] as const)('takes the first of a repeated time in %s', (_, zone, fields, expected) => {
+      expect(read(zone, fields)).toBe(expected);
+    });
+
+    it.each([
+      ['New York', NEW_YORK, [2026, 10, 1, 3, 0], '2026-11-01T08:00:00.000Z'],
+      ['Sydney', SYDNEY, [2026, 3, 5, 4, 0], '2026-04-04T18:00:00.000Z'],
+    ] as const)('reads times after the change with the new offset in %s', (_, zone, fields, expected) => {
+      expect(read(zone, fields)).toBe(expected);
+    });
+  });
+
+  it('rolls out-of-range fields over like Date', () => {
+    expect(zonedDateTime(NEW_YORK, 2026, 0, 32).toISOString()).toBe('2026-02-01T05:00:00.000Z');
+    expect(zonedDateTime(KOLKATA, 2026, 11, 31, 24, 30).toISOString()).toBe('2026-12-31T19:00:00.000Z');
+    expect(zonedDateTime(SYDNEY, 2026, 9, 3, 0, 24 * 60 + 150).toISOString()).toBe('2026-10-03T16:30:00.000Z');
+  });
+});
+
+describe('getRangeBounds', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  it.each([
+    ['an ordinary New York day', NEW_YORK, '2026-01-15', 1, '2026-01-15T05:00:00.000Z', '2026-01-16T04:59:59.999Z', 24],
+    ['the New York spring-forward day', NEW_YORK, '2026-03-08', 1, '2026-03-08T05:00:00.000Z', '2026-03-09T03:59:59.999Z', 23],
+    ['the New York fall-back day', NEW_YORK, '2026-11-01', 1, '2026-11-01T04:00:00.000Z', '2026-11-02T04:59:59.999Z', 25],
+    ['the Sydney spring-forward day', SYDNEY, '2026-10-04', 1, '2026-10-03T14:00:00.000Z', '2026-10-04T12:59:59.999Z', 23],
+    ['the Sydney fall-back day', SYDNEY, '2026-04-05', 1, '2026-04-04T13:00:00.000Z', '2026-04-05T13:59:59.999Z', 25],
+    ['a Kolkata week', KOLKATA, '2026-10-19', 7, '2026-10-18T18:30:00.000Z', '2026-10-25T18:29:59.999Z', 7 * 24],
+    ['a New York week across the fall-back', NEW_YORK, '2026-10-29', 7, '2026-10-29T04:00:00.000Z', '2026-11-05T04:59:59.999Z', 7 * 24 + 1],
+    ['a Sydney month across the spring-forward', SYDNEY, '2026-09-20', 30, '2026-09-19T14:00:00.000Z', '2026-10-19T12:59:59.999Z', 30 * 24 - 1],
+  ] as const)('covers %s', (_, zone, startDateKey, dayCount, start, end, hours) => {
+    const { rangeStart, rangeEnd } = getRangeBounds(startDateKey, dayCount, zone);
+
+    expect(rangeStart.toISOString()).toBe(start);
+    expect(rangeEnd.toISOString()).toBe(end);
+    expect(rangeEnd.getTime() + 1 - rangeStart.getTime()).toBe(hours * HOUR);
+  });
+
+  it('runs up to the start of the next range', () => {
+    const week = getRangeBounds('2026-03-02', 7, NEW_YORK);
+    const nextWeek = getRangeBounds('2026-03-09', 7, NEW_YORK);
+
+    expect(nextWeek.rangeStart.getTime() - week.rangeEnd.getTime()).toBe(1);
+  });
+});
+
+describe('minutesIntoDay', () => {
+  const minutesAt = (zone: string, dateKey: string, instant: string) =>
+    minutesIntoDay(new Date(instant), startOfDayInZone(dateKey, zone), zone);
+
+  it.each([
+    ['Kolkata', KOLKATA, '2026-10-19', '2026-10-19T03:45:00.000Z', 9 * 60 + 15],
+    ['New York', NEW_YORK, '2026-01-15', '2026-01-15T22:30:00.000Z', 17 * 60 + 30],
+    ['Sydney', SYDNEY, '2026-01-15', '2026-01-14T13:00:00.000Z', 0],
+  ] as const)('counts wall-clock minutes in %s', (_, zone, dateKey, instant, minutes) => {
+    expect(minutesAt(zone, dateKey, instant)).toBe(minutes);
+  });
+
+  describe('on the spring-forward day', () => {
+    it.each([
+      ['New York, 1:00', NEW_YORK, '2026-03-08', '2026-03-08T06:00:00.000Z', 60],
+      // 3:00 comes an hour after 1:00 but sits at 3:00 on the grid
+      ['New York, 3:00', NEW_YORK, '2026-03-08', '2026-03-08T07:00:00.000Z', 180],
+      ['New York, 23:00', NEW_YORK, '2026-03-08', '2026-03-09T03:00:00.000Z', 23 * 60],
+      ['Sydney, 1:00', SYDNEY, '2026-10-04', '2026-10-03T15:00:00.000Z', 60],
+      ['Sydney, 3:00', SYDNEY, '2026-10-04', '2026-10-03T16:00:00.000Z', 180],
+      ['Sydney, 23:00', SYDNEY, '2026-10-04', '2026-10-04T12:00:00.000Z', 23 * 60],
+    ] as const)('places %s by the clock', (_, zone, dateKey, instant, minutes) => {
+      expect(minutesAt(zone, dateKey, instant)).toBe(minutes);
+    });
+  });
+
+  describe('on the fall-back day', () => {
+    it.each([
+      // Both 1:30s in New York and both 2:30s in Sydney land on the same row
+      ['the first New York 1:30', NEW_YORK, '2026-11-01', '2026-11-01T05:30:00.000Z', 90],
+      ['the second New York 1:30', NEW_YORK, '2026-11-01', '2026-11-01T06:30:00.000Z', 90],
+      ['New York, 3:00', NEW_YORK, '2026-11-01', '2026-11-01T08:00:00.000Z', 180],
+      ['the first Sydney 2:30', SYDNEY, '2026-04-05', '2026-04-04T15:30:00.000Z', 150],
+      ['the second Sydney 2:30', SYDNEY, '2026-04-05', '2026-04-04T16:30:00.000Z', 150],
+      ['Sydney, 23:00', SYDNEY, '2026-04-05', '2026-04-05T13:00:00.000Z', 23 * 60],
+    ] as const)('places %s by the clock', (_, zone, dateKey, instant, minutes) => {
+      expect(minutesAt(zone, dateKey, instant)).toBe(minutes);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { CalendarEvent, GoogleEventVersion } from './supabase';
+
+/** What to do when an event changed both here and in Google Calendar since it last synced. */
+export type ConflictPolicy = 'prefer_google' | 'prefer_local' | 'ask';
+
+// In the order they're offered in settings and on the conflict sheet
+export const CONFLICT_POLICY_OPTIONS: { policy: ConflictPolicy; label: string }[] = [
+  { policy: 'ask', label: 'Ask me' },
+  { policy: 'prefer_google', label: 'Use Google' },
+  { policy: 'prefer_local', label: 'Use this app' },
+];
+
+export type ConflictSide = 'local' | 'google';
+
+// What the resolution sheet offers a choice on, in order. Times move as one so an
+// event can't end up with Google's start and the app's end.
+export const CONFLICT_FIELDS = ['title', 'description', 'time', 'recurrence_rule'] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+const FIELD_COLUMNS: Record<ConflictField, (keyof Omit<GoogleEventVersion, 'updated_at'>)[]> = {
+  title: ['title'],
+  description: ['description'],
+  time: ['start_time', 'end_time', 'all_day'],
+  recurrence_rule: ['recurrence_rule'],
+};
+
+function isAfter(timestamp: string, since: string | null) {
+  return since === null || Date.parse(timestamp) > Date.parse(since);
+}
+
+/** Edited in the app since the last successful sync with Google. */
+export function hasLocalChanges(event: CalendarEvent) {
+  return isAfter(event.updated_at, event.synced_at);
+}
+
+/** Edited in Google Calendar since the last successful sync. */
+export function hasRemoteChanges(event: CalendarEvent, remote: GoogleEventVersion) {
+  return isAfter(remote.updated_at, event.synced_at);
+}
+
+function sameValue(local: CalendarEvent, remote: GoogleEventVersion, field: ConflictField) {
+  if (field === 'time') {
+    // Google and Postgres format the same instant differently
+    return (
+      local.all_day === remote.all_day &&
+      Date.parse(local.start_time) === Date.parse(remote.start_time) &&
+      Date.parse(local.end_time) === Date.parse(remote.end_time)
+    );
+  }
+  if (field === 'recurrence_rule') {
+    return JSON.stringify(local.recurrence_rule) === JSON.stringify(remote.recurrence_rule);
+  }
+  if (field === 'description') {
+    // Google drops empty descriptions
+    return (local.description || null) === (remote.description || null);
+  }
+  return local[field] === remote[field];
+}
+
+/** Fields where the app's copy and Google's copy disagree. */
+export function getConflictingFields(local: CalendarEvent, remote: GoogleEventVersion): ConflictField[] {
+  return CONFLICT_FIELDS.filter((field) => !sameValue(local, remote, field));
+}
+
+/**
+ * A real conflict: both sides changed since the last sync and ended up different.
+ * Identical edits on both sides, or a change on one side only, need no decision.
+ */
+export function isConflict(local: CalendarEvent, remote: GoogleEventVersion) {
+  return (
+    hasLocalChanges(local) &&
+    hasRemoteChanges(local, remote) &&
+    getConflictingFields(local, remote).length > 0
+  );
+}
+
+/**
+ * Updates that settle a conflict, taking each field from the side `choose` picks.
+ * The event counts as synced with Google's copy, so the push that follows overwrites
+ * Google instead of being refused again.
+ */
+export function resolveConflict(
+  local: CalendarEvent,
+  remote: GoogleEventVersion,
+  choose: (field: ConflictField) => ConflictSide
+): Partial<CalendarEvent> {
+  const updates: Partial<CalendarEvent> = {};
+  for (const field of getConflictingFields(local, remote)) {
+    if (choose(field) === 'google') {
+      for (const column of FIELD_COLUMNS[field]) {
+        Object.assign(updates, { [column]: remote[column] });
+      }
+    }
+  }
+
+  return {
+    ...updates,
+    sync_status: 'pending',
+    sync_error: null,
+    google_version: null,
+    synced_at: remote.updated_at,
+  };
+}
@@ -0,0 +1,147 @@
+import { CalendarEvent } from './supabase';
+import { TimeFormat } from './preferences';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+/** Local calendar date as `YYYY-MM-DD`. */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Local midnight of a `YYYY-MM-DD` date. */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Time of day like `3:30 PM` or `15:30`, in the device's zone unless `timeZone` is given. */
+export function formatTime(date: Date, timeZone?: string, timeFormat: TimeFormat = '12h'): string {
+  return date.toLocaleTimeString('en-US', {
+    hour: timeFormat === '24h' ? '2-digit' : 'numeric',
+    minute: '2-digit',
+    // h23 rather than hour12: false, which shows midnight as 24:00 in some engines
+    hourCycle: timeFormat === '24h' ? 'h23' : 'h12',
+    timeZone,
+  });
+}
+
+/** A length of time such as `45 min` or `1 hr 30 min`. */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+}
+
+/** How long ago `date` was, like `5 min ago` or `3 days ago`; older than a week shows the date. */
+export function formatTimeAgo(date: Date, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - date.getTime()) / (60 * 1000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return days === 1 ? 'yesterday' : `${days} days ago`;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function startOfLocalDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/** Local midnight of the first day of the week containing `date` (0 = Sunday). */
+export function startOfWeek(date: Date, weekStartsOn: number = 0): Date {
+  const result = startOfLocalDay(date);
+  result.setDate(result.getDate() - ((result.getDay() - weekStartsOn + 7) % 7));
+  return result;
+}
+
+/**
+ * All-day events are date-only: they are stored as UTC midnights with an exclusive end,
+ * the same shape Google uses for `{ date }` events. Reading them back through UTC
+ * accessors keeps the date stable no matter which timezone the device is in.
+ */
+export function allDayTimes(startDate: string, days: number) {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const start = Date.UTC(year, month - 1, day);
+  return {
+    start_time: new Date(start).toISOString(),
+    end_time: new Date(start + days * DAY).toISOString(),
+  };
+}
+
+/** Start and exclusive end dates (`YYYY-MM-DD`) of an all-day event. */
+export function getAllDayDates(event: Pick<CalendarEvent, 'start_time' | 'end_time'>) {
+  const startDate = new Date(event.start_time).toISOString().slice(0, 10);
+  let endDate = new Date(event.end_time).toISOString().slice(0, 10);
+  // Guard against rows saved with an inclusive or zero-length end
+  if (endDate <= startDate) {
+    endDate = new Date(Date.parse(`${startDate}T00:00:00Z`) + DAY).toISOString().slice(0, 10);
+  }
+  return { startDate, endDate };
+}
+
+function formatDay(date: Date) {
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** When an event happens, like `Tue, Oct 20 · 3:30 PM - 4:15 PM` or `Tue, Oct 20 · All day, 2 days`. */
+export function formatEventWhen(
+  event: Pick<CalendarEvent, 'start_time' | 'end_time' | 'all_day'>,
+  timeFormat: TimeFormat = '12h'
+) {
+  if (event.all_day) {
+    const { startDate, endDate } = getAllDayDates(event);
+    const start = parseDateKey(startDate);
+    const days = Math.round((parseDateKey(endDate).getTime() - start.getTime()) / DAY);
+    return days > 1 ? `${formatDay(start)} · All day, ${days} days` : `${formatDay(start)} · All day`;
+  }
+
+  const start = new Date(event.start_time);
+  const end = new Date(event.end_time);
+  return `${formatDay(start)} · ${formatTime(start, undefined, timeFormat)} - ${formatTime(end, undefined, timeFormat)}`;
+}
+
+/** Whether an event belongs in the all-day lane rather than on the hour grid. */
+export function isAllDayLaneEvent(event: CalendarEvent) {
+  if (event.all_day) return true;
+  return new Date(event.end_time).getTime() - new Date(event.start_time).getTime() >= DAY;
+}
+
+/**
+ * Which day of a lane event the given local date is, e.g. `{ day: 2, of: 3 }`,
+ * or null if the event doesn't cover that date.
+ */
+export function getEventDayIndex(event: CalendarEvent, date: Date) {
+  const dateKey = toDateKey(date);
+  let startDate: string;
+  let endDate: string;
+
+  if (event.all_day) {
+    ({ startDate, endDate } = getAllDayDates(event));
+  } else {
+    const end = new Date(event.end_time);
+    startDate = toDateKey(new Date(event.start_time));
+    // A timed event ending exactly at midnight doesn't occupy the following day
+    endDate = toDateKey(addDays(startOfLocalDay(new Date(end.getTime() - 1)), 1));
+  }
+
+  if (dateKey < startDate || dateKey >= endDate) return null;
+
+  const dayCount = (from: string, to: string) =>
+    Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY);
+
+  return { day: dayCount(startDate, dateKey) + 1, of: dayCount(startDate, endDate) };
+}
@@ -0,0 +1,18 @@
+import { CalendarEvent } from './supabase';
+
+export const EVENT_COLORS = ['#F97316', '#10B981', '#3B82F6', '#8B5CF6', '#EC4899'];
+
+export const DEFAULT_EVENT_COLOR = EVENT_COLORS[0];
+
+interface ColorFallbacks {
+  categoryColor?: string | null;
+  calendarColor?: string | null;
+}
+
+/** The event's own color, else its category's, else its calendar's. */
+export function getEventColor(
+  event: Pick<CalendarEvent, 'color'>,
+  { categoryColor, calendarColor }: ColorFallbacks = {}
+): string {
+  return event.color ?? categoryColor ?? calendarColor ?? DEFAULT_EVENT_COLOR;
+}
@@ -0,0 +1,124 @@
+import { CalendarEvent } from './supabase';
+import { getDeviceTimeZone, minutesIntoDay } from './timezone';
+
+export interface EventLayout {
+  event: CalendarEvent;
+  // Vertical placement in wall-clock minutes from the start of the day
+  startMinute: number;
+  endMinute: number;
+  // Horizontal placement: the event occupies `span` of `columns` equal columns starting at `column`
+  column: number;
+  span: number;
+  columns: number;
+  // True when the event runs past the edge of the day and has been clipped
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+export interface LayoutOptions {
+  // Events shorter than this still take up this much room, so they are laid out as if they did
+  minDurationMinutes?: number;
+  // Zone whose clock the grid is labelled with; defaults to the device's
+  timeZone?: string;
+}
+
+interface Placement {
+  layout: EventLayout;
+  visualEnd: number;
+}
+
+/**
+ * Positions events on a single day's time grid, Google-Calendar style.
+ *
+ * Events that overlap (directly or through a chain of other events) form a cluster that
+ * shares the same number of columns. Each event takes the leftmost free column and then
+ * widens into any columns to its right that stay free for its whole duration.
+ * Events starting before `dayStart` or ending after `dayEnd` are clipped to the day.
+ */
+export function layoutDayEvents(
+  events: CalendarEvent[],
+  dayStart: Date,
+  dayEnd: Date,
+  { minDurationMinutes = 30, timeZone = getDeviceTimeZone() }: LayoutOptions = {}
+): EventLayout[] {
+  // Always a full 24 hours of clock time, even on 23- and 25-hour DST days
+  const dayMinutes = minutesIntoDay(dayEnd, dayStart, timeZone);
+
+  const placements: Placement[] = events
+    .map((event) => ({
+      event,
+      start: minutesIntoDay(new Date(event.start_time), dayStart, timeZone),
+      end: minutesIntoDay(new Date(event.end_time), dayStart, timeZone),
+    }))
+    // Keep events that touch the day; one ending exactly at midnight belongs to the day before
+    .filter(({ start, end }) => start < dayMinutes && (end > 0 || start >= 0))
+    .map(({ event, start, end }) => {
+      const startMinute = Math.max(0, start);
+      const endMinute = Math.min(dayMinutes, Math.max(end, startMinute));
+
+      return {
+        layout: {
+          event,
+          startMinute,
+          endMinute,
+          column: 0,
+          span: 1,
+          columns: 1,
+          continuesBefore: start < 0,
+          continuesAfter: end > dayMinutes,
+        },
+        visualEnd: Math.min(dayMinutes, Math.max(endMinute, startMinute + minDurationMinutes)),
+      };
+    })
+    // Earlier first; for equal starts, longer events go left
+    .sort((a, b) => a.layout.startMinute - b.layout.startMinute || b.visualEnd - a.visualEnd);
+
+  let cluster: Placement[] = [];
+  let clusterEnd = -Infinity;
+
+  for (const placement of placements) {
+    if (placement.layout.startMinute >= clusterEnd) {
+      finishCluster(cluster);
+      cluster = [];
+    }
+    cluster.push(placement);
+    clusterEnd = Math.max(clusterEnd, placement.visualEnd);
+  }
+  finishCluster(cluster);
+
+  return placements.map(({ layout }) => layout);
+}
+
+function overlaps(a: Placement, b: Placement) {
+  return a.layout.startMinute < b.visualEnd && b.layout.startMinute < a.visualEnd;
+}
+
+function finishCluster(cluster: Placement[]) {
+  if (cluster.length === 0) return;
+
+  const columns: Placement[][] = [];
+
+  for (const placement of cluster) {
+    let column = columns.findIndex((placed) => placed.every((other) => !overlaps(placement, other)));
+    if (column === -1) {
+      column = columns.length;
+      columns.push([]);
+    }
+    columns[column].push(placement);
+    placement.layout.column = column;
+  }
+
+  for (const placement of cluster) {
+    const { layout } = placement;
+    layout.columns = columns.length;
+
+    let span = 1;
+    while (
+      layout.column + span < columns.length &&
+      columns[layout.column + span].every((other) => !overlaps(placement, other))
+    ) {
+      span++;
+    }
+    layout.span = span;
+  }
+}
@@ -0,0 +1,67 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Notifier } from './reminders';
+
+const CHANNEL_ID = 'reminders';
+// Identifiers of notifications scheduled by the reminders subsystem start with one of these
+const REMINDER_ID_PATTERN = /^(reminder|transition):/;
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/** Asks for notification permission if it hasn't been decided yet. */
+export async function ensureNotificationPermission() {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Event reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) {
+    return current.granted;
+  }
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+export const expoNotifier: Notifier = {
+  async getScheduled() {
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+    return requests
+      .filter((request) => REMINDER_ID_PATTERN.test(request.identifier))
+      .map((request) => ({
+        id: request.identifier,
+        title: request.content.title ?? '',
+        body: request.content.body ?? '',
+      }));
+  },
+
+  async schedule(notification) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: { eventId: notification.eventId, kind: notification.kind },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.fireAt,
+        channelId: CHANNEL_ID,
+      },
+    });
+  },
+
+  async cancel(id) {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  },
+};
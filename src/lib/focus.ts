@@ -0,0 +1,61 @@
+import { CalendarEvent } from './supabase';
+import { isAllDayLaneEvent } from './dates';
+
+const MINUTE = 60 * 1000;
+
+export interface FocusState {
+  // The event happening right now; the latest-starting one if several overlap
+  current: CalendarEvent | null;
+  // The first event starting after now, other than the current one
+  next: CalendarEvent | null;
+  // 0–1 through the current event
+  progress: number;
+  // Minutes left in the current event, rounded up
+  minutesLeft: number | null;
+  // Minutes until the next event starts, rounded up
+  minutesUntilNext: number | null;
+  // Free minutes between the end of the current event (or now) and the next one.
+  // Negative when the next event starts before the current one ends.
+  gapMinutes: number | null;
+}
+
+function minutesBetween(from: number, to: number) {
+  return Math.ceil((to - from) / MINUTE);
+}
+
+/**
+ * What the user should be focused on at `now`. Only timed events count: all-day events
+ * don't have a start to count down to or an end to run out of.
+ */
+export function getFocusState(events: CalendarEvent[], now: Date): FocusState {
+  const time = now.getTime();
+  const timedEvents = events
+    .filter((event) => !isAllDayLaneEvent(event))
+    .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time));
+
+  const current = timedEvents
+    .filter((event) => Date.parse(event.start_time) <= time && Date.parse(event.end_time) > time)
+    .pop() ?? null;
+  const next = timedEvents.find((event) => event !== current && Date.parse(event.start_time) > time) ?? null;
+
+  let progress = 0;
+  let minutesLeft: number | null = null;
+  if (current) {
+    const start = Date.parse(current.start_time);
+    const end = Date.parse(current.end_time);
+    progress = Math.min(Math.max((time - start) / (end - start), 0), 1);
+    minutesLeft = minutesBetween(time, end);
+  }
+
+  let minutesUntilNext: number | null = null;
+  let gapMinutes: number | null = null;
+  if (next) {
+    const nextStart = Date.parse(next.start_time);
+    minutesUntilNext = minutesBetween(time, nextStart);
+    gapMinutes = current
+      ? Math.round((nextStart - Date.parse(current.end_time)) / MINUTE)
+      : minutesUntilNext;
+  }
+
+  return { current, next, progress, minutesLeft, minutesUntilNext, gapMinutes };
+}
@@ -0,0 +1,70 @@
+import { CalendarEvent } from './supabase';
+import { getAllDayDates } from './dates';
+import { toRecurrenceLines } from './recurrence';
+import { syncApi } from './syncApi';
+
+// Without a backend events live only in Supabase and nothing is pushed to Google
+export const isGoogleSyncEnabled = syncApi.isConfigured;
+
+/**
+ * Google Calendar's EventDateTime: a `date` for all-day events, a `dateTime` otherwise.
+ * `timeZone` tells Google which zone to expand recurrences in.
+ */
+export type GoogleEventDateTime = { date: string } | { dateTime: string; timeZone?: string };
+
+export interface EventSyncPayload extends CalendarEvent {
+  start: GoogleEventDateTime;
+  end: GoogleEventDateTime;
+  // RRULE/EXDATE lines for recurring events, as in Google's `recurrence` field
+  recurrence: string[];
+  // For overrides: which occurrence of `recurring_event_id` this replaces
+  originalStartTime: GoogleEventDateTime | null;
+}
+
+function toGoogleDateTime(timestamp: string, allDay: boolean, timeZone: string | null): GoogleEventDateTime {
+  const iso = new Date(timestamp).toISOString();
+  if (allDay) return { date: iso.slice(0, 10) };
+  return timeZone ? { dateTime: iso, timeZone } : { dateTime: iso };
+}
+
+/**
+ * Body sent to `/api/sync/events`. The event row is passed through unchanged and the
+ * Google-shaped fields are added so all-day events go up as plain dates instead of
+ * timestamps the backend would have to reinterpret in some timezone.
+ */
+export function toSyncPayload(event: CalendarEvent): EventSyncPayload {
+  const { startDate, endDate } = getAllDayDates(event);
+
+  return {
+    ...event,
+    start: event.all_day ? { date: startDate } : toGoogleDateTime(event.start_time, false, event.time_zone),
+    end: event.all_day ? { date: endDate } : toGoogleDateTime(event.end_time, false, event.time_zone),
+    recurrence: toRecurrenceLines(event),
+    originalStartTime: event.original_start_time
+      ? toGoogleDateTime(event.original_start_time, event.all_day, event.time_zone)
+      : null,
+  };
+}
+
+/**
+ * Creates the event in Google Calendar, or updates it if it's already there.
+ * Resolves with the Google event id. Updates carry `syncedAt` so the backend can
+ * refuse with a SyncApiConflictError when Google's copy changed after it.
+ */
+export async function pushEventToGoogle(event: CalendarEvent): Promise<string | null> {
+  if (event.google_event_id) {
+    await syncApi.updateEvent(event.id, {
+      ...toSyncPayload(event),
+      googleEventId: event.google_event_id,
+      syncedAt: event.synced_at,
+    });
+    return event.google_event_id;
+  }
+
+  const result = await syncApi.createEvent(toSyncPayload(event));
+  return result.googleEventId ?? null;
+}
+
+export async function deleteEventFromGoogle(eventId: string, googleEventId: string) {
+  await syncApi.deleteEvent(eventId, { googleEventId });
+}
@@ -0,0 +1,433 @@
+import { CalendarEvent, RecurrenceRule, Weekday } from './supabase';
+import { getAllDayDates } from './dates';
+import { toRecurrenceLines } from './recurrence';
+import { getDeviceTimeZone, getZonedParts, isValidTimeZone, zonedDateTime } from './timezone';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PRODUCT_ID = '-//Intentive//Intentive//EN';
+
+// Exported UIDs are `<event id>@<domain>`, unique across everyone's calendars
+const UID_DOMAIN = 'intentive.life';
+
+// Content lines longer than this many octets are folded (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+
+// Indexed by Date#getUTCDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: Record<string, RecurrenceRule['frequency']> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+};
+
+/** An event read from an iCalendar file, before it belongs to anyone. */
+export interface ICalEvent
+  extends Pick<CalendarEvent, 'title' | 'description' | 'start_time' | 'end_time' | 'all_day' | 'time_zone' | 'recurrence_rule'> {
+  uid: string | null;
+  // Set on a changed occurrence: the original start of the occurrence it replaces
+  recurrence_id: string | null;
+}
+
+export interface ICalParseResult {
+  events: ICalEvent[];
+  // Series with rules this app can't repeat; they're kept as their first occurrence
+  unsupportedRecurrences: number;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface DateValue {
+  date: Date;
+  dateOnly: boolean;
+  // The zone a local DATE-TIME was read in; null for dates and UTC times
+  timeZone: string | null;
+}
+
+/** Joins folded lines back together: a line break followed by a space or tab continues the line. */
+function unfold(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+/** `NAME;PARAM=value;PARAM="quoted: value":value`. Null for lines without a value. */
+function parseContentLine(line: string): ContentLine | null {
+  const segments: string[] = [];
+  let inQuotes = false;
+  let segmentStart = 0;
+  let index = 0;
+
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      segments.push(line.slice(segmentStart, index));
+      segmentStart = index + 1;
+    } else if (!inQuotes && char === ':') {
+      break;
+    }
+  }
+  if (index === line.length) return null;
+  segments.push(line.slice(segmentStart, index));
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const separator = param.indexOf('=');
+    if (separator === -1) continue;
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * An IANA zone for a TZID. Some producers prefix the name with a path, like
+ * `/mozilla.org/20050126_1/America/New_York`; Windows names aren't recognized.
+ */
+function resolveTimeZone(tzid: string): string | null {
+  if (isValidTimeZone(tzid)) return tzid;
+  const lastTwo = tzid.split('/').slice(-2).join('/');
+  return lastTwo && isValidTimeZone(lastTwo) ? lastTwo : null;
+}
+
+/**
+ * A DATE (`20261019`), UTC DATE-TIME (`20261019T090000Z`) or local DATE-TIME, which is
+ * read in its TZID, or in `fallbackZone` when it is floating or the zone is unknown.
+ */
+function parseDateValue(value: string, params: Record<string, string>, fallbackZone: string): DateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day)), dateOnly: true, timeZone: null };
+  }
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)),
+      dateOnly: false,
+      timeZone: null,
+    };
+  }
+
+  const timeZone = (params.TZID && resolveTimeZone(params.TZID)) || fallbackZone;
+  return {
+    date: zonedDateTime(timeZone, +year, +month - 1, +day, +hours, +minutes, +seconds),
+    dateOnly: false,
+    timeZone,
+  };
+}
+
+/** A DURATION such as `PT1H30M` or `P1D`, in milliseconds. */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+  const ms = ((+weeks * 7 + +days) * 24 * 3600 + +hours * 3600 + +minutes * 60 + +seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * An RRULE as a RecurrenceRule, or null when it needs more than the app can expand:
+ * yearly or sub-daily repeats, "2nd Tuesday" style days, set positions and the like.
+ */
+function parseRule(value: string, start: DateValue, timeZone: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, partValue = ''] = part.split('=');
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  let frequency = FREQUENCIES[parts.FREQ];
+  if (!frequency) return null;
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+  if (!(interval >= 1)) return null;
+
+  const startParts = getZonedParts(start.date, start.dateOnly ? 'UTC' : timeZone);
+  const supported = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST']);
+  if (Object.keys(parts).some((key) => !supported.has(key))) return null;
+  // Only the start's own day of the month, which is what monthly repeats use anyway
+  if (parts.BYMONTHDAY && (frequency !== 'monthly' || parseInt(parts.BYMONTHDAY, 10) !== startParts.day)) {
+    return null;
+  }
+
+  let byWeekday: Weekday[] | null = null;
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',');
+    if (!days.every((day) => WEEKDAYS.includes(day as Weekday))) return null;
+    byWeekday = days as Weekday[];
+    // Every weekday is daily with BYDAY in some apps; here it's a weekly rule
+    if (frequency === 'daily' && interval === 1) frequency = 'weekly';
+    if (frequency !== 'weekly') return null;
+  }
+
+  let until: string | null = null;
+  if (parts.UNTIL) {
+    const untilValue = parseDateValue(parts.UNTIL, {}, timeZone);
+    if (!untilValue) return null;
+    // A date-only end on a timed series includes that whole day
+    until = untilValue.dateOnly && !start.dateOnly
+      ? zonedDateTime(
+        timeZone,
+        untilValue.date.getUTCFullYear(),
+        untilValue.date.getUTCMonth(),
+        untilValue.date.getUTCDate(),
+        23,
+        59,
+        59
+      ).toISOString()
+      : untilValue.date.toISOString();
+  }
+
+  return {
+    frequency,
+    interval,
+    by_weekday: byWeekday,
+    until,
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) || null : null,
+    exceptions: [],
+  };
+}
+
+interface ParsedEvent {
+  event: ICalEvent;
+  cancelled: boolean;
+  unsupportedRecurrence: boolean;
+}
+
+function readEvent(lines: ContentLine[], fallbackZone: string): ParsedEvent | null {
+  const find = (name: string) => lines.find((line) => line.name === name);
+  const text = (name: string) => {
+    const line = find(name);
+    return line ? unescapeText(line.value).trim() : '';
+  };
+
+  const dtstart = find('DTSTART');
+  const start = dtstart && parseDateValue(dtstart.value, dtstart.params, fallbackZone);
+  if (!start) return null;
+  const timeZone = start.timeZone ?? fallbackZone;
+
+  const dtend = find('DTEND');
+  const duration = find('DURATION');
+  let end = dtend ? parseDateValue(dtend.value, dtend.params, fallbackZone)?.date : undefined;
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  // Without an end an all-day event lasts its one day and a timed one is an instant
+  if (!end || end.getTime() < start.date.getTime() || (start.dateOnly && end.getTime() === start.date.getTime())) {
+    end = new Date(start.date.getTime() + (start.dateOnly ? DAY : 0));
+  }
+
+  const rrule = find('RRULE');
+  let recurrenceRule = rrule ? parseRule(rrule.value, start, timeZone) : null;
+  if (recurrenceRule) {
+    const exceptions = lines
+      .filter((line) => line.name === 'EXDATE')
+      .flatMap((line) => line.value.split(',').map((value) => parseDateValue(value, line.params, timeZone)))
+      .filter((value): value is DateValue => !!value)
+      .map((value) => value.date.toISOString());
+    recurrenceRule = { ...recurrenceRule, exceptions };
+  }
+
+  const recurrenceIdLine = find('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdLine && parseDateValue(recurrenceIdLine.value, recurrenceIdLine.params, timeZone);
+
+  // The app has no location field, so it goes with the description
+  const location = text('LOCATION');
+  const description = [text('DESCRIPTION'), location && `Location: ${location}`].filter(Boolean).join('\n\n');
+
+  return {
+    event: {
+      uid: find('UID')?.value.trim() || null,
+      recurrence_id: recurrenceId ? recurrenceId.date.toISOString() : null,
+      title: text('SUMMARY'),
+      description: description || null,
+      start_time: start.date.toISOString(),
+      end_time: end.toISOString(),
+      all_day: start.dateOnly,
+      time_zone: timeZone,
+      recurrence_rule: recurrenceRule,
+    },
+    cancelled: text('STATUS').toUpperCase() === 'CANCELLED',
+    unsupportedRecurrence: !!rrule && !recurrenceRule,
+  };
+}
+
+/**
+ * Reads the events of an iCalendar (RFC 5545) file. Times without a zone of their own
+ * are read in the calendar's X-WR-TIMEZONE, else `fallbackZone`. Cancelled occurrences
+ * become exceptions of their series; alarms, attendees and other components are skipped.
+ */
+export function parseICalendar(text: string, fallbackZone: string = getDeviceTimeZone()): ICalParseResult {
+  const parsed: ParsedEvent[] = [];
+  let calendarZone = fallbackZone;
+  // Lines of the VEVENT being read, and how deep we are in components nested inside it
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const rawLine of unfold(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      if (current) nestedDepth++;
+      else if (line.value.trim().toUpperCase() === 'VEVENT') current = [];
+    } else if (line.name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && line.value.trim().toUpperCase() === 'VEVENT') {
+        const event = readEvent(current, calendarZone);
+        if (event) parsed.push(event);
+        current = null;
+      }
+    } else if (current) {
+      if (nestedDepth === 0) current.push(line);
+    } else if (line.name === 'X-WR-TIMEZONE') {
+      calendarZone = resolveTimeZone(line.value.trim()) ?? calendarZone;
+    }
+  }
+
+  const seriesByUid = new Map<string, ICalEvent>();
+  for (const { event } of parsed) {
+    if (event.uid && event.recurrence_rule && !event.recurrence_id) seriesByUid.set(event.uid, event);
+  }
+
+  const events: ICalEvent[] = [];
+  for (const { event, cancelled } of parsed) {
+    if (!cancelled) {
+      events.push(event);
+      continue;
+    }
+    const series = event.uid && event.recurrence_id ? seriesByUid.get(event.uid) : null;
+    if (series?.recurrence_rule) {
+      series.recurrence_rule.exceptions.push(event.recurrence_id!);
+    }
+  }
+
+  return {
+    events,
+    unsupportedRecurrences: parsed.filter((event) => event.unsupportedRecurrence).length,
+  };
+}
+
+/** UTC DATE-TIME, e.g. `20261019T090000Z`. */
+function formatUtc(timestamp: string) {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocal(timestamp: string, timeZone: string) {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(new Date(timestamp), timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}${pad(month + 1)}${pad(day)}T${pad(hours)}${pad(minutes)}${pad(seconds)}`;
+}
+
+/** DTSTART/DTEND/RECURRENCE-ID line for a timestamp of `event`. */
+function dateLine(name: string, timestamp: string, event: CalendarEvent) {
+  if (event.all_day) {
+    return `${name};VALUE=DATE:${new Date(timestamp).toISOString().slice(0, 10).replace(/-/g, '')}`;
+  }
+  // Series repeat in their zone's wall-clock time, which a UTC start would lose across
+  // DST. Calendar apps resolve IANA TZIDs without a VTIMEZONE of ours.
+  if (event.recurrence_rule && event.time_zone) {
+    return `${name};TZID=${event.time_zone}:${formatLocal(timestamp, event.time_zone)}`;
+  }
+  return `${name}:${formatUtc(timestamp)}`;
+}
+
+function utf8Length(char: string) {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/** Splits a line into 75-octet pieces without breaking a character apart. */
+function foldLine(line: string) {
+  const pieces: string[] = [];
+  let piece = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      pieces.push(piece);
+      // The leading space of a continuation counts toward its length
+      piece = ' ';
+      octets = 1;
+    }
+    piece += char;
+    octets += length;
+  }
+  pieces.push(piece);
+  return pieces.join('\r\n');
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    // Overrides share their series' UID and say which occurrence they replace
+    `UID:${event.recurring_event_id ?? event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatUtc(event.created_at)}`,
+    `LAST-MODIFIED:${formatUtc(event.updated_at)}`,
+  ];
+
+  if (event.all_day) {
+    const { startDate, endDate } = getAllDayDates(event);
+    lines.push(dateLine('DTSTART', `${startDate}T00:00:00Z`, event), dateLine('DTEND', `${endDate}T00:00:00Z`, event));
+  } else {
+    lines.push(dateLine('DTSTART', event.start_time, event), dateLine('DTEND', event.end_time, event));
+  }
+
+  if (event.recurring_event_id && event.original_start_time) {
+    lines.push(dateLine('RECURRENCE-ID', event.original_start_time, event));
+  }
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  lines.push(...toRecurrenceLines(event), 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * An iCalendar (RFC 5545) file of the events. Recurring events go out as their series
+ * with RRULE/EXDATE, and overrides as occurrences of them.
+ */
+export function serializeICalendar(
+  events: CalendarEvent[],
+  { calendarName, now = new Date() }: { calendarName?: string; now?: Date } = {}
+): string {
+  const stamp = formatUtc(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`] : []),
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
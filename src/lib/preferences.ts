@@ -0,0 +1,110 @@
+import { ReminderSettings } from './reminders';
+
+export type TimeFormat = '12h' | '24h';
+
+export type GridDensity = 'compact' | 'comfortable' | 'spacious';
+
+export interface Preferences {
+  timeFormat: TimeFormat;
+  // First day of the week view and month picker, 0 = Sunday as in Date#getDay
+  weekStartsOn: number;
+  // Length of new events that don't say how long they are
+  defaultDurationMinutes: number;
+  // Working hours: offered when picking a start time, and the hours the grid shows
+  dayStartHour: number;
+  dayEndHour: number;
+  reminders: ReminderSettings;
+  gridDensity: GridDensity;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  timeFormat: '12h',
+  weekStartsOn: 0,
+  defaultDurationMinutes: 60,
+  dayStartHour: 6,
+  dayEndHour: 22,
+  reminders: {
+    enabled: true,
+    defaultOffsets: [10],
+    transitionMinutes: 5,
+  },
+  gridDensity: 'comfortable',
+};
+
+// Height of one hour on the time grid, in points
+export const HOUR_HEIGHTS: Record<GridDensity, number> = {
+  compact: 40,
+  comfortable: 60,
+  spacious: 90,
+};
+
+/** An hour label like `9 AM`, or `09:00` on a 24-hour clock. */
+export function formatHour(hour: number, timeFormat: TimeFormat): string {
+  if (timeFormat === '24h') return `${String(hour).padStart(2, '0')}:00`;
+  if (hour === 0) return '12 AM';
+  if (hour < 12) return `${hour} AM`;
+  return hour === 12 ? '12 PM' : `${hour - 12} PM`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function isHour(value: unknown): value is number {
+  return isInteger(value) && value >= 0 && value <= 23;
+}
+
+function isMinutes(value: unknown): value is number {
+  return isInteger(value) && value >= 0;
+}
+
+function isGridDensity(value: unknown): value is GridDensity {
+  return typeof value === 'string' && Object.keys(HOUR_HEIGHTS).includes(value);
+}
+
+/**
+ * Reads preferences saved on the profile, keeping only fields that are valid so a
+ * newer app version's or a hand-edited value can't break this one.
+ */
+export function parseStoredPreferences(raw: unknown): { preferences: Partial<Preferences>; updatedAt: string | null } {
+  if (!isRecord(raw)) return { preferences: {}, updatedAt: null };
+  const { timeFormat, weekStartsOn, defaultDurationMinutes, dayStartHour, dayEndHour, gridDensity, reminders } = raw;
+  const preferences: Partial<Preferences> = {};
+
+  if (timeFormat === '12h' || timeFormat === '24h') {
+    preferences.timeFormat = timeFormat;
+  }
+  if (isInteger(weekStartsOn) && weekStartsOn >= 0 && weekStartsOn <= 6) {
+    preferences.weekStartsOn = weekStartsOn;
+  }
+  if (isMinutes(defaultDurationMinutes) && defaultDurationMinutes > 0) {
+    preferences.defaultDurationMinutes = defaultDurationMinutes;
+  }
+  if (isHour(dayStartHour) && isHour(dayEndHour) && dayStartHour < dayEndHour) {
+    preferences.dayStartHour = dayStartHour;
+    preferences.dayEndHour = dayEndHour;
+  }
+  if (isGridDensity(gridDensity)) {
+    preferences.gridDensity = gridDensity;
+  }
+
+  if (
+    isRecord(reminders) &&
+    typeof reminders.enabled === 'boolean' &&
+    Array.isArray(reminders.defaultOffsets) &&
+    reminders.defaultOffsets.every(isMinutes) &&
+    (reminders.transitionMinutes === null || isMinutes(reminders.transitionMinutes))
+  ) {
+    preferences.reminders = {
+      enabled: reminders.enabled,
+      defaultOffsets: reminders.defaultOffsets,
+      transitionMinutes: reminders.transitionMinutes,
+    };
+  }
+
+  return { preferences, updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : null };
+}
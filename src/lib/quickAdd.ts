@@ -0,0 +1,309 @@
+import { CalendarEvent, RecurrenceRule, Weekday } from './supabase';
+import { addDays, allDayTimes, startOfLocalDay, toDateKey } from './dates';
+
+const MINUTE = 60 * 1000;
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_PATTERN =
+  'sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?';
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const TIME_PATTERN = '(\\d{1,2})(?:[:.](\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)?';
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4 };
+
+// Left over around the parts we pull out, e.g. the "at" in "lunch at"
+const CONNECTOR = /^(?:at|on|for|from|in|by|,|-)$/i;
+
+export interface QuickAddOptions {
+  // What "today" and "tomorrow" are relative to
+  now?: Date;
+  // Day used when the text doesn't name one
+  defaultDate?: Date;
+  defaultDurationMinutes?: number;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+/** Pulls matches out of the text one at a time, leaving the rest as the title. */
+class Scanner {
+  private remaining: string;
+
+  constructor(text: string) {
+    this.remaining = text;
+  }
+
+  /** Finds `pattern` (case-insensitively) and consumes it, unless `accept` turns it down. */
+  take(pattern: RegExp, accept?: (match: RegExpExecArray) => boolean): RegExpExecArray | null {
+    const match = new RegExp(pattern.source, 'i').exec(this.remaining);
+    if (!match || (accept && !accept(match))) return null;
+
+    // Blank out instead of cutting so later matches keep their word boundaries
+    this.remaining =
+      this.remaining.slice(0, match.index) +
+      ' '.repeat(match[0].length) +
+      this.remaining.slice(match.index + match[0].length);
+    return match;
+  }
+
+  rest(): string {
+    const words = this.remaining.split(/\s+/).filter(Boolean);
+    while (words.length && CONNECTOR.test(words[0])) words.shift();
+    while (words.length && CONNECTOR.test(words[words.length - 1])) words.pop();
+    return words.join(' ');
+  }
+}
+
+function weekdayIndex(name: string) {
+  const prefix = name.slice(0, 2).toUpperCase();
+  return WEEKDAYS.indexOf(prefix as Weekday);
+}
+
+function monthIndex(name: string) {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+/** Converts a matched time to 24-hour time, guessing am/pm when it's left off. */
+function toTimeOfDay(hourText: string, minuteText: string | undefined, meridiem: string | undefined): TimeOfDay | null {
+  let hours = Number(hourText);
+  const minutes = minuteText ? Number(minuteText) : 0;
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    const pm = meridiem.toLowerCase().startsWith('p');
+    hours = (hours % 12) + (pm ? 12 : 0);
+  } else {
+    if (hours > 23) return null;
+    // "at 3" means the afternoon; nobody books things at 3 AM by accident
+    if (hours >= 1 && hours <= 7) hours += 12;
+  }
+
+  return { hours, minutes };
+}
+
+/** The first date on or after `from` (after, if `strictlyAfter`) that falls on `weekday`. */
+function nextWeekday(from: Date, weekday: number, strictlyAfter: boolean) {
+  let offset = (weekday - from.getDay() + 7) % 7;
+  if (offset === 0 && strictlyAfter) offset = 7;
+  return addDays(from, offset);
+}
+
+function parseWeekdayList(text: string): Weekday[] {
+  const names = text.match(new RegExp(WEEKDAY_PATTERN, 'gi')) ?? [];
+  const days = names.map((name) => WEEKDAYS[weekdayIndex(name)]);
+  // Keep Monday-first order so the rule reads naturally
+  return ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'].filter((day) => days.includes(day as Weekday)) as Weekday[];
+}
+
+function takeExplicitDate(scanner: Scanner, today: Date): Date | null {
+  const iso = scanner.take(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const numeric = scanner.take(/\b(?:on\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+  if (numeric) {
+    const year = numeric[3] ? Number(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : null;
+    return resolveMonthDay(Number(numeric[1]) - 1, Number(numeric[2]), year, today);
+  }
+
+  const monthFirst = scanner.take(
+    new RegExp(`\\b(?:on\\s+)?(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`)
+  );
+  if (monthFirst) {
+    return resolveMonthDay(monthIndex(monthFirst[1]), Number(monthFirst[2]), monthFirst[3] ? Number(monthFirst[3]) : null, today);
+  }
+
+  const dayFirst = scanner.take(
+    new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b`)
+  );
+  if (dayFirst) {
+    return resolveMonthDay(monthIndex(dayFirst[2]), Number(dayFirst[1]), null, today);
+  }
+
+  const relative = scanner.take(/\b(today|tonight|tomorrow|tmrw|tmr)\b/);
+  if (relative) {
+    const word = relative[1].toLowerCase();
+    return word === 'today' || word === 'tonight' ? today : addDays(today, 1);
+  }
+
+  const inDays = scanner.take(/\bin\s+(\d+|an?|one|two|three|four)\s+(days?|weeks?)\b/);
+  if (inDays) {
+    const count = NUMBER_WORDS[inDays[1].toLowerCase()] ?? Number(inDays[1]);
+    return addDays(today, inDays[2].toLowerCase().startsWith('week') ? count * 7 : count);
+  }
+
+  const weekday = scanner.take(new RegExp(`\\b(?:(next|this|on)\\s+)?(${WEEKDAY_PATTERN})\\b`));
+  if (weekday) {
+    return nextWeekday(today, weekdayIndex(weekday[2]), weekday[1]?.toLowerCase() === 'next');
+  }
+
+  return null;
+}
+
+/** A month and day without a year means the next time that date comes around. */
+function resolveMonthDay(month: number, day: number, year: number | null, today: Date): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+
+  const date = new Date(year ?? today.getFullYear(), month, day);
+  // Reject overflow like Feb 30
+  if (date.getMonth() !== month) return null;
+  if (year === null && date.getTime() < today.getTime()) {
+    date.setFullYear(date.getFullYear() + 1);
+  }
+  return date;
+}
+
+function takeRecurrence(scanner: Scanner): RecurrenceRule | null {
+  const rule = (frequency: RecurrenceRule['frequency'], interval = 1, by_weekday: Weekday[] | null = null): RecurrenceRule => ({
+    frequency,
+    interval,
+    by_weekday,
+    until: null,
+    count: null,
+    exceptions: [],
+  });
+
+  const weekdays = scanner.take(
+    new RegExp(`\\bevery\\s+((?:${WEEKDAY_PATTERN})s?(?:\\s*(?:,|and|&)?\\s*(?:${WEEKDAY_PATTERN})s?)*)\\b`)
+  );
+  if (weekdays) return rule('weekly', 1, parseWeekdayList(weekdays[1]));
+
+  const every = scanner.take(/\bevery\s+(other\s+|\d+\s+)?(days?|weekdays?|weekends?|weeks?|months?)\b/);
+  if (every) {
+    const interval = every[1]?.trim().toLowerCase() === 'other' ? 2 : every[1] ? Number(every[1]) : 1;
+    const unit = every[2].toLowerCase();
+    if (unit.startsWith('weekday')) return rule('weekly', 1, ['MO', 'TU', 'WE', 'TH', 'FR']);
+    if (unit.startsWith('weekend')) return rule('weekly', 1, ['SA', 'SU']);
+    if (unit.startsWith('day')) return rule('daily', interval);
+    if (unit.startsWith('week')) return rule('weekly', interval);
+    return rule('monthly', interval);
+  }
+
+  const adverb = scanner.take(/\b(daily|weekly|monthly|weekdays)\b/);
+  if (adverb) {
+    const word = adverb[1].toLowerCase();
+    if (word === 'weekdays') return rule('weekly', 1, ['MO', 'TU', 'WE', 'TH', 'FR']);
+    return rule(word === 'daily' ? 'daily' : word === 'weekly' ? 'weekly' : 'monthly');
+  }
+
+  return null;
+}
+
+/** Length from "for 45 min", "for 1h30m", "for an hour", "for 3 days"; in minutes or whole days. */
+function takeDuration(scanner: Scanner): { minutes: number } | { days: number } | null {
+  const halfHour = scanner.take(/\bfor\s+half\s+an?\s+hour\b/);
+  if (halfHour) return { minutes: 30 };
+
+  const match = scanner.take(
+    /\bfor\s+(\d+(?:\.\d+)?|an?|one|two|three|four)\s*(h|hrs?|hours?|m|mins?|minutes?|d|days?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?\b/
+  );
+  if (!match) return null;
+
+  const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('d')) return { days: Math.max(1, Math.round(amount)) };
+  if (unit.startsWith('h')) return { minutes: Math.round(amount * 60) + (match[3] ? Number(match[3]) : 0) };
+  return { minutes: Math.round(amount) };
+}
+
+function takeTimes(scanner: Scanner): { start: TimeOfDay; end: TimeOfDay | null } | null {
+  // Needs "from", a colon or am/pm somewhere, so "3-4 people" stays in the title
+  const range = scanner.take(
+    new RegExp(`\\b(from\\s+)?${TIME_PATTERN}\\s*(?:-|–|to|until|till)\\s*${TIME_PATTERN}(?=\\s|$|[,.!?])`),
+    (match) => !!(match[1] || match[3] || match[4] || match[6] || match[7])
+  );
+  if (range) {
+    const [, , startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = range;
+    const end = toTimeOfDay(endHour, endMinute, endMeridiem);
+    // "3-4pm": the start borrows the end's am/pm
+    let start = toTimeOfDay(startHour, startMinute, startMeridiem ?? endMeridiem);
+    if (start && end && !startMeridiem && endMeridiem && start.hours * 60 + start.minutes > end.hours * 60 + end.minutes) {
+      // "11-1pm" starts in the morning
+      start = toTimeOfDay(startHour, startMinute, endMeridiem.toLowerCase().startsWith('p') ? 'am' : 'pm');
+    }
+    if (start && end) return { start, end };
+  }
+
+  const single = takeSingleTime(scanner);
+  return single ? { start: single, end: null } : null;
+}
+
+function takeSingleTime(scanner: Scanner): TimeOfDay | null {
+  const named = scanner.take(/\b(?:at\s+)?(noon|midday|midnight)\b/);
+  if (named) {
+    return named[1].toLowerCase() === 'midnight' ? { hours: 0, minutes: 0 } : { hours: 12, minutes: 0 };
+  }
+
+  const withMeridiem = scanner.take(/\b(?:at\s+|@\s*)?(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\s|$|[,.!?])/);
+  if (withMeridiem) return toTimeOfDay(withMeridiem[1], withMeridiem[2], withMeridiem[3]);
+
+  const withColon = scanner.take(/\b(?:at\s+|@\s*)?(\d{1,2}):(\d{2})\b/);
+  if (withColon) return toTimeOfDay(withColon[1], withColon[2], undefined);
+
+  const withAt = scanner.take(/(?:\bat\s+|@\s*)(\d{1,2})\b/);
+  if (withAt) return toTimeOfDay(withAt[1], undefined, undefined);
+
+  return null;
+}
+
+/**
+ * Turns a typed line like "dentist tomorrow 3:30pm for 45 min" or "gym every Mon Wed
+ * 7am" into event fields. Whatever isn't recognised as a date, time, duration or
+ * repeat becomes the title. Without a time the event is all-day.
+ */
+export function parseQuickAdd(text: string, options: QuickAddOptions = {}): Partial<CalendarEvent> {
+  const now = options.now ?? new Date();
+  const today = startOfLocalDay(now);
+  const defaultDuration = options.defaultDurationMinutes ?? 60;
+  const scanner = new Scanner(text);
+
+  // Repeats go first so "every mon" isn't read as a single Monday
+  const recurrence = takeRecurrence(scanner);
+  let date = takeExplicitDate(scanner, today);
+  const duration = takeDuration(scanner);
+  const allDay = !!scanner.take(/\ball[\s-]day\b/);
+  const times = allDay ? null : takeTimes(scanner);
+
+  if (!date && recurrence?.by_weekday?.length) {
+    // Start the series on the first of its days
+    const base = startOfLocalDay(options.defaultDate ?? now);
+    date = recurrence.by_weekday
+      .map((day) => nextWeekday(base, WEEKDAYS.indexOf(day), false))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+  const day = date ?? startOfLocalDay(options.defaultDate ?? now);
+
+  const fields: Partial<CalendarEvent> = {
+    title: scanner.rest(),
+    recurrence_rule: recurrence,
+  };
+
+  if (!times) {
+    const days = duration && 'days' in duration ? duration.days : 1;
+    return { ...fields, ...allDayTimes(toDateKey(day), days), all_day: true };
+  }
+
+  const start = new Date(day);
+  start.setHours(times.start.hours, times.start.minutes, 0, 0);
+
+  let end: Date;
+  if (times.end) {
+    end = new Date(day);
+    end.setHours(times.end.hours, times.end.minutes, 0, 0);
+    // "11pm-1am" ends the next day
+    if (end.getTime() <= start.getTime()) end = addDays(end, 1);
+  } else {
+    const minutes = duration && 'minutes' in duration ? duration.minutes : defaultDuration;
+    end = new Date(start.getTime() + Math.max(minutes, 1) * MINUTE);
+  }
+
+  return {
+    ...fields,
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    all_day: false,
+  };
+}
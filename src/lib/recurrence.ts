@@ -0,0 +1,242 @@
+import { CalendarEvent, RecurrenceRule, Weekday } from './supabase';
+import { getDeviceTimeZone, getZonedParts, zonedDateTime } from './timezone';
+
+// Indexed by Date#getDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Safety net for rules without an end that started long before the visible range
+const MAX_OCCURRENCES = 10000;
+
+// Occurrence ids follow Google's instance ids: `<recurring event id>_<original start>`
+const OCCURRENCE_SEPARATOR = '_';
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+export function getOccurrenceId(masterId: string, originalStart: string) {
+  return `${masterId}${OCCURRENCE_SEPARATOR}${originalStart}`;
+}
+
+export function parseOccurrenceId(id: string) {
+  const index = id.indexOf(OCCURRENCE_SEPARATOR);
+  if (index === -1) return null;
+  return { masterId: id.slice(0, index), originalStart: id.slice(index + 1) };
+}
+
+/** A rule in words, like `Every 2 weeks on Mon, Wed`. */
+export function describeRecurrence(rule: RecurrenceRule) {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.by_weekday?.length) {
+    return `${every} on ${rule.by_weekday.map((day) => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  return every;
+}
+
+/** Whether the event is, or is an occurrence of, a recurring series. */
+export function isRecurring(event: CalendarEvent) {
+  return !!event.recurrence_rule || !!event.recurring_event_id;
+}
+
+function normalize(timestamp: string) {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Date arithmetic in the frame the event lives in: wall-clock time in the event's zone
+ * for timed events (so a 9 AM standup stays at 9 AM across DST, wherever the device
+ * is), UTC for date-only all-day events.
+ */
+function calendarFor(event: CalendarEvent) {
+  const timeZone = event.all_day ? 'UTC' : event.time_zone ?? getDeviceTimeZone();
+  return {
+    parts(date: Date) {
+      const { year, month, day, hours, minutes, seconds, weekday } = getZonedParts(date, timeZone);
+      return [year, month, day, hours, minutes, seconds, weekday];
+    },
+    make(year: number, month: number, day: number, hours: number, minutes: number, seconds: number) {
+      return zonedDateTime(timeZone, year, month, day, hours, minutes, seconds);
+    },
+  };
+}
+
+/** Every start time the rule produces, in order, ignoring until/count/exceptions. */
+function* candidateStarts(event: CalendarEvent, rule: RecurrenceRule): Generator<Date> {
+  const calendar = calendarFor(event);
+  const start = new Date(event.start_time);
+  const [year, month, day, hours, minutes, seconds, weekday] = calendar.parts(start);
+  const interval = Math.max(1, rule.interval);
+
+  if (rule.frequency === 'daily') {
+    for (let i = 0; ; i++) {
+      yield calendar.make(year, month, day + i * interval, hours, minutes, seconds);
+    }
+  }
+
+  if (rule.frequency === 'weekly') {
+    // Weeks start on Monday (RFC 5545's default WKST)
+    const toMondayIndex = (index: number) => (index + 6) % 7;
+    const weekdays = rule.by_weekday?.length ? rule.by_weekday : [WEEKDAYS[weekday]];
+    const offsets = weekdays.map((w) => toMondayIndex(WEEKDAYS.indexOf(w))).sort((a, b) => a - b);
+    const weekStart = day - toMondayIndex(weekday);
+
+    for (let week = 0; ; week++) {
+      for (const offset of offsets) {
+        const candidate = calendar.make(year, month, weekStart + week * 7 * interval + offset, hours, minutes, seconds);
+        if (candidate.getTime() >= start.getTime()) {
+          yield candidate;
+        }
+      }
+    }
+  }
+
+  for (let i = 0; ; i++) {
+    const candidate = calendar.make(year, month + i * interval, day, hours, minutes, seconds);
+    // Months without this day (e.g. the 31st) are skipped, as in RFC 5545
+    if (calendar.parts(candidate)[2] === day) {
+      yield candidate;
+    }
+  }
+}
+
+/** Start times of the series' occurrences, honouring until/count but not exceptions. */
+function* occurrenceStarts(event: CalendarEvent, rule: RecurrenceRule): Generator<Date> {
+  const until = rule.until ? Date.parse(rule.until) : Infinity;
+  let produced = 0;
+
+  for (const candidate of candidateStarts(event, rule)) {
+    if (candidate.getTime() > until) return;
+    if (rule.count && produced >= rule.count) return;
+    if (produced >= MAX_OCCURRENCES) return;
+    produced++;
+    yield candidate;
+  }
+}
+
+/**
+ * Expands a recurring event into the occurrences overlapping the range.
+ * `overridden` holds original start times that have their own override row.
+ */
+export function expandRecurringEvent(
+  event: CalendarEvent,
+  rangeStart: Date,
+  rangeEnd: Date,
+  overridden: Set<string> = new Set()
+): CalendarEvent[] {
+  const rule = event.recurrence_rule;
+  if (!rule) return [event];
+
+  const duration = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+  const exceptions = new Set(rule.exceptions.map(normalize));
+  const occurrences: CalendarEvent[] = [];
+
+  for (const start of occurrenceStarts(event, rule)) {
+    if (start.getTime() > rangeEnd.getTime()) break;
+
+    const originalStart = start.toISOString();
+    if (start.getTime() + duration < rangeStart.getTime()) continue;
+    if (exceptions.has(originalStart) || overridden.has(originalStart)) continue;
+
+    occurrences.push({
+      ...event,
+      id: getOccurrenceId(event.id, originalStart),
+      start_time: originalStart,
+      end_time: new Date(start.getTime() + duration).toISOString(),
+      recurring_event_id: event.id,
+      original_start_time: originalStart,
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Replaces every recurring event with its occurrences in the range. Override rows
+ * stand in for the occurrence they replace; other events pass through unchanged.
+ */
+export function expandEvents(events: CalendarEvent[], rangeStart: Date, rangeEnd: Date): CalendarEvent[] {
+  const overridesByMaster = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (event.recurring_event_id && event.original_start_time) {
+      const overridden = overridesByMaster.get(event.recurring_event_id) ?? new Set<string>();
+      overridden.add(normalize(event.original_start_time));
+      overridesByMaster.set(event.recurring_event_id, overridden);
+    }
+  }
+
+  return events.flatMap((event) =>
+    event.recurrence_rule
+      ? expandRecurringEvent(event, rangeStart, rangeEnd, overridesByMaster.get(event.id))
+      : [event]
+  );
+}
+
+/**
+ * Splits a series at one of its occurrences for "this and following" edits:
+ * `before` ends the original series just ahead of it, `after` continues from it.
+ */
+export function splitRecurrence(event: CalendarEvent, originalStart: string) {
+  const rule = event.recurrence_rule!;
+  const splitAt = Date.parse(originalStart);
+
+  let occurrencesBefore = 0;
+  for (const start of occurrenceStarts(event, rule)) {
+    if (start.getTime() >= splitAt) break;
+    occurrencesBefore++;
+  }
+
+  const exceptions = rule.exceptions.map(normalize);
+  const before: RecurrenceRule = {
+    ...rule,
+    until: rule.count ? null : new Date(splitAt - 1).toISOString(),
+    count: rule.count ? occurrencesBefore : null,
+    exceptions: exceptions.filter((exception) => Date.parse(exception) < splitAt),
+  };
+  const after: RecurrenceRule = {
+    ...rule,
+    count: rule.count ? Math.max(1, rule.count - occurrencesBefore) : null,
+    exceptions: exceptions.filter((exception) => Date.parse(exception) >= splitAt),
+  };
+
+  return { before, after };
+}
+
+/** The rule with one more occurrence excluded. */
+export function addException(rule: RecurrenceRule, originalStart: string): RecurrenceRule {
+  return { ...rule, exceptions: [...rule.exceptions, normalize(originalStart)] };
+}
+
+/** RFC 5545 DATE or UTC DATE-TIME value, e.g. `20261019` or `20261019T090000Z`. */
+function formatICalDate(timestamp: string, dateOnly: boolean) {
+  const iso = normalize(timestamp);
+  const date = iso.slice(0, 10).replace(/-/g, '');
+  return dateOnly ? date : `${date}T${iso.slice(11, 19).replace(/:/g, '')}Z`;
+}
+
+/** The rule as RRULE/EXDATE lines, the format Google's `recurrence` field takes. */
+export function toRecurrenceLines(event: CalendarEvent): string[] {
+  const rule = event.recurrence_rule;
+  if (!rule) return [];
+
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.by_weekday?.length) parts.push(`BYDAY=${rule.by_weekday.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${formatICalDate(rule.until, event.all_day)}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (rule.exceptions.length) {
+    const values = rule.exceptions.map((exception) => formatICalDate(exception, event.all_day));
+    lines.push(`EXDATE${event.all_day ? ';VALUE=DATE' : ''}:${values.join(',')}`);
+  }
+  return lines;
+}
@@ -0,0 +1,143 @@
+import { CalendarEvent } from './supabase';
+import { isAllDayLaneEvent } from './dates';
+
+const MINUTE = 60 * 1000;
+
+// Lead times offered when picking reminders, in minutes
+export const REMINDER_OPTIONS = [5, 10, 15, 30, 60];
+
+// iOS keeps at most 64 pending local notifications per app; leave a little headroom
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+export interface ReminderSettings {
+  enabled: boolean;
+  // Minutes before an event starts, used when the event has no offsets of its own
+  defaultOffsets: number[];
+  // Minutes before the next event to nudge the user to wrap up the current one; null disables
+  transitionMinutes: number | null;
+}
+
+export interface PlannedNotification {
+  // Stable for the same event, kind and fire time, so unchanged reminders aren't rescheduled
+  id: string;
+  eventId: string;
+  kind: 'reminder' | 'transition';
+  fireAt: Date;
+  title: string;
+  body: string;
+}
+
+export interface ScheduledNotification {
+  id: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * Where reminders actually get scheduled. The app uses local notifications; tests can
+ * pass an in-memory fake.
+ */
+export interface Notifier {
+  // Only the notifications this subsystem scheduled
+  getScheduled(): Promise<ScheduledNotification[]>;
+  schedule(notification: PlannedNotification): Promise<void>;
+  cancel(id: string): Promise<void>;
+}
+
+export function formatLeadTime(minutes: number) {
+  if (minutes <= 0) return 'now';
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `in ${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
+
+/**
+ * Works out every notification that should be pending at `now`: per-event reminders,
+ * plus transition nudges when an event is due to start while another is still running.
+ * All-day events get no reminders; they have no start time to count down to.
+ */
+export function planReminders(
+  events: CalendarEvent[],
+  now: Date,
+  settings: ReminderSettings
+): PlannedNotification[] {
+  if (!settings.enabled) return [];
+
+  const timedEvents = events
+    .filter((event) => !isAllDayLaneEvent(event))
+    .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time));
+  const planned: PlannedNotification[] = [];
+
+  for (const event of timedEvents) {
+    const start = Date.parse(event.start_time);
+    const offsets = event.reminder_offsets ?? settings.defaultOffsets;
+
+    for (const offset of new Set(offsets)) {
+      const fireAt = new Date(start - offset * MINUTE);
+      if (fireAt.getTime() <= now.getTime()) continue;
+
+      planned.push({
+        id: `reminder:${event.id}:${fireAt.toISOString()}`,
+        eventId: event.id,
+        kind: 'reminder',
+        fireAt,
+        title: event.title,
+        body: `Starts ${formatLeadTime(offset)}`,
+      });
+    }
+  }
+
+  if (settings.transitionMinutes !== null) {
+    for (const next of timedEvents) {
+      const fireAt = new Date(Date.parse(next.start_time) - settings.transitionMinutes * MINUTE);
+      if (fireAt.getTime() <= now.getTime()) continue;
+
+      // The event the user will be in when the nudge fires; the latest-starting one if several
+      const current = timedEvents
+        .filter((event) =>
+          event.id !== next.id &&
+          Date.parse(event.start_time) < fireAt.getTime() &&
+          Date.parse(event.end_time) > fireAt.getTime()
+        )
+        .pop();
+      if (!current) continue;
+
+      planned.push({
+        id: `transition:${next.id}:${fireAt.toISOString()}`,
+        eventId: next.id,
+        kind: 'transition',
+        fireAt,
+        title: `Start wrapping up ${current.title}`,
+        body: `${next.title} starts ${formatLeadTime(settings.transitionMinutes)}`,
+      });
+    }
+  }
+
+  return planned
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+}
+
+/** Brings the notifier in line with the plan, touching only what changed. */
+export async function syncReminders(notifier: Notifier, planned: PlannedNotification[]) {
+  const plannedById = new Map(planned.map((notification) => [notification.id, notification]));
+  const scheduled = await notifier.getScheduled();
+  const upToDate = new Set<string>();
+
+  for (const existing of scheduled) {
+    const wanted = plannedById.get(existing.id);
+    if (wanted && wanted.title === existing.title && wanted.body === existing.body) {
+      upToDate.add(existing.id);
+    } else {
+      await notifier.cancel(existing.id);
+    }
+  }
+
+  for (const notification of planned) {
+    if (!upToDate.has(notification.id)) {
+      await notifier.schedule(notification);
+    }
+  }
+}
@@ -26,23 +26,127 @@ export interface Profile {
   full_name: string | null;
   avatar_url: string | null;
   role: 'user' | 'admin';
+  // App preferences synced across devices; read with parseStoredPreferences
+  preferences: Record<string, unknown> | null;
+  // When an admin last asked this user's app to resync
+  resync_requested_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** A row of `admin_list_users()`: one user and the sync state of their events. */
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: Profile['role'];
+  created_at: string;
+  resync_requested_at: string | null;
+  event_count: number;
+  pending_count: number;
+  failed_count: number;
+  conflict_count: number;
+  last_synced_at: string | null;
+}
+
+/** A row of `admin_user_sync_errors()`; event contents are left out on purpose. */
+export interface AdminSyncError {
+  event_id: string;
+  sync_status: SyncStatus;
+  sync_error: string | null;
+  updated_at: string;
+  synced_at: string | null;
+}
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  by_weekday: Weekday[] | null;
+  // Inclusive; at most one of until/count is set
+  until: string | null;
+  count: number | null;
+  // Original start times of occurrences that were deleted or replaced by an override
+  exceptions: string[];
+}
+
+/**
+ * pending: saved, not yet in Google Calendar; synced: matches Google as of synced_at;
+ * failed: the push to Google failed and is queued for retry; conflict: changed in
+ * both places since the last sync.
+ */
+export type SyncStatus = 'pending' | 'synced' | 'failed' | 'conflict';
+
+/** Google Calendar's copy of an event, kept while the two disagree. */
+export interface GoogleEventVersion {
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  all_day: boolean;
+  recurrence_rule: RecurrenceRule | null;
+  // When it was last changed in Google
+  updated_at: string;
+}
+
 export interface CalendarEvent {
   id: string;
   user_id: string;
   google_event_id: string | null;
+  // Google calendar the event lives in; null for the primary calendar
+  calendar_id: string | null;
   title: string;
   description: string | null;
   start_time: string;
   end_time: string;
   all_day: boolean;
+  // IANA zone the times were entered in; repeats keep their wall-clock time there.
+  // Null on rows from before zones were stored, which are read in the device's zone.
+  time_zone: string | null;
+  // Set by the user; otherwise the category's color, then the calendar's
   color: string | null;
+  category_id: string | null;
+  recurrence_rule: RecurrenceRule | null;
+  // Set on a single-occurrence override, pointing at the recurring event it replaces
+  recurring_event_id: string | null;
+  original_start_time: string | null;
+  // Minutes before start to send reminders; null uses the user's default
+  reminder_offsets: number[] | null;
+  // Set on a time block scheduled for a task
+  task_id: string | null;
+  // UID of the iCalendar event it was imported from
+  ical_uid: string | null;
+  // Where the event stands with Google Calendar; see SyncStatus
+  sync_status: SyncStatus;
+  // Why the last push to Google failed, while sync_status is 'failed' or 'conflict'
+  sync_error: string | null;
+  // Google's side of a conflict, until the user picks what to keep
+  google_version: GoogleEventVersion | null;
+  // When the event last matched Google Calendar
   synced_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+  updated_at: string;
+}
 
+export interface Task {
+  id: string;
+  user_id: string;
+  title: string;
+  estimated_minutes: number;
+  // Local date as `YYYY-MM-DD`
+  due_date: string | null;
+  done: boolean;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,257 @@
+import { supabase, GoogleEventVersion } from './supabase';
+import type { EventSyncPayload } from './googleSync';
+
+const BACKEND_URL = process.env.EXPO_PUBLIC_BACKEND_URL;
+// Points development builds at the in-process stub instead of a real backend
+const STUB_BACKEND_URL = 'stub';
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+// Request and response bodies of the backend's /api/sync endpoints
+
+export interface StoreTokensRequest {
+  userId: string;
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: string;
+}
+
+export interface StoreTokensResponse {
+  success: boolean;
+}
+
+export type CreateEventRequest = EventSyncPayload;
+
+export interface CreateEventResponse {
+  googleEventId: string;
+}
+
+export interface UpdateEventRequest extends EventSyncPayload {
+  googleEventId: string;
+  // Last time the app and Google agreed; a later change in Google is a conflict
+  syncedAt: string | null;
+}
+
+export interface UpdateEventResponse {
+  googleEventId: string;
+}
+
+export interface DeleteEventRequest {
+  googleEventId: string;
+}
+
+/**
+ * ok: the backend can reach Google Calendar; reauth_required: Google refused the stored
+ * refresh token (revoked, expired or missing scopes); not_connected: no tokens stored.
+ */
+export type GoogleAccessStatus = 'ok' | 'reauth_required' | 'not_connected';
+
+export interface SyncHealthResponse {
+  googleAccess: GoogleAccessStatus;
+  // Why access is broken, when the backend knows
+  error: string | null;
+  checkedAt: string;
+}
+
+/** An entry in the user's Google calendar list. */
+export interface GoogleCalendar {
+  // Google's calendar id, e.g. an email address for the primary calendar
+  id: string;
+  name: string;
+  // Google's background color as `#RRGGBB`
+  color: string;
+  primary: boolean;
+  accessRole: 'owner' | 'writer' | 'reader' | 'freeBusyReader';
+}
+
+export interface ListCalendarsResponse {
+  calendars: GoogleCalendar[];
+}
+
+// Body of a 409 from the event endpoints
+export interface ConflictResponse {
+  error: string;
+  remote: GoogleEventVersion | null;
+}
+
+/** A backend call that failed. `status` is the HTTP status, or null if no response came back. */
+export class SyncApiError extends Error {
+  constructor(message: string, readonly status: number | null, readonly body: unknown = null) {
+    super(message);
+    this.name = 'SyncApiError';
+  }
+}
+
+/** EXPO_PUBLIC_BACKEND_URL isn't set, so there is nothing to call. */
+export class SyncApiNotConfiguredError extends SyncApiError {
+  constructor() {
+    super('Sync backend is not configured', null);
+    this.name = 'SyncApiNotConfiguredError';
+  }
+}
+
+/** The request never got a response: offline, DNS, TLS, or the connection dropped. */
+export class SyncApiNetworkError extends SyncApiError {
+  constructor(message: string) {
+    super(message, null);
+    this.name = 'SyncApiNetworkError';
+  }
+}
+
+export class SyncApiTimeoutError extends SyncApiError {
+  constructor(readonly timeoutMs: number) {
+    super(`Sync backend didn't respond within ${timeoutMs / 1000}s`, null);
+    this.name = 'SyncApiTimeoutError';
+  }
+}
+
+/** No Supabase session, or the backend still refused it after a refresh. */
+export class SyncApiAuthError extends SyncApiError {
+  constructor(message: string, body: unknown = null) {
+    super(message, 401, body);
+    this.name = 'SyncApiAuthError';
+  }
+}
+
+/**
+ * The backend refused a change because the event changed in Google Calendar since it
+ * last synced. `remote` is Google's copy, when the backend could read it.
+ */
+export class SyncApiConflictError extends SyncApiError {
+  constructor(message: string, readonly remote: GoogleEventVersion | null, body: unknown = null) {
+    super(message, 409, body);
+    this.name = 'SyncApiConflictError';
+  }
+}
+
+export interface SyncApiOptions {
+  // Undefined leaves the client unconfigured; every call then fails
+  baseUrl: string | undefined;
+  // Current Supabase access token, or null when signed out
+  getAccessToken: () => Promise<string | null>;
+  // Refreshes the Supabase session after a 401; resolves with the new token
+  refreshAccessToken: () => Promise<string | null>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface SyncApi {
+  isConfigured: boolean;
+  getHealth: () => Promise<SyncHealthResponse>;
+  listCalendars: () => Promise<ListCalendarsResponse>;
+  storeTokens: (body: StoreTokensRequest) => Promise<StoreTokensResponse>;
+  createEvent: (body: CreateEventRequest) => Promise<CreateEventResponse>;
+  updateEvent: (eventId: string, body: UpdateEventRequest) => Promise<UpdateEventResponse>;
+  deleteEvent: (eventId: string, body: DeleteEventRequest) => Promise<void>;
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text().catch(() => '');
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function errorMessage(body: unknown, fallback: string) {
+  if (body && typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string') {
+    return (body as { error: string }).error;
+  }
+  return fallback;
+}
+
+/**
+ * Client for the sync backend. Every call carries the Supabase access token, refreshes
+ * it once if the backend answers 401, and gives up after `timeoutMs`.
+ */
+export function createSyncApi({
+  baseUrl,
+  getAccessToken,
+  refreshAccessToken,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  fetch: fetchImpl = fetch,
+}: SyncApiOptions): SyncApi {
+  const send = async (method: string, path: string, body: unknown, accessToken: string) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetchImpl(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) throw new SyncApiTimeoutError(timeoutMs);
+      throw new SyncApiNetworkError(error instanceof Error ? error.message : 'Network request failed');
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const request = async <T>(method: 'GET' | 'POST' | 'PATCH' | 'DELETE', path: string, body?: unknown): Promise<T> => {
+    if (!baseUrl) throw new SyncApiNotConfiguredError();
+
+    const accessToken = await getAccessToken();
+    if (!accessToken) throw new SyncApiAuthError('Not signed in');
+
+    let response = await send(method, path, body, accessToken);
+    if (response.status === 401) {
+      // The token may have expired between reading and sending it
+      const refreshed = await refreshAccessToken();
+      if (refreshed) {
+        response = await send(method, path, body, refreshed);
+      }
+    }
+
+    const responseBody = await readBody(response);
+    if (response.ok) return responseBody as T;
+
+    const message = errorMessage(responseBody, `Sync backend returned ${response.status}`);
+    if (response.status === 401) {
+      throw new SyncApiAuthError(message, responseBody);
+    }
+    if (response.status === 409) {
+      const remote = (responseBody as Partial<ConflictResponse> | null)?.remote ?? null;
+      throw new SyncApiConflictError(message, remote, responseBody);
+    }
+    throw new SyncApiError(message, response.status, responseBody);
+  };
+
+  return {
+    isConfigured: !!baseUrl,
+    getHealth: () => request('GET', '/api/sync/health'),
+    listCalendars: () => request('GET', '/api/sync/calendars'),
+    storeTokens: (body) => request('POST', '/api/sync/tokens', body),
+    createEvent: (body) => request('POST', '/api/sync/events', body),
+    updateEvent: (eventId, body) => request('PATCH', `/api/sync/events/${eventId}`, body),
+    deleteEvent: async (eventId, body) => {
+      await request('DELETE', `/api/sync/events/${eventId}`, body);
+    },
+  };
+}
+
+export const syncApi = createSyncApi({
+  baseUrl: BACKEND_URL,
+  getAccessToken: async () => {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token ?? null;
+  },
+  refreshAccessToken: async () => {
+    const { data, error } = await supabase.auth.refreshSession();
+    if (error) {
+      console.error('Error refreshing session:', error);
+      return null;
+    }
+    return data.session?.access_token ?? null;
+  },
+  // Required inline so release builds, where __DEV__ is false, drop the stub server
+  fetch:
+    __DEV__ && BACKEND_URL === STUB_BACKEND_URL
+      ? (require('./syncApiStub') as typeof import('./syncApiStub')).createSyncApiStub().fetch
+      : undefined,
+});
@@ -0,0 +1,223 @@
+import { GoogleEventVersion } from './supabase';
+import type {
+  CreateEventRequest,
+  DeleteEventRequest,
+  GoogleAccessStatus,
+  GoogleCalendar,
+  StoreTokensRequest,
+  UpdateEventRequest,
+} from './syncApi';
+
+interface StubEvent {
+  googleEventId: string;
+  version: GoogleEventVersion;
+}
+
+interface StubFailure {
+  status: number;
+  body: unknown;
+}
+
+function json(status: number, body: unknown) {
+  return new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Checks just enough of each request body for the stub to use it
+
+function isStoreTokensRequest(body: unknown): body is StoreTokensRequest {
+  return isRecord(body) && typeof body.userId === 'string' && typeof body.accessToken === 'string';
+}
+
+function isCreateEventRequest(body: unknown): body is CreateEventRequest {
+  return (
+    isRecord(body) &&
+    typeof body.id === 'string' &&
+    typeof body.title === 'string' &&
+    typeof body.start_time === 'string' &&
+    typeof body.end_time === 'string'
+  );
+}
+
+function isUpdateEventRequest(body: unknown): body is UpdateEventRequest {
+  return (
+    isCreateEventRequest(body) &&
+    isRecord(body) &&
+    typeof body.googleEventId === 'string' &&
+    (body.syncedAt === null || typeof body.syncedAt === 'string')
+  );
+}
+
+function isDeleteEventRequest(body: unknown): body is DeleteEventRequest {
+  return isRecord(body) && typeof body.googleEventId === 'string';
+}
+
+function badRequest(method: string, path: string) {
+  return json(400, { error: `Malformed body for ${method} ${path}` });
+}
+
+function eventNotFound() {
+  return json(404, { error: 'Event not found in Google Calendar' });
+}
+
+function toVersion(body: CreateEventRequest): GoogleEventVersion {
+  return {
+    title: body.title,
+    description: body.description,
+    start_time: body.start_time,
+    end_time: body.end_time,
+    all_day: body.all_day,
+    recurrence_rule: body.recurrence_rule,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * An in-process stand-in for the sync backend, with Google Calendar kept in memory.
+ * Pass its `fetch` to createSyncApi (or set EXPO_PUBLIC_BACKEND_URL=stub) to run the
+ * sync flows without a server, and use the controls to script failures, expired
+ * sessions, slow responses and edits made on the Google side.
+ */
+export function createSyncApiStub() {
+  const tokens = new Map<string, StoreTokensRequest>();
+  // Keyed by the app's event id
+  const events = new Map<string, StubEvent>();
+  const failures: StubFailure[] = [];
+  const rejectedTokens = new Set<string>();
+  let latencyMs = 0;
+  let googleAccess: GoogleAccessStatus = 'not_connected';
+  let nextGoogleId = 1;
+  const calendars: GoogleCalendar[] = [
+    { id: 'stub-user@example.com', name: 'Personal', color: '#F97316', primary: true, accessRole: 'owner' },
+    { id: 'stub-work@group.calendar.google.com', name: 'Work', color: '#3B82F6', primary: false, accessRole: 'owner' },
+    { id: 'stub-holidays@group.v.calendar.google.com', name: 'Holidays', color: '#10B981', primary: false, accessRole: 'reader' },
+  ];
+
+  const handle = async (method: string, path: string, body: unknown): Promise<Response> => {
+    if (path === '/api/sync/health' && method === 'GET') {
+      return json(200, {
+        googleAccess,
+        error: googleAccess === 'reauth_required' ? 'Google refused the stored refresh token' : null,
+        checkedAt: new Date().toISOString(),
+      });
+    }
+
+    if (path === '/api/sync/tokens' && method === 'POST') {
+      if (!isStoreTokensRequest(body)) return badRequest(method, path);
+      tokens.set(body.userId, body);
+      googleAccess = 'ok';
+      return json(200, { success: true });
+    }
+
+    if (googleAccess !== 'ok' && path !== '/api/sync/tokens') {
+      return json(403, { error: 'Google Calendar access needs to be renewed' });
+    }
+
+    if (path === '/api/sync/calendars' && method === 'GET') {
+      return json(200, { calendars });
+    }
+
+    if (path === '/api/sync/events' && method === 'POST') {
+      if (!isCreateEventRequest(body)) return badRequest(method, path);
+      const googleEventId = `stub-${nextGoogleId++}`;
+      events.set(body.id, { googleEventId, version: toVersion(body) });
+      return json(201, { googleEventId });
+    }
+
+    const match = path.match(/^\/api\/sync\/events\/([^/]+)$/);
+    if (!match) return json(404, { error: `No route for ${method} ${path}` });
+
+    const eventId = decodeURIComponent(match[1]);
+    const existing = events.get(eventId);
+
+    if (method === 'PATCH') {
+      if (!isUpdateEventRequest(body)) return badRequest(method, path);
+      if (!existing || existing.googleEventId !== body.googleEventId) return eventNotFound();
+
+      if (body.syncedAt === null || Date.parse(existing.version.updated_at) > Date.parse(body.syncedAt)) {
+        return json(409, { error: 'Changed in Google Calendar too', remote: existing.version });
+      }
+      existing.version = toVersion(body);
+      return json(200, { googleEventId: existing.googleEventId });
+    }
+
+    if (method === 'DELETE') {
+      if (!isDeleteEventRequest(body)) return badRequest(method, path);
+      if (!existing || existing.googleEventId !== body.googleEventId) return eventNotFound();
+
+      events.delete(eventId);
+      return json(204, null);
+    }
+
+    return json(405, { error: `${method} not allowed` });
+  };
+
+  const stubFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = init.method ?? 'GET';
+    const path = url.slice(url.indexOf('/api/'));
+    const authorization = new Headers(init.headers).get('Authorization') ?? '';
+    const accessToken = authorization.replace(/^Bearer /, '');
+
+    if (latencyMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, latencyMs);
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('Aborted'));
+        });
+      });
+    }
+
+    if (!accessToken || rejectedTokens.has(accessToken)) {
+      return json(401, { error: 'Invalid or expired session' });
+    }
+
+    const failure = failures.shift();
+    if (failure) return json(failure.status, failure.body);
+
+    return handle(method, path, init.body ? JSON.parse(String(init.body)) : null);
+  };
+
+  return {
+    fetch: stubFetch as typeof fetch,
+    tokens,
+    events,
+    calendars,
+
+    /** Answer the next `count` requests with `status` instead of handling them. */
+    failNext: (status: number, count: number = 1, body: unknown = { error: 'Stubbed failure' }) => {
+      for (let i = 0; i < count; i++) failures.push({ status, body });
+    },
+
+    /** Answer requests carrying this token with 401, as if the session expired. */
+    rejectToken: (accessToken: string) => {
+      rejectedTokens.add(accessToken);
+    },
+
+    /** Delay every response, e.g. to trip the client's timeout. */
+    setLatency: (ms: number) => {
+      latencyMs = ms;
+    },
+
+    /** Break Google access as if the user revoked it; storing new tokens restores it. */
+    revokeGoogleAccess: () => {
+      googleAccess = 'reauth_required';
+    },
+
+    /** Change an event as if it were edited in Google Calendar. */
+    editInGoogle: (eventId: string, changes: Partial<Omit<GoogleEventVersion, 'updated_at'>>) => {
+      const existing = events.get(eventId);
+      if (!existing) throw new Error(`Event ${eventId} is not in the stub's Google Calendar`);
+      existing.version = { ...existing.version, ...changes, updated_at: new Date().toISOString() };
+    },
+  };
+}
+
+export type SyncApiStub = ReturnType<typeof createSyncApiStub>;
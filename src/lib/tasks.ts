@@ -0,0 +1,89 @@
+import { CalendarEvent, Task } from './supabase';
+import { isAllDayLaneEvent } from './dates';
+import { DEFAULT_PREFERENCES } from './preferences';
+
+const MINUTE = 60 * 1000;
+const SLOT_STEP_MINUTES = 15;
+
+export interface FreeSlotOptions {
+  // Nothing is scheduled before this, e.g. now when scheduling for today
+  notBefore?: Date;
+  // Local hours bounding the part of the day tasks may be scheduled into
+  dayStartHour?: number;
+  dayEndHour?: number;
+}
+
+export interface TaskProgress {
+  // Minutes of time blocks on the calendar for this task
+  scheduledMinutes: number;
+  // Minutes of those blocks that are already over
+  completedMinutes: number;
+  // completedMinutes against the estimate, capped at 1
+  ratio: number;
+}
+
+function ceilToStep(time: number) {
+  const step = SLOT_STEP_MINUTES * MINUTE;
+  return Math.ceil(time / step) * step;
+}
+
+/**
+ * The earliest gap of `durationMinutes` on `day` that doesn't overlap a timed event,
+ * starting on a 15-minute boundary. All-day events don't block time. Returns null
+ * if the day is too full.
+ */
+export function findFreeSlot(
+  events: CalendarEvent[],
+  day: Date,
+  durationMinutes: number,
+  {
+    notBefore,
+    dayStartHour = DEFAULT_PREFERENCES.dayStartHour,
+    dayEndHour = DEFAULT_PREFERENCES.dayEndHour,
+  }: FreeSlotOptions = {}
+): { start: Date; end: Date } | null {
+  const windowStart = new Date(day);
+  windowStart.setHours(dayStartHour, 0, 0, 0);
+  const windowEnd = new Date(day);
+  windowEnd.setHours(dayEndHour, 0, 0, 0);
+
+  const duration = durationMinutes * MINUTE;
+  let cursor = ceilToStep(Math.max(windowStart.getTime(), notBefore?.getTime() ?? 0));
+
+  const busy = events
+    .filter((event) => !isAllDayLaneEvent(event))
+    .map((event) => ({ start: Date.parse(event.start_time), end: Date.parse(event.end_time) }))
+    .filter((block) => block.end > cursor && block.start < windowEnd.getTime())
+    .sort((a, b) => a.start - b.start);
+
+  for (const block of busy) {
+    if (block.start - cursor >= duration) break;
+    cursor = Math.max(cursor, ceilToStep(block.end));
+  }
+
+  if (cursor + duration > windowEnd.getTime()) return null;
+  return { start: new Date(cursor), end: new Date(cursor + duration) };
+}
+
+/** How much of a task has been worked through, counting blocks once they end. */
+export function getTaskProgress(task: Task, blocks: CalendarEvent[], now: Date): TaskProgress {
+  let scheduledMinutes = 0;
+  let completedMinutes = 0;
+
+  for (const block of blocks) {
+    if (block.task_id !== task.id) continue;
+
+    const end = Date.parse(block.end_time);
+    const minutes = Math.round((end - Date.parse(block.start_time)) / MINUTE);
+    scheduledMinutes += minutes;
+    if (end <= now.getTime()) {
+      completedMinutes += minutes;
+    }
+  }
+
+  return {
+    scheduledMinutes,
+    completedMinutes,
+    ratio: Math.min(completedMinutes / task.estimated_minutes, 1),
+  };
+}
@@ -0,0 +1,162 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export interface ZonedParts {
+  year: number;
+  // 0-based, like Date#getMonth()
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  // 0 = Sunday, like Date#getDay()
+  weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Creating formatters is slow and recurrence expansion asks for thousands of dates
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+let deviceTimeZone: string | null = null;
+
+/** The device's IANA timezone, e.g. `America/New_York`. */
+export function getDeviceTimeZone(): string {
+  if (!deviceTimeZone) {
+    deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  }
+  return deviceTimeZone;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and time of an instant as seen in `timeZone`. */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  // The device zone is what Date's own getters already use, and they're far cheaper
+  if (timeZone === getDeviceTimeZone()) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      seconds: date.getSeconds(),
+      weekday: date.getDay(),
+    };
+  }
+
+  const values: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+  return {
+    year: Number(values.year),
+    month: Number(values.month) - 1,
+    day: Number(values.day),
+    // Some engines still print midnight as 24 under h23
+    hours: Number(values.hour) % 24,
+    minutes: Number(values.minute),
+    seconds: Number(values.second),
+    weekday: WEEKDAY_INDEX[values.weekday],
+  };
+}
+
+/** Minutes `timeZone` is ahead of UTC at `date`, e.g. -240 for New York in summer. */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds);
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / MINUTE);
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to. Out-of-range fields roll over
+ * like `new Date(...)`. Times skipped by a DST jump move forward by the jump; times
+ * that happen twice when clocks go back resolve to the first one.
+ */
+export function zonedDateTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours: number = 0,
+  minutes: number = 0,
+  seconds: number = 0
+): Date {
+  if (timeZone === getDeviceTimeZone()) {
+    return new Date(year, month, day, hours, minutes, seconds);
+  }
+
+  const wall = Date.UTC(year, month, day, hours, minutes, seconds);
+  // Offsets either side of any transition near this time
+  const before = getTimeZoneOffset(new Date(wall - 12 * HOUR), timeZone);
+  const after = getTimeZoneOffset(new Date(wall + 12 * HOUR), timeZone);
+
+  const early = wall - before * MINUTE;
+  if (before === after) return new Date(early);
+
+  const late = wall - after * MINUTE;
+  const earlyValid = getTimeZoneOffset(new Date(early), timeZone) === before;
+  const lateValid = getTimeZoneOffset(new Date(late), timeZone) === after;
+  // In a gap neither reading exists; the earlier offset pushes the time past the jump
+  return new Date(lateValid && !earlyValid ? late : early);
+}
+
+/** Midnight at the start of a `YYYY-MM-DD` date in `timeZone`. */
+export function startOfDayInZone(dateKey: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return zonedDateTime(timeZone, year, month - 1, day);
+}
+
+/**
+ * Query window covering `dayCount` calendar days from `startDateKey` in `timeZone`:
+ * local midnight of the first day to the last millisecond of the last one. Days are
+ * 23 or 25 hours long across DST changes, so this can't be done with fixed offsets.
+ */
+export function getRangeBounds(startDateKey: string, dayCount: number, timeZone: string) {
+  const [year, month, day] = startDateKey.split('-').map(Number);
+  const rangeStart = zonedDateTime(timeZone, year, month - 1, day);
+  const nextDay = zonedDateTime(timeZone, year, month - 1, day + dayCount);
+  return { rangeStart, rangeEnd: new Date(nextDay.getTime() - 1) };
+}
+
+/**
+ * Wall-clock minutes from `dayStart` (a local midnight) to `date`, which is where
+ * `date` sits on a time grid labelled by the clock. On DST days this differs from
+ * the elapsed time: 3 AM is minute 180 even on the day 2–3 AM never happens.
+ */
+export function minutesIntoDay(date: Date, dayStart: Date, timeZone: string): number {
+  const elapsed = (date.getTime() - dayStart.getTime()) / MINUTE;
+  return elapsed + getTimeZoneOffset(date, timeZone) - getTimeZoneOffset(dayStart, timeZone);
+}
+
+/** The instant at a wall-clock minute of the day starting at `dayStart`. */
+export function atMinuteOfDay(dayStart: Date, minute: number, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(dayStart, timeZone);
+  return zonedDateTime(timeZone, year, month, day, 0, minute);
+}
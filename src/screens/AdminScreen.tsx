@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { AdminSyncError, AdminUserSummary } from '../lib/supabase';
+import { formatTimeAgo } from '../lib/dates';
+import { useAdminUsers } from '../hooks/useAdminUsers';
+import { Avatar } from '../components/Avatar';
+
+interface AdminScreenProps {
+  onClose: () => void;
+}
+
+function needsAttention(user: AdminUserSummary) {
+  return user.failed_count > 0 || user.conflict_count > 0;
+}
+
+function describeHealth(user: AdminUserSummary) {
+  const problems = [
+    user.failed_count > 0 && `${user.failed_count} failed`,
+    user.conflict_count > 0 && `${user.conflict_count} in conflict`,
+    user.pending_count > 0 && `${user.pending_count} pending`,
+  ].filter(Boolean);
+  return problems.length > 0 ? problems.join(' · ') : 'Healthy';
+}
+
+interface UserRowProps {
+  user: AdminUserSummary;
+  expanded: boolean;
+  onToggle: () => void;
+  fetchSyncErrors: (userId: string) => Promise<AdminSyncError[]>;
+  requestResync: (userId: string) => Promise<void>;
+}
+
+function UserRow({ user, expanded, onToggle, fetchSyncErrors, requestResync }: UserRowProps) {
+  const [errors, setErrors] = useState<AdminSyncError[] | null>(null);
+  const [loadingErrors, setLoadingErrors] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+
+  const loadErrors = async () => {
+    setLoadingErrors(true);
+    try {
+      setErrors(await fetchSyncErrors(user.id));
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setLoadingErrors(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!expanded && errors === null) loadErrors();
+    onToggle();
+  };
+
+  const confirmResync = () => {
+    Alert.alert(
+      'Request Resync',
+      `${user.email}'s app will push every event that hasn't reached Google Calendar the next time it is open.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Request',
+          onPress: async () => {
+            setRequesting(true);
+            try {
+              await requestResync(user.id);
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            } finally {
+              setRequesting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const healthy = !needsAttention(user);
+
+  return (
+    <View style={styles.user}>
+      <TouchableOpacity style={styles.userRow} onPress={toggle}>
+        <Avatar uri={user.avatar_url} name={user.full_name || user.email} size={36} />
+        <View style={styles.userInfo}>
+          <View style={styles.userNameRow}>
+            <Text style={styles.userName} numberOfLines={1}>{user.full_name || user.email}</Text>
+            {user.role === 'admin' && <Text style={styles.roleBadge}>Admin</Text>}
+          </View>
+          {user.full_name && <Text style={styles.userEmail} numberOfLines={1}>{user.email}</Text>}
+          <Text style={[styles.userHealth, healthy ? styles.healthy : styles.unhealthy]}>{describeHealth(user)}</Text>
+          <Text style={styles.userMeta}>
+            {user.event_count} {user.event_count === 1 ? 'event' : 'events'} ·{' '}
+            {user.last_synced_at ? `Last synced ${formatTimeAgo(new Date(user.last_synced_at))}` : 'Never synced'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.details}>
+          <Text style={styles.detailsTitle}>Recent sync errors</Text>
+          {loadingErrors && <ActivityIndicator color="#F97316" />}
+          {!loadingErrors && errors?.length === 0 && <Text style={styles.detailsEmpty}>No sync errors.</Text>}
+          {!loadingErrors &&
+            errors?.map((error) => (
+              <View key={error.event_id} style={styles.syncError}>
+                <Text style={styles.syncErrorMeta}>
+                  {error.sync_status} · {formatTimeAgo(new Date(error.updated_at))} · {error.event_id.slice(0, 8)}
+                </Text>
+                <Text style={styles.syncErrorText}>{error.sync_error || 'No message recorded'}</Text>
+              </View>
+            ))}
+          {!loadingErrors && (
+            <TouchableOpacity onPress={loadErrors}>
+              <Text style={styles.link}>Reload errors</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.resyncButton} onPress={confirmResync} disabled={requesting}>
+            <Text style={styles.resyncButtonText}>{requesting ? 'Requesting…' : 'Request resync'}</Text>
+          </TouchableOpacity>
+          {user.resync_requested_at && (
+            <Text style={styles.detailsEmpty}>
+              Resync last requested {formatTimeAgo(new Date(user.resync_requested_at))}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Support console for admins: every user with the sync state of their events, their
+ * recent sync errors, and a way to make their app resync. Only reachable for profiles
+ * with the admin role; the database refuses these queries for anyone else.
+ */
+export function AdminScreen({ onClose }: AdminScreenProps) {
+  const { users, loading, error, refresh, fetchSyncErrors, requestResync } = useAdminUsers(true);
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+
+  const visibleUsers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return users.filter(
+      (user) =>
+        (!onlyProblems || needsAttention(user)) &&
+        (!query || user.email.toLowerCase().includes(query) || user.full_name?.toLowerCase().includes(query))
+    );
+  }, [users, search, onlyProblems]);
+
+  const problemCount = users.filter(needsAttention).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Admin</Text>
+        <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.toolbar}>
+        <TextInput
+          style={styles.input}
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Search by name or email"
+          placeholderTextColor="#6B6B6B"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={[styles.filterChip, onlyProblems && styles.filterChipSelected]}
+          onPress={() => setOnlyProblems(!onlyProblems)}
+        >
+          <Text style={[styles.filterChipText, onlyProblems && styles.filterChipTextSelected]}>
+            {problemCount} need attention
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={loading} onRefresh={refresh} tintColor="#F97316" />}
+      >
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {!error && !loading && visibleUsers.length === 0 && (
+          <Text style={styles.emptyText}>{users.length === 0 ? 'No users yet.' : 'No users match.'}</Text>
+        )}
+        {visibleUsers.map((user) => (
+          <UserRow
+            key={user.id}
+            user={user}
+            expanded={expandedId === user.id}
+            onToggle={() => setExpandedId(expandedId === user.id ? null : user.id)}
+            fetchSyncErrors={fetchSyncErrors}
+            requestResync={requestResync}
+          />
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0D0D0D',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: -0.5,
+  },
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
+  },
+  doneButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  toolbar: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  filterChip: {
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
+  },
+  filterChipSelected: {
+    backgroundColor: '#F97316',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  filterChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 16,
+  },
+  user: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A1A',
+  },
+  userRow: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  userName: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  roleBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+  userEmail: {
+    fontSize: 13,
+    color: '#8B8B8B',
+    marginTop: 2,
+  },
+  userHealth: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  healthy: {
+    color: '#10B981',
+  },
+  unhealthy: {
+    color: '#EF4444',
+  },
+  userMeta: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 2,
+  },
+  details: {
+    paddingLeft: 48,
+    paddingBottom: 16,
+    gap: 8,
+  },
+  detailsTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  detailsEmpty: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  syncError: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 8,
+    padding: 10,
+  },
+  syncErrorMeta: {
+    fontSize: 11,
+    color: '#6B6B6B',
+  },
+  syncErrorText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+    marginTop: 4,
+  },
+  link: {
+    fontSize: 14,
+    color: '#F97316',
+  },
+  resyncButton: {
+    marginTop: 4,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  resyncButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+});
@@ -1,31 +1,81 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   StyleSheet,
   Alert,
   ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
 } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
+import * as AppleAuthentication from 'expo-apple-authentication';
 import { useAuthStore } from '../stores/authStore';
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 export function AuthScreen() {
   const signInWithGoogle = useAuthStore((state) => state.signInWithGoogle);
+  const signInWithApple = useAuthStore((state) => state.signInWithApple);
+  const sendEmailSignIn = useAuthStore((state) => state.sendEmailSignIn);
+  const verifyEmailCode = useAuthStore((state) => state.verifyEmailCode);
   const authLoading = useAuthStore((state) => state.authLoading);
   const isReady = useAuthStore((state) => state.isReady);
 
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  const [email, setEmail] = useState('');
+  // The address a link and code were sent to; null until then
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+
+  useEffect(() => {
+    AppleAuthentication.isAvailableAsync().then(setAppleAvailable);
+  }, []);
+
+  const showError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    Alert.alert('Sign In Error', message);
+  };
+
   const handleGoogleSignIn = async () => {
     try {
       await signInWithGoogle();
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'An unexpected error occurred';
-      Alert.alert('Sign In Error', message);
+      showError(error);
+    }
+  };
+
+  const handleAppleSignIn = async () => {
+    try {
+      await signInWithApple();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSendEmail = async () => {
+    try {
+      await sendEmailSignIn(email);
+      setSentTo(email.trim());
+      setCode('');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!sentTo) return;
+    try {
+      await verifyEmailCode(sentTo, code);
+    } catch (error) {
+      showError(error);
     }
   };
 
   return (
-    <View style={styles.container}>
+    <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
       <View style={styles.header}>
         <Text style={styles.logo}>☀️</Text>
         <Text style={styles.title}>Intentive</Text>
@@ -34,7 +84,8 @@ export function AuthScreen() {
 
       <View style={styles.content}>
         <Text style={styles.description}>
-          Sign in with your Google account to sync your calendar and manage your daily schedule.
+          Sign in to plan your day. Use Google to sync your calendar right away, or connect it
+          later from your profile.
         </Text>
 
         <TouchableOpacity
@@ -69,11 +120,85 @@ export function AuthScreen() {
           )}
         </TouchableOpacity>
 
+        {appleAvailable && (
+          <AppleAuthentication.AppleAuthenticationButton
+            buttonType={AppleAuthentication.AppleAuthenticationButtonType.CONTINUE}
+            buttonStyle={AppleAuthentication.AppleAuthenticationButtonStyle.WHITE}
+            cornerRadius={12}
+            style={[styles.appleButton, authLoading && styles.buttonDisabled]}
+            onPress={authLoading ? () => {} : handleAppleSignIn}
+          />
+        )}
+
+        <View style={styles.divider}>
+          <View style={styles.dividerLine} />
+          <Text style={styles.dividerText}>or</Text>
+          <View style={styles.dividerLine} />
+        </View>
+
+        {sentTo ? (
+          <View style={styles.emailForm}>
+            <Text style={styles.emailSentText}>
+              We sent a sign-in link to {sentTo}. Open it on this device, or enter the code from the email.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={code}
+              onChangeText={setCode}
+              placeholder="6-digit code"
+              placeholderTextColor="#6B6B6B"
+              keyboardType="number-pad"
+              textContentType="oneTimeCode"
+              autoComplete="one-time-code"
+              maxLength={10}
+            />
+            <TouchableOpacity
+              style={[styles.emailButton, (code.trim().length < 6 || authLoading) && styles.buttonDisabled]}
+              onPress={handleVerifyCode}
+              disabled={code.trim().length < 6 || authLoading}
+            >
+              <Text style={styles.emailButtonText}>Sign In</Text>
+            </TouchableOpacity>
+            <View style={styles.emailLinks}>
+              <TouchableOpacity onPress={handleSendEmail} disabled={authLoading}>
+                <Text style={styles.link}>Send again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setSentTo(null)} disabled={authLoading}>
+                <Text style={styles.link}>Use a different email</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.emailForm}>
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="you@example.com"
+              placeholderTextColor="#6B6B6B"
+              keyboardType="email-address"
+              textContentType="emailAddress"
+              autoComplete="email"
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="send"
+              onSubmitEditing={() => EMAIL_PATTERN.test(email.trim()) && handleSendEmail()}
+            />
+            <TouchableOpacity
+              style={[styles.emailButton, (!EMAIL_PATTERN.test(email.trim()) || authLoading) && styles.buttonDisabled]}
+              onPress={handleSendEmail}
+              disabled={!EMAIL_PATTERN.test(email.trim()) || authLoading}
+            >
+              <Text style={styles.emailButtonText}>Email me a sign-in link</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <Text style={styles.footerText}>
-          By signing in, you agree to sync your Google Calendar with Intentive
+          Signing in with Google also syncs your Google Calendar with Intentive
         </Text>
       </View>
-    </View>
+    </KeyboardAvoidingView>
   );
 }
 
@@ -130,6 +255,58 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  appleButton: {
+    height: 52,
+  },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#2A2A2A',
+  },
+  dividerText: {
+    fontSize: 13,
+    color: '#6B6B6B',
+  },
+  emailForm: {
+    gap: 12,
+  },
+  emailSentText: {
+    fontSize: 14,
+    color: '#A0A0A0',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  emailButton: {
+    alignItems: 'center',
+    backgroundColor: '#F97316',
+    borderRadius: 12,
+    padding: 16,
+  },
+  emailButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emailLinks: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  link: {
+    fontSize: 14,
+    color: '#F97316',
+  },
   footerText: {
     fontSize: 13,
     color: '#6B6B6B',
@@ -1,28 +1,73 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  RefreshControl,
   Modal,
   TextInput,
   Alert,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuthStore } from '../stores/authStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { useCalendarStore, getWritableCalendars, resolveCalendarId } from '../stores/calendarStore';
 import { useEvents } from '../hooks/useEvents';
-import { CalendarEvent } from '../lib/supabase';
+import { useReminders } from '../hooks/useReminders';
+import { useGoogleAccess } from '../hooks/useGoogleAccess';
+import { useCategories } from '../hooks/useCategories';
+import { useProfile } from '../hooks/useProfile';
+import { useEventColor } from '../hooks/useEventColor';
+import { EventEditorSheet } from '../components/EventEditorSheet';
+import { ConflictSheet } from '../components/ConflictSheet';
+import { RecurrenceScopeSheet, ScopePrompt } from '../components/RecurrenceScopeSheet';
+import { TimeGrid } from '../components/TimeGrid';
+import { MonthPicker } from '../components/MonthPicker';
+import { QuickAddSheet } from '../components/QuickAddSheet';
+import { CalendarListSheet } from '../components/CalendarListSheet';
+import { CategoryColorPicker } from '../components/CategoryColorPicker';
+import { CategoryManagerSheet } from '../components/CategoryManagerSheet';
+import { Avatar } from '../components/Avatar';
+import { NowScreen } from './NowScreen';
+import { TasksScreen } from './TasksScreen';
+import { ProfileScreen } from './ProfileScreen';
+import { CalendarEvent, RecurrenceRule } from '../lib/supabase';
+import { RecurrenceScope, isRecurring } from '../lib/recurrence';
+import { addDays, allDayTimes, startOfLocalDay, startOfWeek, toDateKey } from '../lib/dates';
+import { HOUR_HEIGHTS, formatHour } from '../lib/preferences';
 
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
+const MAX_ALL_DAY_LENGTH = 14;
+const REPEAT_OPTIONS: { label: string; rule: RecurrenceRule | null }[] = [
+  { label: 'Never', rule: null },
+  { label: 'Daily', rule: { frequency: 'daily', interval: 1, by_weekday: null, until: null, count: null, exceptions: [] } },
+  {
+    label: 'Weekdays',
+    rule: {
+      frequency: 'weekly',
+      interval: 1,
+      by_weekday: ['MO', 'TU', 'WE', 'TH', 'FR'],
+      until: null,
+      count: null,
+      exceptions: [],
+    },
+  },
+  { label: 'Weekly', rule: { frequency: 'weekly', interval: 1, by_weekday: null, until: null, count: null, exceptions: [] } },
+  { label: 'Monthly', rule: { frequency: 'monthly', interval: 1, by_weekday: null, until: null, count: null, exceptions: [] } },
+];
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true,
-  });
+type ViewMode = 'day' | '3day' | 'week';
+
+const VIEW_MODES: { mode: ViewMode; label: string; days: number }[] = [
+  { mode: 'day', label: 'Day', days: 1 },
+  { mode: '3day', label: '3 Day', days: 3 },
+  { mode: 'week', label: 'Week', days: 7 },
+];
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
 
 function formatDateHeader(date: Date): string {
@@ -42,52 +87,109 @@ function formatDateHeader(date: Date): string {
   });
 }
 
-interface EventBlockProps {
-  event: CalendarEvent;
-  onPress: () => void;
-}
-
-function EventBlock({ event, onPress }: EventBlockProps) {
-  const startTime = new Date(event.start_time);
-  const endTime = new Date(event.end_time);
-  const startHour = startTime.getHours() + startTime.getMinutes() / 60;
-  const duration = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60);
-
-  const colors = ['#F97316', '#10B981', '#3B82F6', '#8B5CF6', '#EC4899'];
-  const colorIndex = event.title.length % colors.length;
-
-  return (
-    <TouchableOpacity
-      style={[
-        styles.eventBlock,
-        {
-          top: startHour * 60,
-          height: Math.max(duration * 60, 30),
-          backgroundColor: colors[colorIndex] + '20',
-          borderLeftColor: colors[colorIndex],
-        },
-      ]}
-      onPress={onPress}
-    >
-      <Text style={[styles.eventTitle, { color: colors[colorIndex] }]} numberOfLines={1}>
-        {event.title}
-      </Text>
-      <Text style={styles.eventTime}>
-        {formatTime(startTime)} - {formatTime(endTime)}
-      </Text>
-    </TouchableOpacity>
-  );
-}
-
 export function HomeScreen() {
   const user = useAuthStore((state) => state.user);
-  const signOut = useAuthStore((state) => state.signOut);
+  const profile = useProfile();
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const { events, loading, refresh, createEvent, deleteEvent } = useEvents(selectedDate);
+  useReminders();
+  const { needsReconnect, reconnecting, reconnect } = useGoogleAccess();
+  const [viewMode, setViewMode] = useState<ViewMode>('day');
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+  const weekStartsOn = usePreferencesStore((state) => state.weekStartsOn);
+  const defaultDurationMinutes = usePreferencesStore((state) => state.defaultDurationMinutes);
+  const dayStartHour = usePreferencesStore((state) => state.dayStartHour);
+  const dayEndHour = usePreferencesStore((state) => state.dayEndHour);
+  const gridDensity = usePreferencesStore((state) => state.gridDensity);
+  const dayCount = VIEW_MODES.find((option) => option.mode === viewMode)!.days;
+
+  // The week view snaps to the start of the week; other views start at the selected day
+  const visibleDays = useMemo(() => {
+    const first = viewMode === 'week' ? startOfWeek(selectedDate, weekStartsOn) : startOfLocalDay(selectedDate);
+    return Array.from({ length: dayCount }, (_, i) => addDays(first, i));
+  }, [selectedDate, viewMode, dayCount, weekStartsOn]);
 
+  const {
+    events,
+    loading,
+    refresh,
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    resolveConflict,
+    pendingEventIds,
+    pendingCount,
+    rejectedEventIds,
+    rejectedCount,
+    rejectedError,
+    retryRejected,
+    discardRejected,
+    isOnline,
+    isSyncing,
+    failedSyncCount,
+    retryAllSyncs,
+  } = useEvents(visibleDays[0], dayCount);
+
+  const [monthPickerVisible, setMonthPickerVisible] = useState(false);
+  const [nowVisible, setNowVisible] = useState(false);
+  const [tasksVisible, setTasksVisible] = useState(false);
+  const [calendarsVisible, setCalendarsVisible] = useState(false);
+  const [profileVisible, setProfileVisible] = useState(false);
+  const [categoriesVisible, setCategoriesVisible] = useState(false);
+  // Categories the grid is narrowed to; empty shows every event
+  const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
+  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
+  const [conflictEvent, setConflictEvent] = useState<CalendarEvent | null>(null);
+  const [scopeRequest, setScopeRequest] = useState<
+    (ScopePrompt & { resolve: (scope: RecurrenceScope | null) => void }) | null
+  >(null);
+  const [quickAddVisible, setQuickAddVisible] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [newEventTitle, setNewEventTitle] = useState('');
-  const [newEventStartHour, setNewEventStartHour] = useState(9);
+  // Null until the user picks an hour; until then new events start at the first hour of their day
+  const [pickedStartHour, setPickedStartHour] = useState<number | null>(null);
+  const [newEventAllDay, setNewEventAllDay] = useState(false);
+  const [newEventDays, setNewEventDays] = useState(1);
+  const [newEventRepeat, setNewEventRepeat] = useState(0);
+  // null puts the event in the default calendar
+  const [newEventCalendarId, setNewEventCalendarId] = useState<string | null>(null);
+  const [newEventCategoryId, setNewEventCategoryId] = useState<string | null>(null);
+  const [newEventColor, setNewEventColor] = useState<string | null>(null);
+  // Kept among the hours the picker offers, even after the user's day changes
+  const newEventStartHour = Math.min(Math.max(pickedStartHour ?? dayStartHour, dayStartHour), dayEndHour);
+
+  const calendars = useCalendarStore((state) => state.calendars);
+  const defaultCalendarId = useCalendarStore((state) => state.defaultCalendarId);
+  const fetchCalendars = useCalendarStore((state) => state.fetchCalendars);
+  const writableCalendars = getWritableCalendars(calendars);
+  const targetCalendarId = resolveCalendarId(calendars, newEventCalendarId ?? defaultCalendarId);
+  const newEventAutoColor = useEventColor({
+    color: null,
+    category_id: newEventCategoryId,
+    calendar_id: targetCalendarId,
+  })!;
+
+  const categories = useCategories();
+  // Deleted categories drop out of the filter
+  const activeCategoryFilter = useMemo(
+    () => categoryFilter.filter((id) => categories.some((category) => category.id === id)),
+    [categoryFilter, categories]
+  );
+  const filteredEvents = useMemo(
+    () => activeCategoryFilter.length === 0
+      ? events
+      : events.filter((event) => event.category_id && activeCategoryFilter.includes(event.category_id)),
+    [events, activeCategoryFilter]
+  );
+
+  const toggleCategoryFilter = (categoryId: string) => {
+    setCategoryFilter((current) => current.includes(categoryId)
+      ? current.filter((id) => id !== categoryId)
+      : [...current, categoryId]);
+  };
+
+  useEffect(() => {
+    fetchCalendars();
+  }, [user?.id, fetchCalendars]);
 
   const handleCreateEvent = async () => {
     if (!newEventTitle.trim()) {
@@ -98,24 +200,56 @@ export function HomeScreen() {
     const startTime = new Date(selectedDate);
     startTime.setHours(newEventStartHour, 0, 0, 0);
 
-    const endTime = new Date(startTime);
-    endTime.setHours(startTime.getHours() + 1);
+    const endTime = new Date(startTime.getTime() + defaultDurationMinutes * 60 * 1000);
 
     try {
       await createEvent({
         title: newEventTitle,
-        start_time: startTime.toISOString(),
-        end_time: endTime.toISOString(),
-        all_day: false,
+        ...(newEventAllDay
+          ? { ...allDayTimes(toDateKey(selectedDate), newEventDays), all_day: true }
+          : { start_time: startTime.toISOString(), end_time: endTime.toISOString(), all_day: false }),
+        recurrence_rule: REPEAT_OPTIONS[newEventRepeat].rule,
+        ...(newEventCalendarId && { calendar_id: newEventCalendarId }),
+        category_id: newEventCategoryId,
+        color: newEventColor,
       });
       setModalVisible(false);
       setNewEventTitle('');
+      setNewEventAllDay(false);
+      setNewEventDays(1);
+      setNewEventRepeat(0);
+      setNewEventCalendarId(null);
+      setNewEventCategoryId(null);
+      setNewEventColor(null);
     } catch (error: any) {
       Alert.alert('Error', error.message);
     }
   };
 
-  const handleDeleteEvent = (event: CalendarEvent) => {
+  /** Asks which occurrences a change applies to. Null if the user cancels. */
+  const askRecurrenceScope = (prompt: ScopePrompt) =>
+    new Promise<RecurrenceScope | null>((resolve) => {
+      setScopeRequest({ ...prompt, resolve });
+    });
+
+  const answerScopeRequest = (scope: RecurrenceScope | null) => {
+    scopeRequest?.resolve(scope);
+    setScopeRequest(null);
+  };
+
+  const handleDeleteEvent = async (event: CalendarEvent) => {
+    setEditingEvent(null);
+
+    if (isRecurring(event)) {
+      const scope = await askRecurrenceScope({
+        title: 'Delete Recurring Event',
+        message: `"${event.title}" repeats. Which events do you want to delete?`,
+        destructive: true,
+      });
+      if (scope) deleteEvent(event.id, scope);
+      return;
+    }
+
     Alert.alert(
       'Delete Event',
       `Are you sure you want to delete "${event.title}"?`,
@@ -130,27 +264,100 @@ export function HomeScreen() {
     );
   };
 
+  const handleReschedule = async (event: CalendarEvent, start: Date, end: Date) => {
+    const scope = isRecurring(event)
+      ? await askRecurrenceScope({
+        title: 'Reschedule Recurring Event',
+        message: `"${event.title}" repeats. Which events do you want to move?`,
+      })
+      : 'all';
+    if (!scope) return false;
+
+    try {
+      await updateEvent(
+        event.id,
+        { start_time: start.toISOString(), end_time: end.toISOString() },
+        scope
+      );
+      return true;
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+      return false;
+    }
+  };
+
+  // Occurrences of a recurring event are pending while their series has unsynced changes
+  const isPending = (event: CalendarEvent) =>
+    pendingEventIds.has(event.id) ||
+    (!!event.recurring_event_id && pendingEventIds.has(event.recurring_event_id));
+
+  const isRejected = (event: CalendarEvent) =>
+    rejectedEventIds.has(event.id) ||
+    (!!event.recurring_event_id && rejectedEventIds.has(event.recurring_event_id));
+
+  const handleRejectedChanges = () => {
+    Alert.alert(
+      "Changes Couldn't Be Saved",
+      `${rejectedError ?? 'The server refused them.'} Try again, or discard them to go back to the saved events.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: discardRejected },
+        { text: 'Try Again', onPress: () => retryRejected() },
+      ]
+    );
+  };
+
+  // Events changed in Google too open on the choice between both versions
+  const handleEventPress = (event: CalendarEvent) => {
+    if (event.sync_status === 'conflict' && event.google_version) {
+      setConflictEvent(event);
+    } else {
+      setEditingEvent(event);
+    }
+  };
+
+  const handleReconnect = async () => {
+    try {
+      await reconnect();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
   const navigateDate = (direction: number) => {
-    const newDate = new Date(selectedDate);
-    newDate.setDate(newDate.getDate() + direction);
-    setSelectedDate(newDate);
+    setSelectedDate(addDays(selectedDate, direction * dayCount));
   };
 
+  const rangeLabel = dayCount === 1
+    ? formatShortDate(selectedDate)
+    : `${formatShortDate(visibleDays[0])} – ${formatShortDate(visibleDays[visibleDays.length - 1])}`;
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <View>
           <Text style={styles.greeting}>
-            Hello, {user?.user_metadata?.full_name?.split(' ')[0] || 'there'}
+            Hello, {(profile?.full_name || user?.user_metadata?.full_name)?.split(' ')[0] || 'there'}
           </Text>
-          <Text style={styles.dateTitle}>{formatDateHeader(selectedDate)}</Text>
+          <TouchableOpacity onPress={() => setMonthPickerVisible(true)}>
+            <Text style={styles.dateTitle}>{formatDateHeader(selectedDate)} ▾</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setTasksVisible(true)}>
+            <Text style={styles.headerButtonText}>Tasks</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setNowVisible(true)}>
+            <Text style={styles.headerButtonText}>Now</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setCalendarsVisible(true)}>
+            <Text style={styles.headerButtonText}>Calendars</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setProfileVisible(true)}>
+            <Avatar uri={profile?.avatar_url ?? null} name={user?.email ?? ''} size={44} />
+          </TouchableOpacity>
         </View>
-        <TouchableOpacity style={styles.profileButton} onPress={signOut}>
-          <Text style={styles.profileButtonText}>
-            {user?.email?.charAt(0).toUpperCase() || '?'}
-          </Text>
-        </TouchableOpacity>
       </View>
 
       {/* Date Navigation */}
@@ -158,58 +365,197 @@ export function HomeScreen() {
         <TouchableOpacity onPress={() => navigateDate(-1)} style={styles.dateNavButton}>
           <Text style={styles.dateNavText}>←</Text>
         </TouchableOpacity>
-        <Text style={styles.dateNavCurrent}>
-          {selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-        </Text>
+        <TouchableOpacity onPress={() => setMonthPickerVisible(true)}>
+          <Text style={styles.dateNavCurrent}>{rangeLabel}</Text>
+        </TouchableOpacity>
         <TouchableOpacity onPress={() => navigateDate(1)} style={styles.dateNavButton}>
           <Text style={styles.dateNavText}>→</Text>
         </TouchableOpacity>
       </View>
 
-      {/* Calendar Grid */}
-      <ScrollView
-        style={styles.calendarContainer}
-        contentContainerStyle={styles.calendarContent}
-        refreshControl={
-          <RefreshControl refreshing={loading} onRefresh={refresh} tintColor="#F97316" />
-        }
-      >
-        <View style={styles.calendar}>
-          {/* Time column */}
-          <View style={styles.timeColumn}>
-            {HOURS.map((hour) => (
-              <View key={hour} style={styles.timeSlot}>
-                <Text style={styles.timeText}>
-                  {hour === 0 ? '12 AM' : hour < 12 ? `${hour} AM` : hour === 12 ? '12 PM' : `${hour - 12} PM`}
+      {/* View Switcher */}
+      <View style={styles.viewSwitcher}>
+        {VIEW_MODES.map((option) => (
+          <TouchableOpacity
+            key={option.mode}
+            style={[styles.viewOption, viewMode === option.mode && styles.viewOptionSelected]}
+            onPress={() => setViewMode(option.mode)}
+          >
+            <Text style={[styles.viewOptionText, viewMode === option.mode && styles.viewOptionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Category Filters */}
+      {categories.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.categoryFilters}
+          contentContainerStyle={styles.categoryFiltersContent}
+        >
+          <TouchableOpacity
+            style={[styles.categoryFilter, activeCategoryFilter.length === 0 && styles.categoryFilterSelected]}
+            onPress={() => setCategoryFilter([])}
+          >
+            <Text
+              style={[styles.categoryFilterText, activeCategoryFilter.length === 0 && styles.categoryFilterTextSelected]}
+            >
+              All
+            </Text>
+          </TouchableOpacity>
+          {categories.map((category) => {
+            const selected = activeCategoryFilter.includes(category.id);
+            return (
+              <TouchableOpacity
+                key={category.id}
+                style={[styles.categoryFilter, selected && styles.categoryFilterSelected]}
+                onPress={() => toggleCategoryFilter(category.id)}
+              >
+                <View style={[styles.categoryDot, { backgroundColor: category.color }]} />
+                <Text style={[styles.categoryFilterText, selected && styles.categoryFilterTextSelected]}>
+                  {category.name}
                 </Text>
-              </View>
-            ))}
-          </View>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity style={styles.categoryFilter} onPress={() => setCategoriesVisible(true)}>
+            <Text style={styles.categoryFilterText}>Edit</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
 
-          {/* Events column */}
-          <View style={styles.eventsColumn}>
-            {HOURS.map((hour) => (
-              <View key={hour} style={styles.hourLine} />
-            ))}
-            {events.map((event) => (
-              <EventBlock
-                key={event.id}
-                event={event}
-                onPress={() => handleDeleteEvent(event)}
-              />
-            ))}
-          </View>
-        </View>
-      </ScrollView>
+      {/* Google Calendar Access */}
+      {needsReconnect && (
+        <TouchableOpacity style={styles.reconnectBanner} onPress={handleReconnect} disabled={reconnecting}>
+          <Text style={styles.reconnectBannerTitle}>
+            {reconnecting ? 'Reconnecting…' : 'Reconnect Google Calendar'}
+          </Text>
+          <Text style={styles.reconnectBannerText}>
+            Intentive can no longer reach your Google Calendar. Your changes are kept here until you reconnect.
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Changes the server refused */}
+      {rejectedCount > 0 && (
+        <TouchableOpacity style={styles.reconnectBanner} onPress={handleRejectedChanges}>
+          <Text style={styles.reconnectBannerTitle}>
+            {rejectedCount} {rejectedCount === 1 ? "change couldn't" : "changes couldn't"} be saved
+          </Text>
+          <Text style={styles.reconnectBannerText}>Tap to try again or discard.</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Sync Status */}
+      {(pendingCount > 0 || failedSyncCount > 0 || !isOnline) && (
+        <TouchableOpacity
+          style={styles.syncBanner}
+          onPress={retryAllSyncs}
+          disabled={!isOnline || isSyncing}
+        >
+          <Text style={styles.syncBannerText}>
+            {!isOnline ? 'Offline' : isSyncing ? 'Syncing' : failedSyncCount > 0 ? 'Tap to retry all' : 'Tap to retry'}
+            {pendingCount > 0
+              ? ` · ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to sync`
+              : failedSyncCount > 0
+                ? ` · ${failedSyncCount} ${failedSyncCount === 1 ? 'event' : 'events'} not in Google Calendar`
+                : ' · Showing saved events'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Calendar Grid */}
+      <TimeGrid
+        days={visibleDays}
+        events={filteredEvents}
+        timeFormat={timeFormat}
+        hourHeight={HOUR_HEIGHTS[gridDensity]}
+        dayStartHour={dayStartHour}
+        dayEndHour={dayEndHour}
+        loading={loading}
+        onRefresh={refresh}
+        isPending={isPending}
+        isRejected={isRejected}
+        onEventPress={handleEventPress}
+        onReschedule={handleReschedule}
+      />
 
       {/* Add Event FAB */}
       <TouchableOpacity
         style={styles.fab}
-        onPress={() => setModalVisible(true)}
+        onPress={() => setQuickAddVisible(true)}
       >
         <Text style={styles.fabText}>+</Text>
       </TouchableOpacity>
 
+      {/* Month Picker */}
+      <MonthPicker
+        visible={monthPickerVisible}
+        selectedDate={selectedDate}
+        onSelect={setSelectedDate}
+        onClose={() => setMonthPickerVisible(false)}
+        weekStartsOn={weekStartsOn}
+      />
+
+      {/* Now Focus Mode */}
+      <Modal visible={nowVisible} animationType="slide" onRequestClose={() => setNowVisible(false)}>
+        <NowScreen onClose={() => setNowVisible(false)} />
+      </Modal>
+
+      {/* Tasks */}
+      <Modal visible={tasksVisible} animationType="slide" onRequestClose={() => setTasksVisible(false)}>
+        <TasksScreen date={selectedDate} onClose={() => setTasksVisible(false)} />
+      </Modal>
+
+      {/* Profile */}
+      <Modal visible={profileVisible} animationType="slide" onRequestClose={() => setProfileVisible(false)}>
+        <ProfileScreen onClose={() => setProfileVisible(false)} />
+      </Modal>
+
+      {/* Edit Event Sheet */}
+      <EventEditorSheet
+        event={editingEvent}
+        onClose={() => setEditingEvent(null)}
+        onSave={(updates, scope) => updateEvent(editingEvent!.id, updates, scope)}
+        onDelete={handleDeleteEvent}
+      />
+
+      {/* Calendar List */}
+      <CalendarListSheet visible={calendarsVisible} onClose={() => setCalendarsVisible(false)} />
+
+      {/* Categories */}
+      <CategoryManagerSheet visible={categoriesVisible} onClose={() => setCategoriesVisible(false)} />
+
+      {/* Google Calendar Conflict */}
+      <ConflictSheet
+        event={conflictEvent}
+        onClose={() => setConflictEvent(null)}
+        onResolve={resolveConflict}
+      />
+
+      {/* Recurring Event Scope */}
+      <RecurrenceScopeSheet
+        prompt={scopeRequest}
+        onSelect={answerScopeRequest}
+        onCancel={() => answerScopeRequest(null)}
+      />
+
+      {/* Quick Add */}
+      <QuickAddSheet
+        visible={quickAddVisible}
+        defaultDate={selectedDate}
+        onClose={() => setQuickAddVisible(false)}
+        onCreate={createEvent}
+        onMoreOptions={(title) => {
+          setQuickAddVisible(false);
+          setNewEventTitle(title);
+          setModalVisible(true);
+        }}
+      />
+
       {/* Add Event Modal */}
       <Modal
         visible={modalVisible}
@@ -229,31 +575,123 @@ export function HomeScreen() {
               onChangeText={setNewEventTitle}
             />
 
+            <View style={styles.toggleRow}>
+              <Text style={styles.toggleLabel}>All day</Text>
+              <Switch
+                value={newEventAllDay}
+                onValueChange={setNewEventAllDay}
+                trackColor={{ false: '#2A2A2A', true: '#F97316' }}
+              />
+            </View>
+
+            {newEventAllDay ? (
+              <View style={styles.hourPicker}>
+                <Text style={styles.hourPickerLabel}>Length:</Text>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    style={styles.hourOption}
+                    onPress={() => setNewEventDays(Math.max(1, newEventDays - 1))}
+                  >
+                    <Text style={styles.hourOptionText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>
+                    {newEventDays} {newEventDays === 1 ? 'day' : 'days'}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.hourOption}
+                    onPress={() => setNewEventDays(Math.min(MAX_ALL_DAY_LENGTH, newEventDays + 1))}
+                  >
+                    <Text style={styles.hourOptionText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <View style={styles.hourPicker}>
+                <Text style={styles.hourPickerLabel}>Start time:</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {HOURS.filter(h => h >= dayStartHour && h <= dayEndHour).map((hour) => (
+                    <TouchableOpacity
+                      key={hour}
+                      style={[
+                        styles.hourOption,
+                        newEventStartHour === hour && styles.hourOptionSelected,
+                      ]}
+                      onPress={() => setPickedStartHour(hour)}
+                    >
+                      <Text
+                        style={[
+                          styles.hourOptionText,
+                          newEventStartHour === hour && styles.hourOptionTextSelected,
+                        ]}
+                      >
+                        {formatHour(hour, timeFormat)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+            )}
+
             <View style={styles.hourPicker}>
-              <Text style={styles.hourPickerLabel}>Start time:</Text>
+              <Text style={styles.hourPickerLabel}>Repeat:</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                {HOURS.filter(h => h >= 6 && h <= 22).map((hour) => (
+                {REPEAT_OPTIONS.map((option, index) => (
                   <TouchableOpacity
-                    key={hour}
+                    key={option.label}
                     style={[
                       styles.hourOption,
-                      newEventStartHour === hour && styles.hourOptionSelected,
+                      newEventRepeat === index && styles.hourOptionSelected,
                     ]}
-                    onPress={() => setNewEventStartHour(hour)}
+                    onPress={() => setNewEventRepeat(index)}
                   >
                     <Text
                       style={[
                         styles.hourOptionText,
-                        newEventStartHour === hour && styles.hourOptionTextSelected,
+                        newEventRepeat === index && styles.hourOptionTextSelected,
                       ]}
                     >
-                      {hour < 12 ? `${hour}AM` : hour === 12 ? '12PM' : `${hour - 12}PM`}
+                      {option.label}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </ScrollView>
             </View>
 
+            {writableCalendars.length > 1 && (
+              <View style={styles.hourPicker}>
+                <Text style={styles.hourPickerLabel}>Calendar:</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {writableCalendars.map((calendar) => (
+                    <TouchableOpacity
+                      key={calendar.id}
+                      style={[
+                        styles.hourOption,
+                        targetCalendarId === calendar.id && styles.hourOptionSelected,
+                      ]}
+                      onPress={() => setNewEventCalendarId(calendar.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.hourOptionText,
+                          targetCalendarId === calendar.id && styles.hourOptionTextSelected,
+                        ]}
+                      >
+                        {calendar.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+            )}
+
+            <CategoryColorPicker
+              categoryId={newEventCategoryId}
+              color={newEventColor}
+              autoColor={newEventAutoColor}
+              onChangeCategory={setNewEventCategoryId}
+              onChangeColor={setNewEventColor}
+            />
+
             <View style={styles.modalButtons}>
               <TouchableOpacity
                 style={styles.modalButtonCancel}
@@ -298,18 +736,21 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     letterSpacing: -0.5,
   },
-  profileButton: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    backgroundColor: '#F97316',
-    justifyContent: 'center',
+  headerActions: {
+    flexDirection: 'row',
     alignItems: 'center',
+    gap: 8,
+  },
+  headerButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
   },
-  profileButtonText: {
-    fontSize: 18,
+  headerButtonText: {
+    fontSize: 15,
     fontWeight: '600',
-    color: '#FFFFFF',
+    color: '#F97316',
   },
   dateNav: {
     flexDirection: 'row',
@@ -330,55 +771,92 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '500',
   },
-  calendarContainer: {
-    flex: 1,
+  viewSwitcher: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 12,
+  },
+  viewOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  viewOptionSelected: {
+    backgroundColor: '#2A2A2A',
   },
-  calendarContent: {
-    paddingBottom: 100,
+  viewOptionText: {
+    fontSize: 13,
+    color: '#8B8B8B',
   },
-  calendar: {
-    flexDirection: 'row',
+  viewOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  categoryFilters: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  categoryFiltersContent: {
     paddingHorizontal: 16,
+    gap: 8,
   },
-  timeColumn: {
-    width: 56,
+  categoryFilter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
   },
-  timeSlot: {
-    height: 60,
-    justifyContent: 'flex-start',
-    paddingTop: 0,
+  categoryFilterSelected: {
+    backgroundColor: '#2A2A2A',
   },
-  timeText: {
-    fontSize: 11,
-    color: '#6B6B6B',
-    textAlign: 'right',
-    paddingRight: 8,
+  categoryDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
   },
-  eventsColumn: {
-    flex: 1,
-    position: 'relative',
-    borderLeftWidth: 1,
-    borderLeftColor: '#2A2A2A',
+  categoryFilterText: {
+    fontSize: 13,
+    color: '#8B8B8B',
   },
-  hourLine: {
-    height: 60,
-    borderBottomWidth: 1,
-    borderBottomColor: '#1A1A1A',
+  categoryFilterTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
   },
-  eventBlock: {
-    position: 'absolute',
-    left: 4,
-    right: 4,
+  syncBanner: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
     borderRadius: 8,
+    backgroundColor: '#1A1A1A',
+    alignItems: 'center',
+  },
+  syncBannerText: {
+    fontSize: 12,
+    color: '#8B8B8B',
+  },
+  reconnectBanner: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EF444420',
     borderLeftWidth: 3,
-    padding: 8,
+    borderLeftColor: '#EF4444',
   },
-  eventTitle: {
+  reconnectBannerTitle: {
     fontSize: 14,
     fontWeight: '600',
+    color: '#FFFFFF',
   },
-  eventTime: {
-    fontSize: 11,
+  reconnectBannerText: {
+    fontSize: 12,
     color: '#8B8B8B',
     marginTop: 2,
   },
@@ -432,6 +910,27 @@ const styles = StyleSheet.create({
     borderColor: '#2A2A2A',
     marginBottom: 20,
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    color: '#8B8B8B',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    minWidth: 72,
+    textAlign: 'center',
+    marginRight: 8,
+  },
   hourPicker: {
     marginBottom: 24,
   },
@@ -0,0 +1,225 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useEvents } from '../hooks/useEvents';
+import { useNow } from '../hooks/useNow';
+import { useEventColor } from '../hooks/useEventColor';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { CalendarEvent } from '../lib/supabase';
+import { getFocusState } from '../lib/focus';
+import { formatDuration, formatTime, startOfLocalDay, toDateKey } from '../lib/dates';
+
+// Today and tomorrow, so late in the day the next event can still be found
+const LOOKAHEAD_DAYS = 2;
+
+interface NowScreenProps {
+  onClose: () => void;
+}
+
+function formatGap(gapMinutes: number, hasCurrent: boolean) {
+  if (gapMinutes > 0) {
+    return hasCurrent ? `${formatDuration(gapMinutes)} free after this` : `Free for ${formatDuration(gapMinutes)}`;
+  }
+  if (gapMinutes === 0) return 'Back to back';
+  return `Overlaps by ${formatDuration(-gapMinutes)}`;
+}
+
+/**
+ * Focus mode: just the event happening now, how much of it is left, and what comes
+ * next. Ticks every second so the countdowns never go stale.
+ */
+export function NowScreen({ onClose }: NowScreenProps) {
+  const now = useNow();
+  const todayKey = toDateKey(now);
+  const today = useMemo(() => startOfLocalDay(now), [todayKey]);
+  const { events } = useEvents(today, LOOKAHEAD_DAYS);
+
+  const { current, next, progress, minutesLeft, minutesUntilNext, gapMinutes } = useMemo(
+    () => getFocusState(events, now),
+    [events, now]
+  );
+
+  const currentColor = useEventColor(current) ?? '#2A2A2A';
+  const nextColor = useEventColor(next) ?? '#2A2A2A';
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+
+  const formatRange = (event: CalendarEvent) =>
+    `${formatTime(new Date(event.start_time), undefined, timeFormat)} - ${formatTime(new Date(event.end_time), undefined, timeFormat)}`;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.clock}>{formatTime(now, undefined, timeFormat)}</Text>
+          <Text style={styles.date}>
+            {now.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Current Event */}
+      <Text style={styles.sectionLabel}>NOW</Text>
+      {current ? (
+        <View style={[styles.card, { borderLeftColor: currentColor }]}>
+          <Text style={[styles.currentTitle, { color: currentColor }]}>{current.title}</Text>
+          <Text style={styles.cardTime}>
+            {formatRange(current)}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: currentColor }]}
+            />
+          </View>
+          <Text style={styles.remaining}>{formatDuration(minutesLeft!)} left</Text>
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.emptyTitle}>Nothing scheduled right now</Text>
+        </View>
+      )}
+
+      {/* Gap */}
+      {gapMinutes !== null && (
+        <View style={styles.gap}>
+          <View style={styles.gapLine} />
+          <Text style={[styles.gapText, gapMinutes < 0 && styles.gapTextOverlap]}>
+            {formatGap(gapMinutes, current !== null)}
+          </Text>
+          <View style={styles.gapLine} />
+        </View>
+      )}
+
+      {/* Next Event */}
+      <Text style={styles.sectionLabel}>NEXT</Text>
+      {next ? (
+        <View style={[styles.card, { borderLeftColor: nextColor }]}>
+          <Text style={[styles.nextTitle, { color: nextColor }]}>{next.title}</Text>
+          <Text style={styles.cardTime}>
+            {toDateKey(new Date(next.start_time)) !== todayKey && 'Tomorrow, '}
+            {formatRange(next)}
+          </Text>
+          <Text style={styles.startsIn}>
+            {minutesUntilNext! <= 1 ? 'Starts in a minute' : `Starts in ${formatDuration(minutesUntilNext!)}`}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.emptyTitle}>Nothing else coming up</Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0D0D0D',
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingTop: 12,
+    paddingBottom: 32,
+  },
+  clock: {
+    fontSize: 40,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: -1,
+  },
+  date: {
+    fontSize: 14,
+    color: '#8B8B8B',
+  },
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
+  },
+  doneButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#2A2A2A',
+    padding: 20,
+    marginBottom: 24,
+  },
+  currentTitle: {
+    fontSize: 26,
+    fontWeight: '700',
+  },
+  nextTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  cardTime: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 4,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#2A2A2A',
+    marginTop: 20,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  remaining: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 12,
+  },
+  startsIn: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 12,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    color: '#8B8B8B',
+  },
+  gap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  gapLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#2A2A2A',
+  },
+  gapText: {
+    fontSize: 13,
+    color: '#10B981',
+  },
+  gapTextOverlap: {
+    color: '#EF4444',
+  },
+});
@@ -0,0 +1,426 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { signsInWithGoogle, useAuthStore } from '../stores/authStore';
+import { useEventStore } from '../stores/eventStore';
+import { useProfileStore, ProfileUpdates } from '../stores/profileStore';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { isGoogleSyncEnabled } from '../lib/googleSync';
+import { Avatar } from '../components/Avatar';
+import { PreferencesSection } from '../components/PreferencesSection';
+import { CalendarFileSection } from '../components/CalendarFileSection';
+import { AdminScreen } from './AdminScreen';
+
+interface ProfileScreenProps {
+  onClose: () => void;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * The signed-in account: name and photo from the `profiles` row, whether calendar sync
+ * can reach Google, what is still waiting to sync, calendar preferences and signing out.
+ */
+export function ProfileScreen({ onClose }: ProfileScreenProps) {
+  const user = useAuthStore((state) => state.user);
+  const signOut = useAuthStore((state) => state.signOut);
+  const googleAccess = useAuthStore((state) => state.googleAccess);
+  const googleAccessError = useAuthStore((state) => state.googleAccessError);
+  const reconnecting = useAuthStore((state) => state.authLoading);
+  const checkGoogleAccess = useAuthStore((state) => state.checkGoogleAccess);
+  const reconnectGoogle = useAuthStore((state) => state.reconnectGoogle);
+
+  const profile = useProfileStore((state) => state.profile);
+  const loading = useProfileStore((state) => state.loading);
+  const fetchProfile = useProfileStore((state) => state.fetchProfile);
+  const updateProfile = useProfileStore((state) => state.updateProfile);
+  const syncPreferences = usePreferencesStore((state) => state.syncWithProfile);
+
+  const isOnline = useEventStore((state) => state.isOnline);
+  const isSyncing = useEventStore((state) => state.isFlushing || state.isSyncingGoogle);
+  const queuedCount = useEventStore((state) => state.mutations.length);
+  const rejectedCount = useEventStore((state) => state.mutations.filter((mutation) => mutation.rejected).length);
+  const pendingCount = queuedCount - rejectedCount;
+  const failedSyncCount = useEventStore((state) => state.syncJobs.filter((job) => job.attempts > 0).length);
+  const retryRejected = useEventStore((state) => state.retryRejected);
+  const retryAllSyncs = useEventStore((state) => state.retryAllSyncs);
+
+  const [fullName, setFullName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [showAdmin, setShowAdmin] = useState(false);
+
+  const refresh = () => fetchProfile().then(syncPreferences);
+
+  useEffect(() => {
+    refresh();
+    checkGoogleAccess({ force: true });
+  }, [fetchProfile, checkGoogleAccess]);
+
+  useEffect(() => {
+    setFullName(profile?.full_name ?? '');
+  }, [profile?.full_name]);
+
+  const email = profile?.email || user?.email || '';
+  const displayName = profile?.full_name || user?.user_metadata?.full_name || email;
+  // Accounts that sign in with Google expect their calendar; for others it's optional
+  const googleRequired = !!user && signsInWithGoogle(user);
+  const googlePhoto: string | null = user?.user_metadata?.avatar_url ?? user?.user_metadata?.picture ?? null;
+  const nameChanged = fullName.trim() !== (profile?.full_name ?? '');
+
+  const save = async (updates: ProfileUpdates) => {
+    setSaving(true);
+    try {
+      await updateProfile(updates);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReconnect = async () => {
+    try {
+      await reconnectGoogle();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    await retryRejected();
+    await retryAllSyncs();
+  };
+
+  const handleSignOut = () => {
+    const unsynced = queuedCount > 0
+      ? ` ${plural(queuedCount, 'change')} on this device haven't synced yet and will be lost.`
+      : '';
+    Alert.alert('Sign Out', `Sign out of ${email || 'Intentive'}?${unsynced}`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: () => signOut().catch((error) => Alert.alert('Error', error.message)),
+      },
+    ]);
+  };
+
+  const googleStatus = !isGoogleSyncEnabled
+    ? 'Calendar sync is not set up in this version of the app.'
+    : googleAccess === 'ok'
+      ? googleRequired ? `Connected as ${email}` : 'Connected'
+      : googleAccess === 'reauth_required'
+        ? googleAccessError || 'Google needs you to sign in again.'
+        : googleAccess === 'not_connected'
+          ? 'Not connected. Your events are only saved in Intentive. Connect a calendar any time to sync with it.'
+          : 'Checking…';
+
+  const syncStatus = !isOnline
+    ? 'Offline · Changes are saved on this device'
+    : isSyncing
+      ? 'Syncing…'
+      : queuedCount === 0 && failedSyncCount === 0
+        ? 'Everything is up to date'
+        : [
+          rejectedCount > 0 && `${plural(rejectedCount, 'change')} couldn't be saved`,
+          pendingCount > 0 && `${plural(pendingCount, 'change')} waiting to sync`,
+          failedSyncCount > 0 && `${plural(failedSyncCount, 'event')} not in Google Calendar`,
+        ].filter(Boolean).join(' · ');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Profile</Text>
+        <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={loading} onRefresh={refresh} tintColor="#F97316" />}
+      >
+        {/* Account */}
+        <View style={styles.account}>
+          <Avatar uri={profile?.avatar_url ?? null} name={displayName} size={88} />
+          <Text style={styles.name}>{displayName}</Text>
+          {email !== displayName && <Text style={styles.email}>{email}</Text>}
+          {profile && (
+            <View style={styles.photoActions}>
+              {googlePhoto && googlePhoto !== profile.avatar_url && (
+                <TouchableOpacity onPress={() => save({ avatar_url: googlePhoto })} disabled={saving}>
+                  <Text style={styles.link}>Use Google photo</Text>
+                </TouchableOpacity>
+              )}
+              {profile.avatar_url && (
+                <TouchableOpacity onPress={() => save({ avatar_url: null })} disabled={saving}>
+                  <Text style={styles.link}>Remove photo</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+
+        {/* Name */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Name</Text>
+          <View style={styles.nameRow}>
+            <TextInput
+              style={styles.input}
+              value={fullName}
+              onChangeText={setFullName}
+              placeholder="Your name"
+              placeholderTextColor="#6B6B6B"
+              editable={!!profile}
+              returnKeyType="done"
+              onSubmitEditing={() => nameChanged && save({ full_name: fullName.trim() || null })}
+            />
+            {nameChanged && (
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={() => save({ full_name: fullName.trim() || null })}
+                disabled={saving}
+              >
+                {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.saveButtonText}>Save</Text>}
+              </TouchableOpacity>
+            )}
+          </View>
+          {!profile && !loading && (
+            <Text style={styles.note}>Your profile couldn't be loaded. Pull down to try again.</Text>
+          )}
+        </View>
+
+        {/* Google Calendar */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Google Calendar</Text>
+          <View style={styles.statusRow}>
+            <View
+              style={[
+                styles.statusDot,
+                googleAccess === 'ok' && styles.statusDotOk,
+                (googleAccess === 'reauth_required' || (googleAccess === 'not_connected' && googleRequired)) &&
+                  styles.statusDotError,
+              ]}
+            />
+            <Text style={styles.statusText}>{googleStatus}</Text>
+          </View>
+          {isGoogleSyncEnabled && (googleAccess === 'reauth_required' || googleAccess === 'not_connected') && (
+            <TouchableOpacity style={styles.actionButton} onPress={handleReconnect} disabled={reconnecting}>
+              <Text style={styles.actionButtonText}>
+                {reconnecting ? 'Connecting…' : googleAccess === 'not_connected' ? 'Connect Google Calendar' : 'Reconnect'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Sync */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sync</Text>
+          <View style={styles.statusRow}>
+            <View
+              style={[
+                styles.statusDot,
+                isOnline && queuedCount === 0 && failedSyncCount === 0 && styles.statusDotOk,
+                isOnline && (failedSyncCount > 0 || rejectedCount > 0) && styles.statusDotError,
+              ]}
+            />
+            <Text style={styles.statusText}>{syncStatus}</Text>
+          </View>
+          {isOnline && (queuedCount > 0 || failedSyncCount > 0) && (
+            <TouchableOpacity style={styles.actionButton} onPress={handleSyncNow} disabled={isSyncing}>
+              <Text style={styles.actionButtonText}>Sync now</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <PreferencesSection />
+
+        <CalendarFileSection />
+
+        {/* Admin console, only offered to admins; the database enforces the role either way */}
+        {profile?.role === 'admin' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Admin</Text>
+            <Text style={styles.note}>See every user's sync health and help them recover from sync errors.</Text>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setShowAdmin(true)}>
+              <Text style={styles.actionButtonText}>Open admin console</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
+          <Text style={styles.signOutButtonText}>Sign Out</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <Modal visible={showAdmin} animationType="slide" onRequestClose={() => setShowAdmin(false)}>
+        <AdminScreen onClose={() => setShowAdmin(false)} />
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0D0D0D',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: -0.5,
+  },
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
+  },
+  doneButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  account: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  name: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    marginTop: 12,
+  },
+  email: {
+    fontSize: 14,
+    color: '#8B8B8B',
+    marginTop: 4,
+  },
+  photoActions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 12,
+  },
+  link: {
+    fontSize: 14,
+    color: '#F97316',
+  },
+  section: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B6B6B',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#0D0D0D',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+  },
+  saveButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: '#F97316',
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  note: {
+    fontSize: 12,
+    color: '#6B6B6B',
+    marginTop: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#F59E0B',
+  },
+  statusDotOk: {
+    backgroundColor: '#10B981',
+  },
+  statusDotError: {
+    backgroundColor: '#EF4444',
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  actionButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F97316',
+  },
+  signOutButton: {
+    marginTop: 32,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#1A1A1A',
+    alignItems: 'center',
+  },
+  signOutButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
@@ -0,0 +1,425 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Switch,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTasks } from '../hooks/useTasks';
+import { useEvents } from '../hooks/useEvents';
+import { useNow } from '../hooks/useNow';
+import { usePreferencesStore } from '../stores/preferencesStore';
+import { Task } from '../lib/supabase';
+import { findFreeSlot, getTaskProgress } from '../lib/tasks';
+import { formatDuration, formatTime, parseDateKey, startOfLocalDay, toDateKey } from '../lib/dates';
+import { DateTimeField } from '../components/DateTimeField';
+
+const MINUTE = 60 * 1000;
+const ESTIMATE_OPTIONS = [15, 30, 45, 60, 90, 120];
+// Smallest block worth putting on the calendar
+const MIN_BLOCK_MINUTES = 15;
+
+interface TasksScreenProps {
+  // Day that "Schedule" puts tasks on
+  date: Date;
+  onClose: () => void;
+}
+
+function formatDueDate(dueDate: string, todayKey: string) {
+  if (dueDate === todayKey) return 'Due today';
+  const label = parseDateKey(dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return dueDate < todayKey ? `Overdue · ${label}` : `Due ${label}`;
+}
+
+/**
+ * The to-do list. Each task can be time-blocked into the first free slot of the day
+ * being viewed; the block is a regular event linked back to the task, and the task's
+ * progress bar fills as its blocks end.
+ */
+export function TasksScreen({ date, onClose }: TasksScreenProps) {
+  const now = useNow(MINUTE);
+  const day = useMemo(() => startOfLocalDay(date), [date]);
+  const { tasks, blocks, loading, refresh, createTask, updateTask, deleteTask } = useTasks();
+  const { allEvents, createEvent } = useEvents(day, 1);
+  const timeFormat = usePreferencesStore((state) => state.timeFormat);
+  const dayStartHour = usePreferencesStore((state) => state.dayStartHour);
+  const dayEndHour = usePreferencesStore((state) => state.dayEndHour);
+
+  const [newTitle, setNewTitle] = useState('');
+  const [newEstimate, setNewEstimate] = useState(30);
+  const [hasDueDate, setHasDueDate] = useState(false);
+  const [newDueDate, setNewDueDate] = useState(new Date());
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
+
+  const todayKey = toDateKey(now);
+  const isToday = toDateKey(day) === todayKey;
+
+  const handleAddTask = async () => {
+    if (!newTitle.trim()) {
+      Alert.alert('Error', 'Please enter a task title');
+      return;
+    }
+
+    try {
+      await createTask({
+        title: newTitle.trim(),
+        estimated_minutes: newEstimate,
+        due_date: hasDueDate ? toDateKey(newDueDate) : null,
+      });
+      setNewTitle('');
+      setNewEstimate(30);
+      setHasDueDate(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleSchedule = async (task: Task) => {
+    const { scheduledMinutes } = getTaskProgress(task, blocks, now);
+    // Only block out what isn't already on the calendar
+    const minutes = Math.max(task.estimated_minutes - scheduledMinutes, MIN_BLOCK_MINUTES);
+    // Events on hidden calendars still take up the time
+    const slot = findFreeSlot(allEvents, day, minutes, {
+      notBefore: isToday ? now : undefined,
+      dayStartHour,
+      dayEndHour,
+    });
+
+    if (!slot) {
+      Alert.alert('No Free Time', `There's no ${formatDuration(minutes)} gap left on this day.`);
+      return;
+    }
+
+    setSchedulingId(task.id);
+    try {
+      await createEvent({
+        title: task.title,
+        start_time: slot.start.toISOString(),
+        end_time: slot.end.toISOString(),
+        all_day: false,
+        task_id: task.id,
+      });
+      const start = formatTime(slot.start, undefined, timeFormat);
+      const end = formatTime(slot.end, undefined, timeFormat);
+      Alert.alert('Scheduled', `"${task.title}" is blocked out ${start} - ${end}.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSchedulingId(null);
+    }
+  };
+
+  const handleToggleDone = async (task: Task) => {
+    try {
+      await updateTask(task.id, { done: !task.done });
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleDeleteTask = (task: Task) => {
+    Alert.alert(
+      'Delete Task',
+      `Are you sure you want to delete "${task.title}"? Its time blocks stay on your calendar.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteTask(task.id).catch((error) => Alert.alert('Error', error.message)),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Tasks</Text>
+        <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={loading} onRefresh={refresh} tintColor="#F97316" />}
+      >
+        {/* New Task */}
+        <View style={styles.newTask}>
+          <TextInput
+            style={styles.input}
+            placeholder="Add a task"
+            placeholderTextColor="#8B8B8B"
+            value={newTitle}
+            onChangeText={setNewTitle}
+            onSubmitEditing={handleAddTask}
+            returnKeyType="done"
+          />
+          <Text style={styles.label}>Takes about</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+            {ESTIMATE_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, newEstimate === minutes && styles.chipSelected]}
+                onPress={() => setNewEstimate(minutes)}
+              >
+                <Text style={[styles.chipText, newEstimate === minutes && styles.chipTextSelected]}>
+                  {formatDuration(minutes)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <View style={styles.row}>
+            <Text style={styles.label}>Due date</Text>
+            <View style={styles.rowFields}>
+              {hasDueDate && <DateTimeField value={newDueDate} mode="date" onChange={setNewDueDate} />}
+              <Switch
+                value={hasDueDate}
+                onValueChange={setHasDueDate}
+                trackColor={{ false: '#2A2A2A', true: '#F97316' }}
+              />
+            </View>
+          </View>
+          <TouchableOpacity style={styles.addButton} onPress={handleAddTask}>
+            <Text style={styles.addButtonText}>Add Task</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Task List */}
+        {tasks.length === 0 && !loading && (
+          <Text style={styles.emptyText}>No tasks yet. Add one above, then schedule it into your day.</Text>
+        )}
+        {tasks.map((task) => {
+          const progress = getTaskProgress(task, blocks, now);
+          return (
+            <TouchableOpacity
+              key={task.id}
+              style={[styles.taskRow, task.done && styles.taskRowDone]}
+              onLongPress={() => handleDeleteTask(task)}
+              activeOpacity={0.8}
+            >
+              <TouchableOpacity
+                style={[styles.checkbox, task.done && styles.checkboxChecked]}
+                onPress={() => handleToggleDone(task)}
+              >
+                {task.done && <Text style={styles.checkmark}>✓</Text>}
+              </TouchableOpacity>
+
+              <View style={styles.taskBody}>
+                <Text style={[styles.taskTitle, task.done && styles.taskTitleDone]} numberOfLines={2}>
+                  {task.title}
+                </Text>
+                <Text style={styles.taskMeta}>
+                  {formatDuration(task.estimated_minutes)}
+                  {task.due_date ? ` · ${formatDueDate(task.due_date, todayKey)}` : ''}
+                  {progress.scheduledMinutes > 0 ? ` · ${formatDuration(progress.scheduledMinutes)} scheduled` : ''}
+                </Text>
+                {progress.scheduledMinutes > 0 && (
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${progress.ratio * 100}%` }]} />
+                  </View>
+                )}
+              </View>
+
+              {!task.done && (
+                <TouchableOpacity
+                  style={[styles.scheduleButton, schedulingId === task.id && styles.buttonDisabled]}
+                  onPress={() => handleSchedule(task)}
+                  disabled={schedulingId !== null}
+                >
+                  <Text style={styles.scheduleButtonText}>Schedule</Text>
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0D0D0D',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: -0.5,
+  },
+  doneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A1A',
+  },
+  doneButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  newTask: {
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: '#0D0D0D',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8B8B8B',
+  },
+  chips: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#0D0D0D',
+    borderWidth: 1,
+    borderColor: '#2A2A2A',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#F97316',
+    borderColor: '#F97316',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#8B8B8B',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  rowFields: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addButton: {
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: '#F97316',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B6B6B',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A1A',
+  },
+  taskRowDone: {
+    opacity: 0.5,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#F97316',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#F97316',
+  },
+  checkmark: {
+    fontSize: 13,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  taskBody: {
+    flex: 1,
+  },
+  taskTitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  taskTitleDone: {
+    textDecorationLine: 'line-through',
+  },
+  taskMeta: {
+    fontSize: 12,
+    color: '#8B8B8B',
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#2A2A2A',
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#10B981',
+  },
+  scheduleButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: '#2A2A2A',
+  },
+  scheduleButtonText: {
+    fontSize: 13,
+    color: '#F97316',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,115 @@
+import { User } from '@supabase/supabase-js';
+import { Alert } from 'react-native';
+import { supabase } from '../../lib/supabase';
+import { syncApi } from '../../lib/syncApi';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: { auth: { signInWithIdToken: jest.fn() } },
+}));
+jest.mock('../../lib/syncApi', () => ({
+  syncApi: { isConfigured: true, storeTokens: jest.fn(), getHealth: jest.fn() },
+}));
+// The real one reads the app manifest to build the magic link URL
+jest.mock('expo-auth-session', () => ({
+  makeRedirectUri: () => 'intentive://auth/callback',
+  ResponseType: { Code: 'code' },
+}));
+
+// The store refuses to load without its Google client settings
+process.env.EXPO_PUBLIC_GOOGLE_CLIENT_ID = 'client-id';
+process.env.EXPO_PUBLIC_GOOGLE_REDIRECT_URI = 'https://auth.example.com/callback';
+const { completeGoogleAuth, useAuthStore } = require('../authStore') as typeof import('../authStore');
+
+function user(email: string, provider: string): User {
+  return {
+    id: 'user-1',
+    email,
+    app_metadata: { provider, providers: [provider] },
+    user_metadata: {},
+    aud: 'authenticated',
+    created_at: '2026-10-19T08:00:00.000Z',
+  };
+}
+
+/** An unsigned ID token; the store only reads its email. */
+function idToken(email: string) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode({ email })}.signature`;
+}
+
+function googleAnswers(email: string) {
+  global.fetch = jest.fn(async () =>
+    new Response(
+      JSON.stringify({
+        id_token: idToken(email),
+        access_token: 'google-access',
+        refresh_token: 'google-refresh',
+        expires_in: 3600,
+      })
+    )
+  );
+}
+
+describe('completeGoogleAuth', () => {
+  let code = 0;
+  const nextCode = () => `code-${++code}`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    useAuthStore.setState({ user: null, googleAccess: 'reauth_required', googleAccessError: null });
+  });
+
+  describe('reconnecting an account that signs in with Google', () => {
+    beforeEach(() => {
+      useAuthStore.setState({ user: user('ada@example.com', 'google') });
+    });
+
+    it('shows an error instead of storing the tokens of another Google account', async () => {
+      googleAnswers('someone.else@example.com');
+
+      await completeGoogleAuth(nextCode(), 'verifier');
+
+      expect(Alert.alert).toHaveBeenCalledWith(
+        'Google Calendar Error',
+        'Choose ada@example.com to reconnect Google Calendar'
+      );
+      expect(syncApi.storeTokens).not.toHaveBeenCalled();
+      expect(useAuthStore.getState()).toMatchObject({ googleAccess: 'reauth_required', authLoading: false });
+    });
+
+    it('stores the tokens of the same account, in any case', async () => {
+      googleAnswers('Ada@Example.com');
+
+      await completeGoogleAuth(nextCode(), 'verifier');
+
+      expect(Alert.alert).not.toHaveBeenCalled();
+      expect(syncApi.storeTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', accessToken: 'google-access', refreshToken: 'google-refresh' })
+      );
+      expect(supabase.auth.signInWithIdToken).not.toHaveBeenCalled();
+      expect(useAuthStore.getState()).toMatchObject({ googleAccess: 'ok', googleAccessError: null });
+    });
+  });
+
+  it('lets other accounts connect a calendar with any Google address', async () => {
+    useAuthStore.setState({ user: user('ada@example.com', 'email') });
+    googleAnswers('ada.work@example.com');
+
+    await completeGoogleAuth(nextCode(), 'verifier');
+
+    expect(Alert.alert).not.toHaveBeenCalled();
+    expect(useAuthStore.getState().googleAccess).toBe('ok');
+  });
+
+  it('shows a failed sign-in as a sign-in error', async () => {
+    global.fetch = jest.fn(async () => new Response('invalid_grant', { status: 400 }));
+
+    await completeGoogleAuth(nextCode(), 'verifier');
+
+    expect(Alert.alert).toHaveBeenCalledWith('Sign In Error', 'Failed to exchange code for tokens');
+    expect(useAuthStore.getState().authLoading).toBe(false);
+  });
+});
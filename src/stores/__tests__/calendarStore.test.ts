@@ -0,0 +1,78 @@
+import { User } from '@supabase/supabase-js';
+import { GoogleAccessStatus, GoogleCalendar, syncApi } from '../../lib/syncApi';
+import { useAuthStore } from '../authStore';
+import { useCalendarStore } from '../calendarStore';
+
+jest.mock('../../lib/syncApi', () => ({
+  syncApi: { isConfigured: true, listCalendars: jest.fn() },
+}));
+jest.mock('../authStore', () => {
+  let mockState = {};
+  return {
+    useAuthStore: {
+      getState: () => mockState,
+      setState: (state: object) => {
+        mockState = state;
+      },
+    },
+  };
+});
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const WORK: GoogleCalendar = {
+  id: 'work@group.calendar.google.com',
+  name: 'Work',
+  color: '#3B82F6',
+  primary: false,
+  accessRole: 'owner',
+};
+
+function signIn(id: string, googleAccess: GoogleAccessStatus | null) {
+  useAuthStore.setState({ user: { id } as User, googleAccess });
+}
+
+describe('fetchCalendars', () => {
+  beforeEach(() => {
+    jest.mocked(syncApi.listCalendars).mockResolvedValue({ calendars: [WORK] });
+    useCalendarStore.setState({
+      userId: 'user-1',
+      calendars: [WORK],
+      hiddenCalendarIds: [WORK.id],
+      calendarColors: { [WORK.id]: '#F97316' },
+      defaultCalendarId: WORK.id,
+      loading: false,
+    });
+  });
+
+  it.each([
+    ['an account without Google Calendar', 'not_connected' as const],
+    ['an account whose Google access is still being checked', null],
+  ])("forgets the last account's calendars for %s", async (_, googleAccess) => {
+    signIn('user-2', googleAccess);
+
+    await useCalendarStore.getState().fetchCalendars();
+
+    expect(useCalendarStore.getState()).toMatchObject({
+      userId: 'user-2',
+      calendars: [],
+      hiddenCalendarIds: [],
+      calendarColors: {},
+      defaultCalendarId: null,
+    });
+    expect(syncApi.listCalendars).not.toHaveBeenCalled();
+  });
+
+  it("keeps the account's own choices while it refreshes the list", async () => {
+    signIn('user-1', 'ok');
+
+    await useCalendarStore.getState().fetchCalendars();
+
+    expect(useCalendarStore.getState()).toMatchObject({
+      calendars: [WORK],
+      hiddenCalendarIds: [WORK.id],
+      defaultCalendarId: WORK.id,
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { CalendarEvent } from '../../lib/supabase';
+import { EventMutation, applyMutations, useEventStore } from '../eventStore';
+
+interface ServerRequest {
+    action: string;
+    payload?: unknown;
+    filters: Record<string, unknown>;
+}
+
+// Answers every query the store sends to the events table
+const mockServer = jest.fn<Promise<{ data: unknown; error: unknown }>, [ServerRequest]>();
+
+jest.mock('../../lib/supabase', () => ({
+    supabase: {
+        from: () => {
+            const request: ServerRequest = { action: '', filters: {} };
+            const send = (action: string, payload?: unknown) => {
+                Object.assign(request, { action }, payload !== undefined && { payload });
+                return builder;
+            };
+            const builder = {
+                upsert: (payload: unknown) => send('upsert', payload),
+                update: (payload: unknown) => send('update', payload),
+                delete: () => send('delete'),
+                eq: (column: string, value: unknown) => {
+                    request.filters[column] = value;
+                    return builder;
+                },
+                select: () => builder,
+                single: () => builder,
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    mockServer(request).then(resolve, reject),
+            };
+            return builder;
+        },
+    },
+}));
+jest.mock('../authStore', () => ({
+    useAuthStore: { getState: () => ({ user: null, googleAccess: 'not_connected' }), subscribe: jest.fn() },
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+let mockId = 0;
+jest.mock('expo-crypto', () => ({ randomUUID: () => `id-${++mockId}` }));
+
+function event(id: string, fields: Partial<CalendarEvent> = {}): CalendarEvent {
+    return {
+        id,
+        user_id: 'user-1',
+        google_event_id: null,
+        calendar_id: null,
+        title: id,
+        description: null,
+        start_time: '2026-10-19T09:00:00.000Z',
+        end_time: '2026-10-19T10:00:00.000Z',
+        all_day: false,
+        time_zone: 'UTC',
+        color: null,
+        category_id: null,
+        recurrence_rule: null,
+        recurring_event_id: null,
+        original_start_time: null,
+        reminder_offsets: null,
+        task_id: null,
+        ical_uid: null,
+        sync_status: 'synced',
+        sync_error: null,
+        google_version: null,
+        synced_at: null,
+        created_at: '2026-10-01T08:00:00.000Z',
+        updated_at: '2026-10-01T08:00:00.000Z',
+        ...fields,
+    };
+}
+
+function mutation(fields: Pick<EventMutation, 'type' | 'eventId'> & Partial<EventMutation>): EventMutation {
+    return {
+        id: `m-${fields.eventId}`,
+        queuedAt: '2026-10-19T08:00:00.000Z',
+        attempts: 0,
+        lastError: null,
+        ...fields,
+    } as EventMutation;
+}
+
+// What Supabase answers when it can't reach the server: an error without a code
+const OFFLINE = {
+    data: null,
+    error: { message: 'TypeError: Network request failed', details: '', hint: '', code: '' },
+};
+const REFUSED = { data: null, error: { message: 'insert or update violates foreign key constraint', code: '23503' } };
+
+function saved(request: ServerRequest) {
+    if (request.action === 'upsert') return { data: request.payload, error: null };
+    const stored = useEventStore.getState().serverEvents[request.filters.id as string];
+    const row = request.action === 'update' ? { ...stored, ...(request.payload as object) } : stored;
+    return { data: stored ? [row] : [], error: null };
+}
+
+function queued() {
+    return useEventStore.getState().mutations.map((queuedChange) => `${queuedChange.type} ${queuedChange.eventId}`);
+}
+
+const LUNCH = event('lunch', { title: 'Lunch' });
+const GYM = event('gym', { title: 'Gym' });
+
+beforeEach(() => {
+    mockServer.mockReset();
+    mockServer.mockImplementation(async (request) => saved(request));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    useEventStore.setState({
+        userId: 'user-1',
+        serverEvents: { lunch: LUNCH, gym: GYM },
+        mutations: [],
+        syncJobs: [],
+        hydrated: true,
+        isOnline: true,
+        isFlushing: false,
+        inFlightMutationId: null,
+    });
+});
+
+describe('applyMutations', () => {
+    it.each<[string, EventMutation[], string[]]>([
+        ['nothing queued', [], ['Lunch', 'Gym']],
+        [
+            'a new event',
+            [mutation({ type: 'create', eventId: 'walk', event: event('walk', { title: 'Walk' }) })],
+            ['Lunch', 'Gym', 'Walk'],
+        ],
+        [
+            'an edit',
+            [mutation({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } })],
+            ['Team lunch', 'Gym'],
+        ],
+        [
+            'an edit to an event that is gone',
+            [mutation({ type: 'update', eventId: 'walk', updates: { title: 'Walk' } })],
+            ['Lunch', 'Gym'],
+        ],
+        ['a deletion', [mutation({ type: 'delete', eventId: 'gym' })], ['Lunch']],
+        [
+            'changes in the order they were made',
+            [
+                mutation({ type: 'create', eventId: 'walk', event: event('walk', { title: 'Walk' }) }),
+                mutation({ type: 'update', eventId: 'walk', updates: { title: 'Long walk' } }),
+                mutation({ type: 'delete', eventId: 'lunch' }),
+                mutation({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } }),
+            ],
+            ['Gym', 'Long walk'],
+        ],
+    ])('shows %s', (_, mutations, expected) => {
+        const { serverEvents } = useEventStore.getState();
+
+        expect(applyMutations(serverEvents, mutations).map((shown) => shown.title)).toEqual(expected);
+    });
+
+    it('leaves the server copy alone', () => {
+        const { serverEvents } = useEventStore.getState();
+
+        applyMutations(serverEvents, [mutation({ type: 'delete', eventId: 'lunch' })]);
+
+        expect(serverEvents.lunch).toBe(LUNCH);
+    });
+});
+
+describe('enqueue', () => {
+    const { enqueue } = useEventStore.getState();
+    const WALK = event('walk', { title: 'Walk' });
+
+    it('folds edits to an event that never reached the server into its creation', () => {
+        enqueue({ type: 'create', eventId: 'walk', event: WALK });
+        enqueue({ type: 'update', eventId: 'walk', updates: { title: 'Long walk' } });
+
+        expect(queued()).toEqual(['create walk']);
+        expect(useEventStore.getState().mutations[0]).toMatchObject({ event: { title: 'Long walk' } });
+    });
+
+    it('forgets an event deleted before it reached the server', () => {
+        enqueue({ type: 'create', eventId: 'walk', event: WALK });
+        enqueue({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } });
+        enqueue({ type: 'delete', eventId: 'walk' });
+
+        expect(queued()).toEqual(['update lunch']);
+    });
+
+    it('drops edits to an event once it is deleted', () => {
+        enqueue({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } });
+        enqueue({ type: 'update', eventId: 'gym', updates: { title: 'Run' } });
+        enqueue({ type: 'delete', eventId: 'lunch' });
+
+        expect(queued()).toEqual(['update gym', 'delete lunch']);
+    });
+
+    it('queues edits separately while the creation is on its way', () => {
+        enqueue({ type: 'create', eventId: 'walk', event: WALK });
+        useEventStore.setState({ inFlightMutationId: useEventStore.getState().mutations[0].id });
+
+        enqueue({ type: 'update', eventId: 'walk', updates: { title: 'Long walk' } });
+        enqueue({ type: 'delete', eventId: 'walk' });
+
+        expect(queued()).toEqual(['create walk', 'delete walk']);
+    });
+});
+
+describe('flush', () => {
+    const { enqueue, flush } = useEventStore.getState();
+
+    it('sends changes in order and keeps what the server saved', async () => {
+        enqueue({ type: 'create', eventId: 'walk', event: event('walk', { user_id: 'someone-else' }) });
+        enqueue({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } });
+        enqueue({ type: 'delete', eventId: 'gym' });
+        const updateQueuedAt = useEventStore.getState().mutations[1].queuedAt;
+
+        await flush();
+
+        expect(mockServer.mock.calls.map(([request]) => request)).toEqual([
+            { action: 'upsert', payload: expect.objectContaining({ id: 'walk', user_id: 'user-1' }), filters: {} },
+            {
+                action: 'update',
+                payload: { title: 'Team lunch', updated_at: updateQueuedAt, sync_status: 'pending' },
+                filters: { id: 'lunch', user_id: 'user-1' },
+            },
+            { action: 'delete', filters: { id: 'gym', user_id: 'user-1' } },
+        ]);
+        const { serverEvents, mutations } = useEventStore.getState();
+        expect(mutations).toEqual([]);
+        expect(Object.keys(serverEvents).sort()).toEqual(['lunch', 'walk']);
+        expect(serverEvents.lunch).toMatchObject({ title: 'Team lunch', sync_status: 'pending' });
+    });
+
+    it('forgets an edited event the server no longer has', async () => {
+        mockServer.mockResolvedValueOnce({ data: [], error: null });
+        enqueue({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } });
+
+        await flush();
+
+        expect(useEventStore.getState().serverEvents.lunch).toBeUndefined();
+        expect(queued()).toEqual([]);
+    });
+
+    it('keeps changes queued when the server is out of reach', async () => {
+        mockServer.mockResolvedValueOnce(OFFLINE);
+        enqueue({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } });
+        enqueue({ type: 'update', eventId: 'gym', updates: { title: 'Run' } });
+
+        await flush();
+
+        // It stops at the first failure instead of sending later changes out of order
+        expect(mockServer).toHaveBeenCalledTimes(1);
+        expect(useEventStore.getState().mutations).toEqual([
+            expect.objectContaining({ eventId: 'lunch', attempts: 1, lastError: expect.any(String) }),
+            expect.objectContaining({ eventId: 'gym', attempts: 0 }),
+        ]);
+        expect(useEventStore.getState().mutations[0].rejected).toBeUndefined();
+        expect(useEventStore.getState().serverEvents.lunch).toBe(LUNCH);
+    });
+
+    it('sets aside a change the server refuses and sends the rest', async () => {
+        mockServer.mockResolvedValueOnce(REFUSED);
+        enqueue({ type: 'update', eventId: 'lunch', updates: { category_id: 'not-mine' } });
+        enqueue({ type: 'update', eventId: 'gym', updates: { title: 'Run' } });
+
+        await flush();
+
+        expect(useEventStore.getState().mutations).toEqual([
+            expect.objectContaining({ eventId: 'lunch', attempts: 1, rejected: true }),
+        ]);
+        expect(useEventStore.getState().serverEvents.gym.title).toBe('Run');
+    });
+
+    it('holds back later changes to an event whose change was refused', async () => {
+        useEventStore.setState({
+            mutations: [
+                mutation({
+                    type: 'update',
+                    eventId: 'lunch',
+                    updates: { category_id: 'not-mine' },
+                    rejected: true,
+                }),
+            ],
+        });
+        enqueue({ type: 'update', eventId: 'lunch', updates: { title: 'Team lunch' } });
+        enqueue({ type: 'update', eventId: 'gym', updates: { title: 'Run' } });
+
+        await flush();
+
+        expect(mockServer.mock.calls.map(([request]) => request.filters.id)).toEqual(['gym']);
+        expect(queued()).toEqual(['update lunch', 'update lunch']);
+    });
+
+    it('waits until it is back online', async () => {
+        useEventStore.setState({ isOnline: false });
+        enqueue({ type: 'delete', eventId: 'gym' });
+
+        await flush();
+
+        expect(mockServer).not.toHaveBeenCalled();
+        expect(queued()).toEqual(['delete gym']);
+    });
+});
@@ -2,14 +2,17 @@ import { create } from 'zustand';
 import { Session, User } from '@supabase/supabase-js';
 import * as WebBrowser from 'expo-web-browser';
 import * as AuthSession from 'expo-auth-session';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+import { Alert, Linking } from 'react-native';
 import { supabase } from '../lib/supabase';
+import { GoogleAccessStatus, syncApi } from '../lib/syncApi';
 import { useEffect, useRef } from 'react';
 
 WebBrowser.maybeCompleteAuthSession();
 
 const GOOGLE_CLIENT_ID = process.env.EXPO_PUBLIC_GOOGLE_CLIENT_ID;
 const GOOGLE_REDIRECT_URI = process.env.EXPO_PUBLIC_GOOGLE_REDIRECT_URI;
-const BACKEND_URL = process.env.EXPO_PUBLIC_BACKEND_URL;
 
 if (!GOOGLE_CLIENT_ID) {
     throw new Error('EXPO_PUBLIC_GOOGLE_CLIENT_ID environment variable is required');
@@ -19,6 +22,13 @@ if (!GOOGLE_REDIRECT_URI) {
     throw new Error('EXPO_PUBLIC_GOOGLE_REDIRECT_URI environment variable is required');
 }
 
+// How often the Google access check may hit the backend
+const GOOGLE_ACCESS_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Where magic links from sign-in emails open the app. Supabase only redirects to URLs
+// on the project's allow list, so this has to be added there.
+const EMAIL_REDIRECT_URI = AuthSession.makeRedirectUri({ scheme: 'intentive', path: 'auth/callback' });
+
 const discovery = {
     authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
     tokenEndpoint: 'https://oauth2.googleapis.com/token',
@@ -34,6 +44,10 @@ interface AuthState {
     request: AuthSession.AuthRequest | null;
     promptAsync: (() => Promise<AuthSession.AuthSessionResult>) | null;
     processedCodes: Set<string>;
+    // Whether the backend can still reach the user's Google Calendar; null until checked
+    googleAccess: GoogleAccessStatus | null;
+    googleAccessError: string | null;
+    googleAccessCheckedAt: number | null;
 
     // Actions
     setUser: (user: User | null) => void;
@@ -45,10 +59,48 @@ interface AuthState {
     setPromptAsync: (promptAsync: (() => Promise<AuthSession.AuthSessionResult>) | null) => void;
     handleAuthResponse: (code: string, codeVerifier: string) => Promise<void>;
     signInWithGoogle: () => Promise<void>;
+    signInWithApple: () => Promise<void>;
+    sendEmailSignIn: (email: string) => Promise<void>;
+    verifyEmailCode: (email: string, code: string) => Promise<void>;
+    handleAuthRedirect: (url: string) => Promise<void>;
+    reconnectGoogle: () => Promise<void>;
+    checkGoogleAccess: (options?: { force?: boolean }) => Promise<void>;
     signOut: () => Promise<void>;
     initializeAuth: () => void;
 }
 
+/** The email in a Google ID token, read without verifying it (Google just issued it to us). */
+function getIdTokenEmail(idToken: string): string | null {
+    try {
+        const payload = idToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+        return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '='))).email ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether the account signs in with Google. Others (email, Apple) can still connect a
+ * Google Calendar, but it's optional for them and may belong to a different address.
+ */
+export function signsInWithGoogle(user: User): boolean {
+    const providers: (string | undefined)[] = user.app_metadata.providers ?? [user.app_metadata.provider];
+    return providers.includes('google');
+}
+
+/** Query and fragment parameters of a redirect URL; Supabase puts tokens in the fragment. */
+function getRedirectParams(url: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    const [withoutFragment, fragment = ''] = url.split('#');
+    const query = withoutFragment.split('?')[1] ?? '';
+    for (const part of [query, fragment]) {
+        new URLSearchParams(part).forEach((value, key) => {
+            params[key] = value;
+        });
+    }
+    return params;
+}
+
 export const useAuthStore = create<AuthState>((set, get) => ({
     user: null,
     session: null,
@@ -58,6 +110,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     request: null,
     promptAsync: null,
     processedCodes: new Set(),
+    googleAccess: null,
+    googleAccessError: null,
+    googleAccessCheckedAt: null,
 
     setUser: (user) => set({ user }),
     setSession: (session) => set({ session }),
@@ -106,36 +161,48 @@ export const useAuthStore = create<AuthState>((set, get) => ({
                 throw new Error('No ID token received from Google');
             }
 
-            // Step 2: Sign in to Supabase with the Google ID token
-            const { data, error: signInError } = await supabase.auth.signInWithIdToken({
-                provider: 'google',
-                token: idToken,
-            });
-
-            if (signInError) throw signInError;
-
-            if (!data.user) {
-                throw new Error('Failed to create Supabase user');
+            // Reconnecting keeps the Supabase session and only replaces the Google tokens
+            let user = get().user;
+            if (user) {
+                const email = getIdTokenEmail(idToken);
+                // Only a Google sign-in ties the calendar to the account's own address
+                if (signsInWithGoogle(user) && email && user.email && email.toLowerCase() !== user.email.toLowerCase()) {
+                    throw new Error(`Choose ${user.email} to reconnect Google Calendar`);
+                }
+            } else {
+                // Step 2: Sign in to Supabase with the Google ID token
+                const { data, error: signInError } = await supabase.auth.signInWithIdToken({
+                    provider: 'google',
+                    token: idToken,
+                });
+
+                if (signInError) throw signInError;
+
+                if (!data.user) {
+                    throw new Error('Failed to create Supabase user');
+                }
+                user = data.user;
             }
 
             // Step 3: Store Google tokens for calendar sync via backend
-            const expiresAt = new Date(Date.now() + (expires_in || 3600) * 1000).toISOString();
-            const storeResponse = await fetch(`${BACKEND_URL}/api/sync/tokens`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${data.session?.access_token}`
-                },
-                body: JSON.stringify({
-                    userId: data.user.id,
-                    accessToken,
-                    refreshToken,
-                    expiresAt,
-                }),
-            });
-
-            if (!storeResponse.ok) {
-                console.error('Failed to store Google tokens for calendar sync');
+            if (syncApi.isConfigured) {
+                try {
+                    await syncApi.storeTokens({
+                        userId: user.id,
+                        accessToken,
+                        refreshToken: refreshToken ?? null,
+                        expiresAt: new Date(Date.now() + (expires_in || 3600) * 1000).toISOString(),
+                    });
+                    set({ googleAccess: 'ok', googleAccessError: null, googleAccessCheckedAt: Date.now() });
+                } catch (storeError) {
+                    // Signing in still worked; calendar sync needs another go at consent
+                    console.error('Error storing Google tokens for calendar sync:', storeError);
+                    set({
+                        googleAccess: 'reauth_required',
+                        googleAccessError: storeError instanceof Error ? storeError.message : String(storeError),
+                        googleAccessCheckedAt: Date.now(),
+                    });
+                }
             }
 
             console.log('Successfully signed in with Google');
@@ -167,6 +234,134 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         }
     },
 
+    signInWithApple: async () => {
+        set({ authLoading: true });
+        try {
+            // Apple signs a hash of the nonce; Supabase checks it against the raw one
+            const rawNonce = Crypto.randomUUID();
+            const hashedNonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, rawNonce);
+            const credential = await AppleAuthentication.signInAsync({
+                requestedScopes: [
+                    AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+                    AppleAuthentication.AppleAuthenticationScope.EMAIL,
+                ],
+                nonce: hashedNonce,
+            });
+
+            if (!credential.identityToken) {
+                throw new Error('No identity token received from Apple');
+            }
+
+            const { data, error } = await supabase.auth.signInWithIdToken({
+                provider: 'apple',
+                token: credential.identityToken,
+                nonce: rawNonce,
+            });
+            if (error) throw error;
+
+            // Apple only shares the name on the first sign-in, after the profile was created
+            const fullName = [credential.fullName?.givenName, credential.fullName?.familyName]
+                .filter(Boolean)
+                .join(' ');
+            if (fullName && data.user) {
+                // Security: Only update the profile owned by the current user
+                const { error: profileError } = await supabase
+                    .from('profiles')
+                    .update({ full_name: fullName, updated_at: new Date().toISOString() })
+                    .eq('id', data.user.id)
+                    .is('full_name', null);
+                if (profileError) {
+                    console.error('Error saving name from Apple:', profileError);
+                }
+            }
+        } catch (error) {
+            // Closing Apple's sheet isn't an error worth showing
+            if ((error as { code?: string }).code === 'ERR_REQUEST_CANCELED') return;
+            console.error('Apple sign-in error:', error);
+            throw error;
+        } finally {
+            set({ authLoading: false });
+        }
+    },
+
+    sendEmailSignIn: async (email: string) => {
+        set({ authLoading: true });
+        try {
+            // The email has both a magic link and a code, for when it's read on another device
+            const { error } = await supabase.auth.signInWithOtp({
+                email: email.trim(),
+                options: { emailRedirectTo: EMAIL_REDIRECT_URI },
+            });
+            if (error) throw error;
+        } finally {
+            set({ authLoading: false });
+        }
+    },
+
+    verifyEmailCode: async (email: string, code: string) => {
+        set({ authLoading: true });
+        try {
+            const { error } = await supabase.auth.verifyOtp({ email: email.trim(), token: code.trim(), type: 'email' });
+            if (error) throw error;
+        } finally {
+            set({ authLoading: false });
+        }
+    },
+
+    handleAuthRedirect: async (url: string) => {
+        const params = getRedirectParams(url);
+        if (params.error_description || params.error) {
+            throw new Error(params.error_description || params.error);
+        }
+
+        // Links opened more than once carry the same code or tokens
+        const key = params.code ?? params.refresh_token;
+        const { processedCodes } = get();
+        if (!key || processedCodes.has(key)) return;
+
+        const newProcessedCodes = new Set(processedCodes);
+        newProcessedCodes.add(key);
+        set({ processedCodes: newProcessedCodes, authLoading: true });
+
+        try {
+            const { error } = params.code
+                ? await supabase.auth.exchangeCodeForSession(params.code)
+                : await supabase.auth.setSession({
+                    access_token: params.access_token,
+                    refresh_token: params.refresh_token,
+                });
+            if (error) throw error;
+        } finally {
+            set({ authLoading: false });
+        }
+    },
+
+    reconnectGoogle: async () => {
+        if (!get().user) {
+            throw new Error('Sign in before connecting Google Calendar');
+        }
+        // Same consent screen as signing in; handleAuthResponse sees the existing user
+        // and only stores the Google tokens, so email and Apple accounts can connect too
+        await get().signInWithGoogle();
+    },
+
+    checkGoogleAccess: async ({ force = false } = {}) => {
+        const { user, googleAccessCheckedAt } = get();
+        if (!user || !syncApi.isConfigured) return;
+        if (!force && googleAccessCheckedAt && Date.now() - googleAccessCheckedAt < GOOGLE_ACCESS_CHECK_INTERVAL_MS) {
+            return;
+        }
+
+        set({ googleAccessCheckedAt: Date.now() });
+        try {
+            const health = await syncApi.getHealth();
+            set({ googleAccess: health.googleAccess, googleAccessError: health.error });
+        } catch (error) {
+            // Not knowing isn't the same as broken; keep the last answer
+            console.error('Error checking Google Calendar access:', error);
+        }
+    },
+
     signOut: async () => {
         const { error } = await supabase.auth.signOut();
         if (error) throw error;
@@ -188,6 +383,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
                 session,
                 user: session?.user ?? null,
                 loading: false,
+                ...(!session && { googleAccess: null, googleAccessError: null, googleAccessCheckedAt: null }),
             });
         });
 
@@ -196,9 +392,24 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     },
 }));
 
-// Custom hook to handle OAuth session
+/**
+ * Finishes a Google consent started by signInWithGoogle or reconnectGoogle. Neither
+ * waits for this, so failures, like reconnecting with another account, are shown here.
+ */
+export async function completeGoogleAuth(code: string, codeVerifier: string) {
+    // Read before the exchange, which signs the user in when there was no session
+    const reconnecting = !!useAuthStore.getState().user;
+    try {
+        await useAuthStore.getState().handleAuthResponse(code, codeVerifier);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        Alert.alert(reconnecting ? 'Google Calendar Error' : 'Sign In Error', message);
+    }
+}
+
+// Custom hook to handle OAuth session and magic links
 export function useAuthSession() {
-    const handleAuthResponse = useAuthStore((state) => state.handleAuthResponse);
+    const handleAuthRedirect = useAuthStore((state) => state.handleAuthRedirect);
     const setRequest = useAuthStore((state) => state.setRequest);
     const setPromptAsync = useAuthStore((state) => state.setPromptAsync);
     const setIsReady = useAuthStore((state) => state.setIsReady);
@@ -237,10 +448,25 @@ export function useAuthSession() {
     // Handle OAuth response
     useEffect(() => {
         if (response?.type === 'success' && request?.codeVerifier) {
-            handleAuthResponse(response.params.code, request.codeVerifier);
+            completeGoogleAuth(response.params.code, request.codeVerifier);
         } else if (response?.type === 'error' || response?.type === 'dismiss') {
             // Handle cancelled or errored OAuth flow
             setAuthLoading(false);
         }
-    }, [response, request, handleAuthResponse, setAuthLoading]);
+    }, [response, request, setAuthLoading]);
+
+    // Handle magic links, whether they launched the app or arrived while it was open
+    useEffect(() => {
+        const handleUrl = (url: string | null) => {
+            if (!url?.startsWith(EMAIL_REDIRECT_URI)) return;
+            handleAuthRedirect(url).catch((error) => {
+                console.error('Email sign-in error:', error);
+                Alert.alert('Sign In Error', error.message);
+            });
+        };
+
+        Linking.getInitialURL().then(handleUrl);
+        const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+        return () => subscription.remove();
+    }, [handleAuthRedirect]);
 }
@@ -0,0 +1,131 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GoogleCalendar, syncApi } from '../lib/syncApi';
+import { useAuthStore } from './authStore';
+
+// Google's alias for the signed-in user's own calendar
+export const PRIMARY_CALENDAR_ID = 'primary';
+
+interface CalendarState {
+    // Whose calendars these are, so another account starts from a clean list
+    userId: string | null;
+    calendars: GoogleCalendar[];
+    hiddenCalendarIds: string[];
+    // Colors picked in the app, keyed by calendar id; others use Google's color
+    calendarColors: Record<string, string>;
+    // Where new events go; null means the primary calendar
+    defaultCalendarId: string | null;
+    loading: boolean;
+
+    // Actions
+    fetchCalendars: () => Promise<void>;
+    setCalendarVisible: (calendarId: string, visible: boolean) => void;
+    setCalendarColor: (calendarId: string, color: string | null) => void;
+    setDefaultCalendar: (calendarId: string | null) => void;
+}
+
+/** The real id of the calendar an event is in; events without one are in the primary calendar. */
+export function resolveCalendarId(calendars: GoogleCalendar[], calendarId: string | null) {
+    if (calendarId && calendarId !== PRIMARY_CALENDAR_ID) return calendarId;
+    return calendars.find((calendar) => calendar.primary)?.id ?? PRIMARY_CALENDAR_ID;
+}
+
+export function isCalendarVisible(
+    state: Pick<CalendarState, 'calendars' | 'hiddenCalendarIds'>,
+    calendarId: string | null
+) {
+    return !state.hiddenCalendarIds.includes(resolveCalendarId(state.calendars, calendarId));
+}
+
+export function getCalendarColor(
+    state: Pick<CalendarState, 'calendars' | 'calendarColors'>,
+    calendarId: string | null
+): string | null {
+    const id = resolveCalendarId(state.calendars, calendarId);
+    return state.calendarColors[id] ?? state.calendars.find((calendar) => calendar.id === id)?.color ?? null;
+}
+
+/** Calendars new events can be created in. */
+export function getWritableCalendars(calendars: GoogleCalendar[]) {
+    return calendars.filter((calendar) => calendar.accessRole === 'owner' || calendar.accessRole === 'writer');
+}
+
+export const useCalendarStore = create<CalendarState>()(
+    persist(
+        (set, get) => ({
+            userId: null,
+            calendars: [],
+            hiddenCalendarIds: [],
+            calendarColors: {},
+            defaultCalendarId: null,
+            loading: false,
+
+            fetchCalendars: async () => {
+                const { user, googleAccess } = useAuthStore.getState();
+                if (!user) return;
+
+                // Before anything else: another account's calendars would hide this one's
+                // events and file its new ones, even if it never connects Google
+                if (get().userId !== user.id) {
+                    set({ userId: user.id, calendars: [], hiddenCalendarIds: [], calendarColors: {}, defaultCalendarId: null });
+                }
+
+                if (!syncApi.isConfigured || get().loading) return;
+                if (googleAccess === null || googleAccess === 'not_connected') return;
+
+                set({ loading: true });
+                try {
+                    const { calendars } = await syncApi.listCalendars();
+                    const ids = new Set(calendars.map((calendar) => calendar.id));
+                    set((state) => ({
+                        calendars,
+                        // Forget settings for calendars the user no longer has
+                        hiddenCalendarIds: state.hiddenCalendarIds.filter((id) => ids.has(id)),
+                        defaultCalendarId: state.defaultCalendarId && ids.has(state.defaultCalendarId)
+                            ? state.defaultCalendarId
+                            : null,
+                    }));
+                } catch (error) {
+                    // The last fetched list stays usable offline
+                    console.error('Error fetching calendars:', error);
+                } finally {
+                    set({ loading: false });
+                }
+            },
+
+            setCalendarVisible: (calendarId, visible) => {
+                set((state) => ({
+                    hiddenCalendarIds: visible
+                        ? state.hiddenCalendarIds.filter((id) => id !== calendarId)
+                        : [...state.hiddenCalendarIds.filter((id) => id !== calendarId), calendarId],
+                }));
+            },
+
+            setCalendarColor: (calendarId, color) => {
+                set((state) => {
+                    const calendarColors = { ...state.calendarColors };
+                    if (color) {
+                        calendarColors[calendarId] = color;
+                    } else {
+                        delete calendarColors[calendarId];
+                    }
+                    return { calendarColors };
+                });
+            },
+
+            setDefaultCalendar: (defaultCalendarId) => set({ defaultCalendarId }),
+        }),
+        {
+            name: 'intentive-calendars',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                userId: state.userId,
+                calendars: state.calendars,
+                hiddenCalendarIds: state.hiddenCalendarIds,
+                calendarColors: state.calendarColors,
+                defaultCalendarId: state.defaultCalendarId,
+            }),
+        }
+    )
+);
@@ -0,0 +1,126 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, Category } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+
+interface CategoryState {
+    // Whose categories these are, so another account doesn't see them
+    userId: string | null;
+    categories: Category[];
+    loading: boolean;
+
+    // Actions
+    fetchCategories: () => Promise<void>;
+    createCategory: (name: string, color: string) => Promise<Category>;
+    updateCategory: (id: string, updates: Partial<Pick<Category, 'name' | 'color'>>) => Promise<void>;
+    deleteCategory: (id: string) => Promise<void>;
+}
+
+function sortByName(categories: Category[]) {
+    return [...categories].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getCategoryColor(categories: Category[], categoryId: string | null): string | null {
+    if (!categoryId) return null;
+    return categories.find((category) => category.id === categoryId)?.color ?? null;
+}
+
+function requireUser() {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error('Not signed in');
+    return user;
+}
+
+export const useCategoryStore = create<CategoryState>()(
+    persist(
+        (set, get) => ({
+            userId: null,
+            categories: [],
+            loading: false,
+
+            fetchCategories: async () => {
+                const user = useAuthStore.getState().user;
+                if (!user) return;
+
+                if (get().userId !== user.id) {
+                    set({ userId: user.id, categories: [] });
+                }
+
+                set({ loading: true });
+                try {
+                    // Security: Only fetch categories owned by the current user
+                    const { data, error } = await supabase
+                        .from('categories')
+                        .select('*')
+                        .eq('user_id', user.id);
+
+                    if (error) throw error;
+                    set({ categories: sortByName(data || []) });
+                } catch (error) {
+                    // The cached list stays usable offline
+                    console.error('Error fetching categories:', error);
+                } finally {
+                    set({ loading: false });
+                }
+            },
+
+            createCategory: async (name, color) => {
+                const user = requireUser();
+                const { data, error } = await supabase
+                    .from('categories')
+                    .insert({ user_id: user.id, name: name.trim(), color })
+                    .select()
+                    .single();
+
+                if (error) throw error;
+                set((state) => ({ categories: sortByName([...state.categories, data]) }));
+                return data;
+            },
+
+            updateCategory: async (id, updates) => {
+                const user = requireUser();
+                const previous = get().categories;
+                // Recolor events right away; roll back if the server refuses
+                set({
+                    categories: sortByName(
+                        previous.map((category) => (category.id === id ? { ...category, ...updates } : category))
+                    ),
+                });
+
+                // Security: Only update categories owned by the current user
+                const { error } = await supabase
+                    .from('categories')
+                    .update({ ...updates, updated_at: new Date().toISOString() })
+                    .eq('id', id)
+                    .eq('user_id', user.id);
+
+                if (error) {
+                    set({ categories: previous });
+                    throw error;
+                }
+            },
+
+            deleteCategory: async (id) => {
+                const user = requireUser();
+                // Security: Only delete categories owned by the current user
+                const { error } = await supabase
+                    .from('categories')
+                    .delete()
+                    .eq('id', id)
+                    .eq('user_id', user.id);
+
+                if (error) throw error;
+                set((state) => ({ categories: state.categories.filter((category) => category.id !== id) }));
+            },
+        }),
+        {
+            name: 'intentive-categories',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                userId: state.userId,
+                categories: state.categories,
+            }),
+        }
+    )
+);
@@ -0,0 +1,631 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { supabase, CalendarEvent } from '../lib/supabase';
+import { deleteEventFromGoogle, isGoogleSyncEnabled, pushEventToGoogle } from '../lib/googleSync';
+import { SyncApiConflictError, SyncApiError } from '../lib/syncApi';
+import { hasLocalChanges, isConflict, resolveConflict } from '../lib/conflicts';
+import { useAuthStore } from './authStore';
+import { useSyncSettingsStore } from './syncSettingsStore';
+
+const SYNC_RETRY_BASE_MS = 30 * 1000;
+const SYNC_RETRY_MAX_MS = 30 * 60 * 1000;
+// After this many failures a job waits for the user to retry it
+const SYNC_MAX_AUTO_ATTEMPTS = 8;
+const SYNC_POLL_MS = 30 * 1000;
+
+interface BaseMutation {
+    id: string;
+    eventId: string;
+    queuedAt: string;
+    attempts: number;
+    lastError: string | null;
+    // The server refused it; it waits for the user to retry or discard it
+    rejected?: boolean;
+}
+
+export type EventMutation =
+    | (BaseMutation & { type: 'create'; event: CalendarEvent })
+    | (BaseMutation & { type: 'update'; updates: Partial<CalendarEvent> })
+    | (BaseMutation & { type: 'delete' });
+
+type NewMutation =
+    | { type: 'create'; eventId: string; event: CalendarEvent }
+    | { type: 'update'; eventId: string; updates: Partial<CalendarEvent> }
+    | { type: 'delete'; eventId: string };
+
+/**
+ * A change that reached Supabase but still has to reach Google Calendar. Pushes send
+ * the event's current server copy, so one job covers any number of edits.
+ */
+export type GoogleSyncJob = {
+    id: string;
+    eventId: string;
+    attempts: number;
+    // Null once automatic retries have given up
+    nextAttemptAt: string | null;
+    lastError: string | null;
+} & ({ type: 'push' } | { type: 'delete'; googleEventId: string });
+
+type NewGoogleSyncJob = { type: 'push'; eventId: string } | { type: 'delete'; eventId: string; googleEventId: string };
+
+interface EventState {
+    userId: string | null;
+    // Last known server copy of every cached event, keyed by id
+    serverEvents: Record<string, CalendarEvent>;
+    // Local changes not yet confirmed by Supabase, in the order they were made
+    mutations: EventMutation[];
+    // Changes saved to Supabase that still have to reach Google Calendar
+    syncJobs: GoogleSyncJob[];
+    // The latest admin resync request this device has carried out
+    resyncHandledAt: string | null;
+    hydrated: boolean;
+    isOnline: boolean;
+    isFlushing: boolean;
+    isSyncingGoogle: boolean;
+    isResyncing: boolean;
+    inFlightMutationId: string | null;
+
+    // Actions
+    setUser: (userId: string) => void;
+    mergeRange: (rangeStart: Date, rangeEnd: Date, events: CalendarEvent[]) => void;
+    enqueue: (mutation: NewMutation) => void;
+    flush: () => Promise<void>;
+    queueGoogleSync: (job: NewGoogleSyncJob) => void;
+    processSyncJobs: () => Promise<void>;
+    retryAllSyncs: () => Promise<void>;
+    retryRejected: () => Promise<void>;
+    discardRejected: () => void;
+    resync: (requestedAt: string) => Promise<void>;
+    clear: () => void;
+    initialize: () => () => void;
+}
+
+function overlapsRange(event: CalendarEvent, rangeStart: Date, rangeEnd: Date) {
+    return (
+        new Date(event.start_time).getTime() <= rangeEnd.getTime() &&
+        new Date(event.end_time).getTime() >= rangeStart.getTime()
+    );
+}
+
+// Mirrors the fetch query: recurring events are returned for any range after they start,
+// and overrides for any range holding the occurrence they replace
+function isInFetchedRange(event: CalendarEvent, rangeStart: Date, rangeEnd: Date) {
+    if (event.recurrence_rule) {
+        return new Date(event.start_time).getTime() <= rangeEnd.getTime();
+    }
+    if (event.recurring_event_id && event.original_start_time) {
+        const originalStart = new Date(event.original_start_time).getTime();
+        if (originalStart >= rangeStart.getTime() && originalStart <= rangeEnd.getTime()) return true;
+    }
+    return overlapsRange(event, rangeStart, rangeEnd);
+}
+
+/**
+ * Replays queued mutations on top of the server snapshot to produce
+ * what the user should currently see.
+ */
+export function applyMutations(
+    serverEvents: Record<string, CalendarEvent>,
+    mutations: EventMutation[]
+): CalendarEvent[] {
+    const events = { ...serverEvents };
+
+    for (const mutation of mutations) {
+        if (mutation.type === 'create') {
+            events[mutation.eventId] = mutation.event;
+        } else if (mutation.type === 'update') {
+            const existing = events[mutation.eventId];
+            if (existing) {
+                events[mutation.eventId] = { ...existing, ...mutation.updates };
+            }
+        } else {
+            delete events[mutation.eventId];
+        }
+    }
+
+    return Object.values(events);
+}
+
+export function eventsInRange(events: CalendarEvent[], rangeStart: Date, rangeEnd: Date) {
+    return events
+        .filter((event) => overlapsRange(event, rangeStart, rangeEnd))
+        .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+}
+
+/**
+ * The first change that can be sent: not refused itself, and not queued behind a
+ * refused change to the same event, which it may depend on.
+ */
+function nextReplayable(mutations: EventMutation[]) {
+    const blockedEventIds = new Set<string>();
+    for (const mutation of mutations) {
+        if (mutation.rejected) {
+            blockedEventIds.add(mutation.eventId);
+        } else if (!blockedEventIds.has(mutation.eventId)) {
+            return mutation;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * A Supabase error carrying a Postgres/PostgREST code means the server looked at
+ * the request and refused it. Retrying won't help, unlike a dropped connection.
+ */
+function isRejection(error: unknown) {
+    return typeof error === 'object' && error !== null && !!(error as { code?: string }).code;
+}
+
+/**
+ * Sends a single queued mutation to Supabase. Resolves with the server's copy of the
+ * event (for deletes, the row as it was before), or null if it no longer exists.
+ * Google Calendar is updated separately through the sync jobs.
+ */
+async function replayMutation(mutation: EventMutation, userId: string): Promise<CalendarEvent | null> {
+    if (mutation.type === 'create') {
+        // Upsert so a replay after a lost response doesn't fail on the duplicate id
+        const { data: insertedEvent, error } = await supabase
+            .from('events')
+            .upsert({ ...mutation.event, user_id: userId })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return insertedEvent;
+    }
+
+    if (mutation.type === 'update') {
+        // Security: Only update events owned by the current user
+        const { data, error } = await supabase
+            .from('events')
+            .update({ ...mutation.updates, updated_at: mutation.queuedAt, sync_status: 'pending' })
+            .eq('id', mutation.eventId)
+            .eq('user_id', userId)
+            .select();
+
+        if (error) throw error;
+        return data?.[0] ?? null;
+    }
+
+    // Security: Only delete events owned by the current user
+    const { data, error } = await supabase
+        .from('events')
+        .delete()
+        .eq('id', mutation.eventId)
+        .eq('user_id', userId)
+        .select();
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+}
+
+function retryDelay(attempts: number) {
+    return Math.min(SYNC_RETRY_BASE_MS * 2 ** (attempts - 1), SYNC_RETRY_MAX_MS);
+}
+
+function isDue(job: GoogleSyncJob) {
+    return job.nextAttemptAt !== null && Date.parse(job.nextAttemptAt) <= Date.now();
+}
+
+/** Writes an event's Google sync state to Supabase; the local copy is updated by the caller. */
+async function recordSyncState(eventId: string, userId: string, fields: Partial<CalendarEvent>) {
+    const { error } = await supabase
+        .from('events')
+        .update(fields)
+        .eq('id', eventId)
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error saving sync state:', error);
+    }
+}
+
+const emptyCache = {
+    userId: null,
+    serverEvents: {},
+    mutations: [],
+    syncJobs: [],
+    resyncHandledAt: null,
+};
+
+export const useEventStore = create<EventState>()(
+    persist(
+        (set, get) => ({
+            ...emptyCache,
+            hydrated: false,
+            isOnline: true,
+            isFlushing: false,
+            isResyncing: false,
+            isSyncingGoogle: false,
+            inFlightMutationId: null,
+
+            setUser: (userId) => {
+                // Never show one account's cached events to another
+                if (get().userId !== userId) {
+                    set({ ...emptyCache, userId });
+                }
+            },
+
+            mergeRange: (rangeStart, rangeEnd, events) => {
+                set((state) => {
+                    const serverEvents: Record<string, CalendarEvent> = {};
+
+                    // Drop cached events in the range that the server no longer returns
+                    for (const event of Object.values(state.serverEvents)) {
+                        if (!isInFetchedRange(event, rangeStart, rangeEnd)) {
+                            serverEvents[event.id] = event;
+                        }
+                    }
+                    for (const event of events) {
+                        serverEvents[event.id] = event;
+                    }
+
+                    return { serverEvents };
+                });
+            },
+
+            enqueue: (newMutation) => {
+                set((state) => {
+                    const { inFlightMutationId } = state;
+                    let mutations = state.mutations;
+                    const pendingCreate = mutations.find(
+                        (m) => m.type === 'create' && m.eventId === newMutation.eventId && m.id !== inFlightMutationId
+                    );
+
+                    // Fold changes to an event that never reached the server into its create
+                    if (pendingCreate && newMutation.type === 'update') {
+                        return {
+                            mutations: mutations.map((m) =>
+                                m === pendingCreate && m.type === 'create'
+                                    ? { ...m, event: { ...m.event, ...newMutation.updates } }
+                                    : m
+                            ),
+                        };
+                    }
+                    if (pendingCreate && newMutation.type === 'delete') {
+                        return {
+                            mutations: mutations.filter(
+                                (m) => m.eventId !== newMutation.eventId || m.id === inFlightMutationId
+                            ),
+                        };
+                    }
+
+                    if (newMutation.type === 'delete') {
+                        // Pending edits are pointless once the event is gone
+                        mutations = mutations.filter(
+                            (m) => !(m.type === 'update' && m.eventId === newMutation.eventId && m.id !== inFlightMutationId)
+                        );
+                    }
+
+                    return {
+                        mutations: [
+                            ...mutations,
+                            {
+                                ...newMutation,
+                                id: Crypto.randomUUID(),
+                                queuedAt: new Date().toISOString(),
+                                attempts: 0,
+                                lastError: null,
+                            },
+                        ],
+                    };
+                });
+            },
+
+            flush: async () => {
+                const { isFlushing, isOnline, hydrated, userId } = get();
+                if (isFlushing || !isOnline || !hydrated || !userId) return;
+
+                set({ isFlushing: true });
+                try {
+                    // Replay strictly in order; later mutations may depend on earlier ones
+                    while (get().isOnline) {
+                        const mutation = nextReplayable(get().mutations);
+                        if (!mutation) break;
+
+                        set({ inFlightMutationId: mutation.id });
+                        try {
+                            const saved = await replayMutation(mutation, userId);
+
+                            set((state) => {
+                                const serverEvents = { ...state.serverEvents };
+                                if (saved && mutation.type !== 'delete') {
+                                    serverEvents[saved.id] = saved;
+                                } else {
+                                    delete serverEvents[mutation.eventId];
+                                }
+                                return {
+                                    serverEvents,
+                                    mutations: state.mutations.filter((m) => m.id !== mutation.id),
+                                };
+                            });
+
+                            if (mutation.type !== 'delete' && saved) {
+                                get().queueGoogleSync({ type: 'push', eventId: saved.id });
+                            } else if (mutation.type === 'delete' && saved?.google_event_id) {
+                                get().queueGoogleSync({
+                                    type: 'delete',
+                                    eventId: saved.id,
+                                    googleEventId: saved.google_event_id,
+                                });
+                            }
+                        } catch (error) {
+                            const message = error instanceof Error ? error.message : String(error);
+
+                            if (isRejection(error)) {
+                                // Set it aside so one bad change doesn't block the rest of the queue
+                                console.error('Event change rejected by server:', error);
+                                set((state) => ({
+                                    mutations: state.mutations.map((m) =>
+                                        m.id === mutation.id
+                                            ? { ...m, attempts: m.attempts + 1, lastError: message, rejected: true }
+                                            : m
+                                    ),
+                                }));
+                                continue;
+                            }
+
+                            set((state) => ({
+                                mutations: state.mutations.map((m) =>
+                                    m.id === mutation.id
+                                        ? { ...m, attempts: m.attempts + 1, lastError: message }
+                                        : m
+                                ),
+                            }));
+                            break;
+                        }
+                    }
+                } finally {
+                    set({ isFlushing: false, inFlightMutationId: null });
+                }
+
+                get().processSyncJobs();
+            },
+
+            queueGoogleSync: (newJob) => {
+                if (!isGoogleSyncEnabled) return;
+
+                set((state) => ({
+                    syncJobs: [
+                        // A newer job for the same event supersedes any older one
+                        ...state.syncJobs.filter((job) => job.eventId !== newJob.eventId),
+                        {
+                            ...newJob,
+                            id: Crypto.randomUUID(),
+                            attempts: 0,
+                            nextAttemptAt: new Date().toISOString(),
+                            lastError: null,
+                        },
+                    ],
+                }));
+            },
+
+            processSyncJobs: async () => {
+                const { isSyncingGoogle, isOnline, hydrated, userId } = get();
+                if (isSyncingGoogle || !isOnline || !hydrated || !userId) return;
+                // Jobs wait for the user to connect Google Calendar instead of failing, and
+                // until the access check has answered; useGoogleAccess retries them after
+                const { googleAccess, checkGoogleAccess } = useAuthStore.getState();
+                if (googleAccess === null) {
+                    checkGoogleAccess();
+                    return;
+                }
+                if (googleAccess === 'not_connected') return;
+
+                set({ isSyncingGoogle: true });
+                // Conflicts settled by the default policy leave changes in the queue
+                let resolvedConflicts = false;
+                try {
+                    for (const job of get().syncJobs.filter(isDue)) {
+                        if (!get().isOnline) break;
+                        // Superseded while an earlier job was running
+                        if (!get().syncJobs.some((j) => j.id === job.id)) continue;
+
+                        const removeJob = () =>
+                            set((state) => ({ syncJobs: state.syncJobs.filter((j) => j.id !== job.id) }));
+                        const setEventFields = (fields: Partial<CalendarEvent>) => {
+                            set((state) => {
+                                const event = state.serverEvents[job.eventId];
+                                if (!event) return {};
+                                return { serverEvents: { ...state.serverEvents, [job.eventId]: { ...event, ...fields } } };
+                            });
+                            return recordSyncState(job.eventId, userId, fields);
+                        };
+
+                        const event = get().serverEvents[job.eventId];
+                        if (job.type === 'push' && !event) {
+                            // Deleted since; its delete has a job of its own if needed
+                            removeJob();
+                            continue;
+                        }
+
+                        try {
+                            if (job.type === 'push') {
+                                const googleEventId = await pushEventToGoogle(event);
+                                removeJob();
+                                await setEventFields({
+                                    google_event_id: googleEventId ?? event.google_event_id,
+                                    sync_status: 'synced',
+                                    sync_error: null,
+                                    synced_at: new Date().toISOString(),
+                                });
+                            } else {
+                                await deleteEventFromGoogle(job.eventId, job.googleEventId);
+                                removeJob();
+                            }
+                        } catch (error) {
+                            const status = error instanceof SyncApiError ? error.status : null;
+                            const message = error instanceof Error ? error.message : String(error);
+
+                            if (job.type === 'delete' && (status === 404 || status === 410)) {
+                                // Already gone from Google
+                                removeJob();
+                                continue;
+                            }
+                            if (job.type === 'push' && error instanceof SyncApiConflictError) {
+                                // Changed in Google too; retrying as-is would overwrite one side
+                                removeJob();
+                                const remote = error.remote;
+                                const policy = useSyncSettingsStore.getState().conflictPolicy;
+
+                                if (remote && (policy !== 'ask' || !isConflict(event, remote))) {
+                                    const side = policy === 'prefer_google' || !hasLocalChanges(event) ? 'google' : 'local';
+                                    get().enqueue({
+                                        type: 'update',
+                                        eventId: event.id,
+                                        updates: resolveConflict(event, remote, () => side),
+                                    });
+                                    resolvedConflicts = true;
+                                } else {
+                                    await setEventFields({ sync_status: 'conflict', sync_error: message, google_version: remote });
+                                }
+                                continue;
+                            }
+
+                            console.error('Error syncing event with Google:', error);
+                            if (status === 403) {
+                                // Usually revoked Google access; the banner offers to reconnect
+                                useAuthStore.getState().checkGoogleAccess({ force: true });
+                            }
+                            const attempts = job.attempts + 1;
+                            set((state) => ({
+                                syncJobs: state.syncJobs.map((j) =>
+                                    j.id === job.id
+                                        ? {
+                                            ...j,
+                                            attempts,
+                                            lastError: message,
+                                            nextAttemptAt: attempts >= SYNC_MAX_AUTO_ATTEMPTS
+                                                ? null
+                                                : new Date(Date.now() + retryDelay(attempts)).toISOString(),
+                                        }
+                                        : j
+                                ),
+                            }));
+                            if (job.type === 'push') {
+                                await setEventFields({ sync_status: 'failed', sync_error: message });
+                            }
+                        }
+                    }
+                } finally {
+                    set({ isSyncingGoogle: false });
+                }
+
+                if (resolvedConflicts) {
+                    get().flush();
+                }
+            },
+
+            retryAllSyncs: async () => {
+                const now = new Date().toISOString();
+                set((state) => ({
+                    syncJobs: state.syncJobs.map((job) => ({ ...job, attempts: 0, nextAttemptAt: now })),
+                }));
+                // Flushing runs the sync jobs once the queue is through
+                await get().flush();
+            },
+
+            retryRejected: async () => {
+                set((state) => ({
+                    mutations: state.mutations.map((m) => (m.rejected ? { ...m, rejected: false } : m)),
+                }));
+                await get().flush();
+            },
+
+            discardRejected: () => {
+                set((state) => ({ mutations: state.mutations.filter((m) => !m.rejected) }));
+            },
+
+            /**
+             * Pushes every event the server says hasn't reached Google, including ones this
+             * device has no job for (made on another device, or queued before a reinstall).
+             * Conflicts are left alone; they need the user to choose.
+             */
+            resync: async (requestedAt) => {
+                const { userId, resyncHandledAt, isResyncing } = get();
+                if (!userId || isResyncing || !isGoogleSyncEnabled) return;
+                if (resyncHandledAt && resyncHandledAt >= requestedAt) return;
+
+                set({ isResyncing: true });
+                try {
+                    await useAuthStore.getState().checkGoogleAccess({ force: true });
+
+                    // Security: Only fetch events owned by the current user
+                    const { data, error } = await supabase
+                        .from('events')
+                        .select('*')
+                        .eq('user_id', userId)
+                        .in('sync_status', ['pending', 'failed']);
+
+                    // Left unhandled so the next profile refresh tries again
+                    if (error) {
+                        console.error('Error fetching events to resync:', error);
+                        return;
+                    }
+
+                    const events: CalendarEvent[] = data || [];
+                    set((state) => ({
+                        serverEvents: {
+                            ...state.serverEvents,
+                            ...Object.fromEntries(events.map((event) => [event.id, event])),
+                        },
+                    }));
+                    for (const event of events) {
+                        get().queueGoogleSync({ type: 'push', eventId: event.id });
+                    }
+                    set({ resyncHandledAt: requestedAt });
+                } finally {
+                    set({ isResyncing: false });
+                }
+                await get().retryAllSyncs();
+            },
+
+            clear: () => set({ ...emptyCache }),
+
+            initialize: () => {
+                // Replay queued changes as soon as connectivity returns
+                const unsubscribeNetInfo = NetInfo.addEventListener((netState) => {
+                    const isOnline = netState.isConnected !== false && netState.isInternetReachable !== false;
+                    const wasOnline = get().isOnline;
+                    set({ isOnline });
+                    if (isOnline && !wasOnline) {
+                        get().flush();
+                    }
+                });
+
+                // Retry failed Google pushes as their backoff runs out
+                const syncTimer = setInterval(() => get().processSyncJobs(), SYNC_POLL_MS);
+
+                // Drop the cache on sign-out
+                const unsubscribeAuth = useAuthStore.subscribe((state, prevState) => {
+                    if (prevState.user && !state.user) {
+                        get().clear();
+                    }
+                });
+
+                return () => {
+                    unsubscribeNetInfo();
+                    unsubscribeAuth();
+                    clearInterval(syncTimer);
+                };
+            },
+        }),
+        {
+            name: 'intentive-events',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                userId: state.userId,
+                serverEvents: state.serverEvents,
+                mutations: state.mutations,
+                syncJobs: state.syncJobs,
+                resyncHandledAt: state.resyncHandledAt,
+            }),
+            onRehydrateStorage: () => () => {
+                useEventStore.setState({ hydrated: true });
+            },
+        }
+    )
+);
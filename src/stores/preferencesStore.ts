@@ -0,0 +1,87 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PREFERENCES, Preferences, parseStoredPreferences } from '../lib/preferences';
+import { useAuthStore } from './authStore';
+import { useProfileStore } from './profileStore';
+
+interface PreferencesState extends Preferences {
+    // Whose preferences these are, so another account starts from the defaults
+    userId: string | null;
+    // Last change made on this device; the newer of this and the profile's copy wins
+    updatedAt: string | null;
+
+    // Actions
+    setPreferences: (updates: Partial<Preferences>) => void;
+    syncWithProfile: () => Promise<void>;
+}
+
+function pickPreferences(state: Preferences): Preferences {
+    return {
+        timeFormat: state.timeFormat,
+        weekStartsOn: state.weekStartsOn,
+        defaultDurationMinutes: state.defaultDurationMinutes,
+        dayStartHour: state.dayStartHour,
+        dayEndHour: state.dayEndHour,
+        reminders: state.reminders,
+        gridDensity: state.gridDensity,
+    };
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+    persist(
+        (set, get) => ({
+            ...DEFAULT_PREFERENCES,
+            userId: null,
+            updatedAt: null,
+
+            setPreferences: (updates) => {
+                set({
+                    ...updates,
+                    userId: useAuthStore.getState().user?.id ?? get().userId,
+                    updatedAt: new Date().toISOString(),
+                });
+                get().syncWithProfile();
+            },
+
+            syncWithProfile: async () => {
+                const user = useAuthStore.getState().user;
+                const profile = useProfileStore.getState().profile;
+                if (!user || profile?.id !== user.id) return;
+
+                if (get().userId && get().userId !== user.id) {
+                    set({ ...DEFAULT_PREFERENCES, updatedAt: null });
+                }
+                set({ userId: user.id });
+
+                const remote = parseStoredPreferences(profile.preferences);
+                const localUpdatedAt = get().updatedAt;
+
+                if (remote.updatedAt && (!localUpdatedAt || remote.updatedAt > localUpdatedAt)) {
+                    set({ ...remote.preferences, updatedAt: remote.updatedAt });
+                    return;
+                }
+
+                if (localUpdatedAt && localUpdatedAt !== remote.updatedAt) {
+                    try {
+                        await useProfileStore.getState().updateProfile({
+                            preferences: { ...pickPreferences(get()), updatedAt: localUpdatedAt },
+                        });
+                    } catch (error) {
+                        // Kept on this device; pushed again on the next sync
+                        console.error('Error saving preferences:', error);
+                    }
+                }
+            },
+        }),
+        {
+            name: 'intentive-preferences',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                ...pickPreferences(state),
+                userId: state.userId,
+                updatedAt: state.updatedAt,
+            }),
+        }
+    )
+);
@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, Profile } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+
+// The parts of a profile users can change themselves; email and role are set by the server
+export type ProfileUpdates = Partial<Pick<Profile, 'full_name' | 'avatar_url' | 'preferences'>>;
+
+interface ProfileState {
+    profile: Profile | null;
+    loading: boolean;
+
+    // Actions
+    fetchProfile: () => Promise<void>;
+    updateProfile: (updates: ProfileUpdates) => Promise<void>;
+}
+
+export const useProfileStore = create<ProfileState>()(
+    persist(
+        (set, get) => ({
+            profile: null,
+            loading: false,
+
+            fetchProfile: async () => {
+                const user = useAuthStore.getState().user;
+                if (!user) return;
+
+                // Never show one account's profile to another
+                if (get().profile?.id !== user.id) {
+                    set({ profile: null });
+                }
+
+                set({ loading: true });
+                try {
+                    // Security: Only fetch the current user's own profile
+                    const { data, error } = await supabase
+                        .from('profiles')
+                        .select('*')
+                        .eq('id', user.id)
+                        .maybeSingle();
+
+                    if (error) throw error;
+                    set({ profile: data });
+                } catch (error) {
+                    // The cached profile stays usable offline
+                    console.error('Error fetching profile:', error);
+                } finally {
+                    set({ loading: false });
+                }
+            },
+
+            updateProfile: async (updates) => {
+                const user = useAuthStore.getState().user;
+                const previous = get().profile;
+                if (!user || !previous) throw new Error('Profile not loaded');
+
+                set({ profile: { ...previous, ...updates } });
+
+                // Security: Only update the current user's own profile
+                const { data, error } = await supabase
+                    .from('profiles')
+                    .update({ ...updates, updated_at: new Date().toISOString() })
+                    .eq('id', user.id)
+                    .select()
+                    .single();
+
+                if (error) {
+                    set({ profile: previous });
+                    throw error;
+                }
+                set({ profile: data });
+            },
+        }),
+        {
+            name: 'intentive-profile',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                profile: state.profile,
+            }),
+        }
+    )
+);
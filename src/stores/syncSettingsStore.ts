@@ -0,0 +1,26 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ConflictPolicy } from '../lib/conflicts';
+
+interface SyncSettingsState {
+    // Applied when an event changed both here and in Google Calendar
+    conflictPolicy: ConflictPolicy;
+
+    // Actions
+    setConflictPolicy: (conflictPolicy: ConflictPolicy) => void;
+}
+
+export const useSyncSettingsStore = create<SyncSettingsState>()(
+    persist(
+        (set) => ({
+            conflictPolicy: 'ask',
+
+            setConflictPolicy: (conflictPolicy) => set({ conflictPolicy }),
+        }),
+        {
+            name: 'intentive-sync-settings',
+            storage: createJSONStorage(() => AsyncStorage),
+        }
+    )
+);
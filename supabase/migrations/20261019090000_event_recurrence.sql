@@ -0,0 +1,15 @@
+-- Recurring events: a master row carries the rule, single-occurrence edits are
+-- stored as override rows pointing back at the master.
+alter table public.events
+  add column if not exists recurrence_rule jsonb,
+  add column if not exists recurring_event_id uuid references public.events (id) on delete cascade,
+  add column if not exists original_start_time timestamptz;
+
+create index if not exists events_recurring_event_id_idx
+  on public.events (recurring_event_id);
+
+-- Masters are fetched by start time alone, since their own end_time says nothing
+-- about when the last occurrence happens.
+create index if not exists events_recurring_masters_idx
+  on public.events (user_id, start_time)
+  where recurrence_rule is not null;
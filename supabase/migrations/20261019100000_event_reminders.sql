@@ -0,0 +1,3 @@
+-- Per-event reminder offsets in minutes before start; null means the user's default.
+alter table public.events
+  add column if not exists reminder_offsets integer[];
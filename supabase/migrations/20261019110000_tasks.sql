@@ -0,0 +1,31 @@
+-- To-dos that can be scheduled onto the calendar as time blocks.
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  estimated_minutes integer not null default 30 check (estimated_minutes > 0),
+  due_date date,
+  done boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists tasks_user_id_idx on public.tasks (user_id);
+
+alter table public.tasks enable row level security;
+
+create policy "Users manage their own tasks"
+  on public.tasks
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Time blocks keep existing as plain events if their task is deleted.
+alter table public.events
+  add column if not exists task_id uuid references public.tasks (id) on delete set null;
+
+create index if not exists events_task_id_idx
+  on public.events (task_id)
+  where task_id is not null;
+
+alter publication supabase_realtime add table public.tasks;
@@ -0,0 +1,5 @@
+-- IANA timezone each event's times were entered in, e.g. 'America/New_York'.
+-- Recurring events keep their wall-clock time in this zone across DST changes.
+-- Existing rows stay null and are read in the viewing device's zone.
+alter table public.events
+  add column if not exists time_zone text;
@@ -0,0 +1,10 @@
+-- Per-event state of the push to Google Calendar.
+alter table public.events
+  add column if not exists sync_status text not null default 'pending'
+    check (sync_status in ('pending', 'synced', 'failed', 'conflict')),
+  add column if not exists sync_error text;
+
+-- Rows that already made it to Google
+update public.events
+  set sync_status = 'synced'
+  where google_event_id is not null;
@@ -0,0 +1,4 @@
+-- Google Calendar's copy of an event that was changed in both places, kept until
+-- the user decides which changes win.
+alter table public.events
+  add column if not exists google_version jsonb;
@@ -0,0 +1,4 @@
+-- Which of the user's Google calendars an event belongs to. Null is the primary
+-- calendar, which is where every event lived before.
+alter table public.events
+  add column if not exists calendar_id text;
@@ -0,0 +1,36 @@
+-- User-defined event categories, each with the color its events default to.
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  color text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- Target of events' (user_id, category_id) reference below
+  unique (user_id, id)
+);
+
+create index if not exists categories_user_id_idx on public.categories (user_id);
+
+alter table public.categories enable row level security;
+
+create policy "Users manage their own categories"
+  on public.categories
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Events can only use their own user's categories: foreign keys skip row level
+-- security, so a reference to the id alone would accept anyone's category. Events
+-- fall back to their calendar's color if their category is deleted.
+alter table public.events
+  add column if not exists category_id uuid,
+  add foreign key (user_id, category_id)
+    references public.categories (user_id, id)
+    on delete set null (category_id);
+
+create index if not exists events_category_id_idx
+  on public.events (category_id)
+  where category_id is not null;
+
+alter publication supabase_realtime add table public.categories;
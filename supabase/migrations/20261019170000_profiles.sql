@@ -0,0 +1,62 @@
+-- One profile per account, created on sign-up and edited from the profile screen.
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  full_name text,
+  avatar_url text,
+  role text not null default 'user' check (role in ('user', 'admin')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "Users read their own profile" on public.profiles;
+create policy "Users read their own profile"
+  on public.profiles
+  for select
+  using (auth.uid() = id);
+
+drop policy if exists "Users update their own profile" on public.profiles;
+create policy "Users update their own profile"
+  on public.profiles
+  for update
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+-- Users may edit how they appear, never their email or role.
+revoke update on public.profiles from authenticated;
+grant update (full_name, avatar_url, updated_at) on public.profiles to authenticated;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name, avatar_url)
+  values (
+    new.id,
+    coalesce(new.email, ''),
+    new.raw_user_meta_data ->> 'full_name',
+    coalesce(new.raw_user_meta_data ->> 'avatar_url', new.raw_user_meta_data ->> 'picture')
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Accounts created before the trigger existed
+insert into public.profiles (id, email, full_name, avatar_url)
+select
+  id,
+  coalesce(email, ''),
+  raw_user_meta_data ->> 'full_name',
+  coalesce(raw_user_meta_data ->> 'avatar_url', raw_user_meta_data ->> 'picture')
+from auth.users
+on conflict (id) do nothing;
@@ -0,0 +1,5 @@
+-- App preferences (time format, week start, reminders, ...) synced across a user's devices.
+alter table public.profiles
+  add column if not exists preferences jsonb;
+
+grant update (preferences) on public.profiles to authenticated;
@@ -0,0 +1,138 @@
+-- Support tools for admins: every user's sync health, their recent sync errors, and a
+-- way to ask their app to push everything that hasn't reached Google again.
+-- Admins never get direct access to other users' events; these functions only
+-- return sync metadata and check the caller's role themselves.
+
+-- Set by an admin; the user's app resyncs when it sees a newer value than it handled.
+alter table public.profiles
+  add column if not exists resync_requested_at timestamptz;
+
+-- Security definer so policies on profiles can call it without recursing.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role = 'admin');
+$$;
+
+drop policy if exists "Admins read all profiles" on public.profiles;
+create policy "Admins read all profiles"
+  on public.profiles
+  for select
+  using (public.is_admin());
+
+create or replace function public.admin_list_users()
+returns table (
+  id uuid,
+  email text,
+  full_name text,
+  avatar_url text,
+  role text,
+  created_at timestamptz,
+  resync_requested_at timestamptz,
+  event_count bigint,
+  pending_count bigint,
+  failed_count bigint,
+  conflict_count bigint,
+  last_synced_at timestamptz
+)
+language plpgsql
+stable
+security definer set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can list users' using errcode = '42501';
+  end if;
+
+  return query
+    select
+      p.id,
+      p.email,
+      p.full_name,
+      p.avatar_url,
+      p.role,
+      p.created_at,
+      p.resync_requested_at,
+      count(e.id),
+      count(e.id) filter (where e.sync_status = 'pending'),
+      count(e.id) filter (where e.sync_status = 'failed'),
+      count(e.id) filter (where e.sync_status = 'conflict'),
+      max(e.synced_at)
+    from public.profiles p
+    left join public.events e on e.user_id = p.id
+    group by p.id
+    order by p.email;
+end;
+$$;
+
+create or replace function public.admin_user_sync_errors(target_user_id uuid, max_rows integer default 20)
+returns table (
+  event_id uuid,
+  sync_status text,
+  sync_error text,
+  updated_at timestamptz,
+  synced_at timestamptz
+)
+language plpgsql
+stable
+security definer set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can view sync errors' using errcode = '42501';
+  end if;
+
+  -- Event titles and times stay private; the error is what support needs
+  return query
+    select e.id, e.sync_status, e.sync_error, e.updated_at, e.synced_at
+    from public.events e
+    where e.user_id = target_user_id
+      and (e.sync_error is not null or e.sync_status in ('failed', 'conflict'))
+    order by e.updated_at desc
+    limit least(greatest(max_rows, 1), 100);
+end;
+$$;
+
+create or replace function public.admin_request_resync(target_user_id uuid)
+returns timestamptz
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  requested_at timestamptz := now();
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can request a resync' using errcode = '42501';
+  end if;
+
+  update public.profiles set resync_requested_at = requested_at where id = target_user_id;
+  if not found then
+    raise exception 'No user with id %', target_user_id using errcode = 'P0002';
+  end if;
+  return requested_at;
+end;
+$$;
+
+revoke execute on function public.admin_list_users() from public, anon;
+revoke execute on function public.admin_user_sync_errors(uuid, integer) from public, anon;
+revoke execute on function public.admin_request_resync(uuid) from public, anon;
+grant execute on function public.admin_list_users() to authenticated;
+grant execute on function public.admin_user_sync_errors(uuid, integer) to authenticated;
+grant execute on function public.admin_request_resync(uuid) to authenticated;
+
+-- Lets an open app pick up a resync request without waiting for a relaunch
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'profiles'
+  ) then
+    alter publication supabase_realtime add table public.profiles;
+  end if;
+end;
+$$;
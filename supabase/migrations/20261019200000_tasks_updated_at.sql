@@ -0,0 +1,20 @@
+-- Keep tasks.updated_at current on every edit: the tasks screen only sends the fields
+-- it changes. Events deliberately have no such trigger; the app stamps their
+-- updated_at with when the change was made offline, and conflict detection compares
+-- it with synced_at, so a server-side now() would mark every synced event as changed.
+-- Categories and profiles don't need one either, since every client update already
+-- sets updated_at and nothing reads it back.
+create or replace function public.set_task_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists set_tasks_updated_at on public.tasks;
+create trigger set_tasks_updated_at
+  before update on public.tasks
+  for each row execute function public.set_task_updated_at();
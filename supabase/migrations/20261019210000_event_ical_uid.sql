@@ -0,0 +1,8 @@
+-- UID of the iCalendar event an event was imported from, so importing the same
+-- file again skips what is already there. Null for events made in the app.
+alter table public.events
+  add column if not exists ical_uid text;
+
+create index if not exists events_ical_uid_idx
+  on public.events (user_id, ical_uid)
+  where ical_uid is not null;